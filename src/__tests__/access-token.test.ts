@@ -0,0 +1,54 @@
+/**
+ * Tests for personal access token authentication
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AccessTokenAuth, ACCESS_TOKEN_REAUTHORIZE_MESSAGE } from '../auth/access-token.js';
+import type { WhoamiResponse } from '../api/types/index.js';
+
+const whoami = {
+  user: { id: 1, email: 'ci@example.com' },
+  organization: { id: 2, slug: 'agency', title: 'Agency' },
+} as unknown as WhoamiResponse;
+
+describe('AccessTokenAuth', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the token without OAuth', async () => {
+    const auth = new AccessTokenAuth('pat-123', 'https://api.example.com');
+
+    expect(await auth.getAccessToken()).toBe('pat-123');
+    expect(await auth.authenticate()).toEqual({ success: true, token: 'pat-123' });
+  });
+
+  it('should look up the organization once', async () => {
+    const auth = new AccessTokenAuth('pat-123', 'https://api.example.com');
+    const spy = vi.spyOn(auth.client, 'whoami').mockResolvedValue(whoami);
+
+    expect(await auth.getOrganizationSlug()).toBe('agency');
+    expect(await auth.getOrganizationSlug()).toBe('agency');
+    expect(spy).toHaveBeenCalledOnce();
+  });
+
+  it('should retry whoami after a failure', async () => {
+    const auth = new AccessTokenAuth('pat-123', 'https://api.example.com');
+    const spy = vi.spyOn(auth.client, 'whoami')
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue(whoami);
+
+    expect(await auth.getOrganizationSlug()).toBeUndefined();
+    expect(await auth.getOrganizationSlug()).toBe('agency');
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should explain how to reauthorize instead of opening a browser', async () => {
+    const auth = new AccessTokenAuth('pat-123', 'https://api.example.com');
+
+    expect(await auth.reauthorize()).toEqual({ success: false, message: ACCESS_TOKEN_REAUTHORIZE_MESSAGE });
+
+    const session = new AccessTokenAuth('pat-123', 'https://api.example.com', { reauthorizeMessage: 'Connect again.' });
+    expect(await session.reauthorize()).toEqual({ success: false, message: 'Connect again.' });
+  });
+});
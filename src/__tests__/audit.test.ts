@@ -0,0 +1,214 @@
+/**
+ * Tests for the tool call audit log and the audit command
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog, affectedIds, type AuditEntry } from '../audit/audit-log.js';
+import { runAuditCommand, parseAuditTime, type CliOutput } from '../cli/index.js';
+import { handleTool, successResult, errorResult, type ToolContext } from '../tools/index.js';
+import type { MediagraphClient } from '../api/client.js';
+
+function captureOutput(): CliOutput & { stdout: string[]; stderr: string[] } {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  return { stdout, stderr, out: (text) => stdout.push(text), err: (text) => stderr.push(text) };
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-audit-'));
+    file = join(dir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one redacted JSON line per call', async () => {
+    const auditLog = new AuditLog(file, { profile: 'production' });
+    await auditLog.record({
+      tool: 'create_webhook',
+      organization: 'agency',
+      args: { name: 'Hook', url: 'https://example.com', secret: 'hunter2', asset_group_id: 5 },
+      result: successResult({ id: 9 }),
+      durationMs: 42,
+    });
+    await auditLog.record({ tool: 'get_asset', args: { id: 1 }, result: errorResult('Not found'), durationMs: 3 });
+
+    const lines = readFileSync(file, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    const first = JSON.parse(lines[0]) as AuditEntry;
+    expect(first).toMatchObject({
+      profile: 'production',
+      organization: 'agency',
+      tool: 'create_webhook',
+      args: { name: 'Hook', secret: '[REDACTED]', asset_group_id: 5 },
+      affectedIds: { asset_group_id: [5] },
+      success: true,
+      durationMs: 42,
+    });
+    expect(Date.parse(first.timestamp)).not.toBeNaN();
+    expect(lines[0]).not.toContain('hunter2');
+    expect(JSON.parse(lines[1])).toMatchObject({ success: false, error: 'Not found' });
+  });
+
+  it('collects IDs from id arguments', () => {
+    expect(affectedIds({ id: 7, asset_ids: [1, 2], guid: '', tags: ['x'], collection_id: 'abc' }))
+      .toEqual({ id: [7], asset_ids: [1, 2], collection_id: ['abc'] });
+  });
+
+  it('queries by tool, asset, errors and time, skipping broken lines', async () => {
+    const auditLog = new AuditLog(file);
+    const call = (tool: string, args: Record<string, unknown>, ok = true) =>
+      auditLog.record({ tool, args, result: ok ? successResult('ok') : errorResult('failed'), durationMs: 1 });
+
+    await call('update_asset', { id: 100, title: 'New' });
+    await call('create_bulk_job', { asset_ids: [100, 101] });
+    await call('update_collection', { id: 100 });
+    await call('add_tags_to_asset', { id: 102, tags: ['x'] }, false);
+    appendFileSync(file, '{"cut off\n');
+
+    expect(auditLog.read()).toHaveLength(4);
+    expect(auditLog.query({ assetId: '100' }).map((entry) => entry.tool)).toEqual(['update_asset', 'create_bulk_job']);
+    expect(auditLog.query({ tool: 'update_collection' })).toHaveLength(1);
+    expect(auditLog.query({ errorsOnly: true }).map((entry) => entry.tool)).toEqual(['add_tags_to_asset']);
+    expect(auditLog.query({ since: new Date(Date.now() + 60000) })).toEqual([]);
+    expect(auditLog.query({ until: new Date(Date.now() + 60000) })).toHaveLength(4);
+  });
+
+  it('finds assets the tool reported changing', async () => {
+    const auditLog = new AuditLog(file);
+    await auditLog.record({ tool: 'undo_change', args: { id: 'a1b2c3d4' }, result: successResult('ok'), durationMs: 1, assetIds: [100, 101] });
+
+    expect(auditLog.read()[0].assetIds).toEqual([100, 101]);
+    expect(auditLog.query({ assetId: '101' }).map((entry) => entry.tool)).toEqual(['undo_change']);
+  });
+
+  it('does not fail the call when the log cannot be written', async () => {
+    // The log's directory is a file
+    writeFileSync(join(dir, 'logs'), '');
+    const auditLog = new AuditLog(file);
+    await expect(auditLog.record({ tool: 'whoami', args: {}, result: successResult('ok'), durationMs: 1 }))
+      .resolves.toBeUndefined();
+  });
+});
+
+describe('handleTool auditing', () => {
+  function context(overrides: Partial<ToolContext> = {}): ToolContext {
+    return {
+      client: {
+        getAsset: vi.fn().mockResolvedValue({ id: 5, filename: 'a.jpg' }),
+        updateAsset: vi.fn().mockResolvedValue({ id: 5, filename: 'a.jpg' }),
+        withSignal() { return this; },
+      } as unknown as MediagraphClient,
+      organizationSlug: 'agency',
+      ...overrides,
+    };
+  }
+
+  it('records successful, failed and rejected calls', async () => {
+    const audit = vi.fn().mockResolvedValue(undefined);
+
+    await handleTool('get_asset', { id: 5 }, context({ audit }));
+    expect(audit).toHaveBeenLastCalledWith(expect.objectContaining({
+      tool: 'get_asset',
+      organization: 'agency',
+      args: { id: 5 },
+      durationMs: expect.any(Number),
+    }));
+    expect(audit.mock.calls[0][0].result.isError).toBeFalsy();
+
+    await handleTool('update_asset', { id: 5 }, context({ audit, policy: { readOnly: true } }));
+    expect(audit).toHaveBeenLastCalledWith(expect.objectContaining({
+      tool: 'update_asset',
+      result: expect.objectContaining({ isError: true }),
+    }));
+    expect(audit).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks dry runs', async () => {
+    const audit = vi.fn().mockResolvedValue(undefined);
+
+    await handleTool('delete_asset', { id: 5, dry_run: true }, context({ audit }));
+    expect(audit.mock.calls[0][0]).toMatchObject({ tool: 'delete_asset', dryRun: true });
+
+    await handleTool('get_asset', { id: 5 }, context({ audit, dryRun: true }));
+    expect(audit.mock.calls[1][0].dryRun).toBeUndefined();
+  });
+
+  it('records the assets a call changed', async () => {
+    const audit = vi.fn().mockResolvedValue(undefined);
+
+    await handleTool('update_asset', { id: 'guid-5', title: 'New' }, context({ audit }));
+    expect(audit.mock.calls[0][0]).toMatchObject({ args: { id: 'guid-5' }, assetIds: [5] });
+
+    await handleTool('update_asset', { id: 'guid-5', title: 'New', dry_run: true }, context({ audit }));
+    expect(audit.mock.calls[1][0].assetIds).toBeUndefined();
+  });
+
+  it('runs without an audit recorder', async () => {
+    const result = await handleTool('get_asset', { id: 5 }, context());
+    expect(result.isError).toBeFalsy();
+  });
+});
+
+describe('audit command', () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-audit-'));
+    auditLog = new AuditLog(join(dir, 'audit.jsonl'), { profile: 'production' });
+    await auditLog.record({ tool: 'update_asset', organization: 'agency', args: { id: 100 }, result: successResult('ok'), durationMs: 12 });
+    await auditLog.record({ tool: 'delete_asset', organization: 'agency', args: { id: 200 }, result: errorResult('Forbidden'), durationMs: 5 });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prints matching calls as a table', () => {
+    const output = captureOutput();
+    expect(runAuditCommand(['--asset', '100'], { auditLog, output })).toBe(0);
+    const table = output.stdout[0].split('\n');
+    expect(table[0]).toMatch(/^time\s+profile\s+organization\s+tool\s+ids\s+result\s+ms$/);
+    expect(table).toHaveLength(3);
+    expect(table[2]).toMatch(/production\s+agency\s+update_asset\s+id=100\s+ok\s+12$/);
+  });
+
+  it('prints JSON and limits to the most recent calls', () => {
+    const output = captureOutput();
+    runAuditCommand(['--json', '--limit', '1'], { auditLog, output });
+    const entries = JSON.parse(output.stdout[0]);
+    expect(entries.map((entry: AuditEntry) => entry.tool)).toEqual(['delete_asset']);
+  });
+
+  it('reports no matches, bad options and a disabled log', () => {
+    const output = captureOutput();
+    expect(runAuditCommand(['--tool', 'merge_tags'], { auditLog, output })).toBe(0);
+    expect(output.stdout[0]).toContain('No matching tool calls');
+
+    expect(runAuditCommand(['--since', 'yesterday-ish'], { auditLog, output })).toBe(2);
+    expect(runAuditCommand(['--colour'], { auditLog, output })).toBe(2);
+    expect(runAuditCommand([], { auditLog: null, output })).toBe(1);
+    expect(output.stderr.at(-1)).toContain('turned off');
+  });
+
+  it('parses dates, times and durations', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    expect(parseAuditTime('2h', '--since', now).toISOString()).toBe('2026-03-10T10:00:00.000Z');
+    expect(parseAuditTime('7d', '--since', now).toISOString()).toBe('2026-03-03T12:00:00.000Z');
+    expect(parseAuditTime('2026-03-01T08:00:00Z', '--since').toISOString()).toBe('2026-03-01T08:00:00.000Z');
+
+    const since = parseAuditTime('2026-03-01', '--since');
+    const until = parseAuditTime('2026-03-01', '--until');
+    expect(until.getTime() - since.getTime()).toBe(24 * 3600000);
+    expect(since.getHours()).toBe(0);
+  });
+});
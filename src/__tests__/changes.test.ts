@@ -0,0 +1,248 @@
+/**
+ * Tests for the undo journal and the list_changes and undo_change tools
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileChangeJournal, planUndo } from '../audit/change-journal.js';
+import { handleTool, type ToolContext } from '../tools/index.js';
+import type { RecordedChange } from '../tools/shared.js';
+import type { MediagraphClient } from '../api/client.js';
+
+function recordedChange(overrides: Partial<RecordedChange>): RecordedChange {
+  return { id: 'abc', timestamp: '2026-03-01T10:00:00Z', tool: 'update_asset', summary: 'Change', assets: [], ...overrides };
+}
+
+describe('planUndo', () => {
+  it('restores the fields update_asset changed', () => {
+    const plan = planUndo(recordedChange({
+      assets: [{ id: 5, before: { title: 'Old', description: null }, after: { title: 'New', description: 'Text' } }],
+    }));
+    expect(plan.updates).toEqual([
+      { assetId: 5, fields: { title: 'Old', description: null }, expected: { title: 'New', description: 'Text' } },
+    ]);
+    expect(plan.bulkJobs).toEqual([]);
+  });
+
+  it('removes only the tags add_tags_to_asset added', () => {
+    const plan = planUndo(recordedChange({
+      tool: 'add_tags_to_asset',
+      assets: [{ id: 5, before: { tags: ['Beach'] }, after: { tags: ['beach', 'sunset'] } }],
+    }));
+    expect(plan.bulkJobs).toEqual([{ asset_ids: [5], tag_names: ['sunset'], tag_mode: 'remove' }]);
+
+    // Older entries kept tag objects
+    const legacy = planUndo(recordedChange({
+      tool: 'add_tags_to_asset',
+      assets: [{ id: 5, before: { tags: [{ id: 1, name: 'Beach' }] }, after: { tags: ['beach', 'sunset'] } }],
+    }));
+    expect(legacy.bulkJobs).toEqual(plan.bulkJobs);
+  });
+
+  it('groups assets that need the same compensating bulk job', () => {
+    const plan = planUndo(recordedChange({
+      tool: 'create_bulk_job',
+      bulkJob: { id: 9, params: { asset_ids: [1, 2, 3], description: 'Oops', description_mode: 'set', generate_alt_text: true } },
+      assets: [
+        { id: 1, before: { description: 'Harbour', alt_text: null } },
+        { id: 2, before: { description: null, alt_text: 'Boats' } },
+        { id: 3, before: { description: null, alt_text: null } },
+      ],
+    }));
+    expect(plan.bulkJobs).toEqual([
+      { asset_ids: [1], description: 'Harbour', description_mode: 'set' },
+      { asset_ids: [2, 3], description: '', description_mode: 'set' },
+    ]);
+    expect(plan.updates.map(update => update.fields)).toEqual([{ alt_text: '' }, { alt_text: 'Boats' }, { alt_text: '' }]);
+  });
+
+  it('reverses trash and asset group moves, and says what it cannot undo', () => {
+    const plan = planUndo(recordedChange({
+      tool: 'create_bulk_job',
+      bulkJob: { id: 9, params: { asset_ids: [1], destroy_all: true, add_asset_group_id: 4, add_asset_group_type: 'Collection', custom_meta: { client: 'X' } } },
+      assets: [{ id: 1, before: {} }],
+    }));
+    expect(plan.bulkJobs).toEqual([
+      { asset_ids: [1], remove_asset_group_id: 4, remove_asset_group_type: 'Collection', restore_all: true },
+    ]);
+    expect(plan.skipped).toEqual([
+      'custom meta field values are not restored',
+      'assets that were already in the asset group are removed from it too',
+    ]);
+  });
+});
+
+describe('FileChangeJournal', () => {
+  let dir: string;
+  let journal: FileChangeJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-changes-'));
+    journal = new FileChangeJournal(join(dir, 'changes.jsonl'), { profile: 'production' });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records changes, marks them undone and skips broken lines', async () => {
+    const first = await journal.record({ tool: 'update_asset', organization: 'agency', summary: 'A', assets: [{ id: 5, before: {} }] });
+    await journal.record({ tool: 'add_tags_to_asset', organization: 'other', summary: 'B', assets: [{ id: 6, before: {} }] });
+    appendFileSync(journal.filePath, '{"cut off\n');
+    await journal.markUndone(first!.id, [12]);
+
+    expect(journal.read()).toHaveLength(2);
+    expect(journal.get(first!.id)).toMatchObject({ profile: 'production', undoneAt: expect.any(String), undoBulkJobIds: [12] });
+    expect(journal.list({ organization: 'agency' }).map(change => change.summary)).toEqual(['A']);
+    expect(journal.list({ assetId: '6' }).map(change => change.summary)).toEqual(['B']);
+  });
+});
+
+describe('undo tools', () => {
+  let dir: string;
+  let journal: FileChangeJournal;
+  let asset: Record<string, unknown>;
+  let client: MediagraphClient;
+
+  function context(overrides: Partial<ToolContext> = {}): ToolContext {
+    return { client, changes: journal, organizationSlug: 'agency', ...overrides };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-changes-'));
+    journal = new FileChangeJournal(join(dir, 'changes.jsonl'));
+    asset = { id: 5, filename: 'harbour.jpg', title: 'Harbour', tags: [{ id: 1, name: 'boats', slug: 'boats' }] };
+    client = {
+      getAsset: vi.fn().mockImplementation(async () => ({ ...asset })),
+      searchAssets: vi.fn().mockImplementation(async () => ({ assets: [{ ...asset }], total: 1, page: 1, per_page: 1, total_pages: 1 })),
+      addTagsToAsset: vi.fn().mockImplementation(async () => ({ ...asset })),
+      updateAsset: vi.fn().mockImplementation(async (_id, data) => Object.assign(asset, data)),
+      createBulkJob: vi.fn().mockResolvedValue({ id: 40, status: 'pending' }),
+      withSignal() { return this; },
+    } as unknown as MediagraphClient;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('undoes an update_asset edit once', async () => {
+    await handleTool('update_asset', { id: 5, title: 'Wrong' }, context());
+    const [change] = journal.list();
+    expect(change).toMatchObject({ tool: 'update_asset', organization: 'agency', assets: [{ id: 5, before: { title: 'Harbour' } }] });
+
+    const listed = await handleTool('list_changes', { asset_id: 5 }, context());
+    expect(listed.content[0].text).toContain(change.id);
+
+    const undone = await handleTool('undo_change', { id: change.id, confirm: true }, context());
+    expect(undone.isError).toBeFalsy();
+    expect(client.updateAsset).toHaveBeenLastCalledWith(5, { title: 'Harbour' });
+
+    const again = await handleTool('undo_change', { id: change.id, confirm: true }, context());
+    expect(again.content[0].text).toContain('already undone');
+  });
+
+  it('refuses to overwrite later edits without force', async () => {
+    await handleTool('update_asset', { id: 5, title: 'Wrong' }, context());
+    const [change] = journal.list();
+    asset.title = 'Fixed by hand';
+
+    const refused = await handleTool('undo_change', { id: change.id, confirm: true }, context());
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].text).toContain('title is now "Fixed by hand"');
+
+    await handleTool('undo_change', { id: change.id, confirm: true, force: true }, context());
+    expect(asset.title).toBe('Harbour');
+  });
+
+  it('undoes a bulk job with a compensating bulk job', async () => {
+    await handleTool('create_bulk_job', { asset_ids: [5], tag_names: ['boats', 'night'] }, context());
+    const [change] = journal.list();
+    expect(change.bulkJob).toEqual({ id: 40, params: { asset_ids: [5], tag_names: ['boats', 'night'] } });
+    expect(change.assets).toEqual([{ id: 5, before: { tags: ['boats'] } }]);
+    expect(client.searchAssets).toHaveBeenCalledWith({ ids: [5], per_page: 1 });
+    expect(client.getAsset).not.toHaveBeenCalled();
+
+    const preview = await handleTool('undo_change', { id: change.id, dry_run: true }, context());
+    expect(preview.content[0].text).toContain('remove tags: night');
+    expect(client.createBulkJob).toHaveBeenCalledTimes(1);
+
+    const audit = vi.fn().mockResolvedValue(undefined);
+    await handleTool('undo_change', { id: change.id, confirm: true }, context({ audit }));
+    expect(client.createBulkJob).toHaveBeenLastCalledWith({ asset_ids: [5], tag_names: ['night'], tag_mode: 'remove' });
+    expect(journal.get(change.id)?.undoBulkJobIds).toEqual([40]);
+    // The call only names the change, the audit log still learns which assets it touched
+    expect(audit.mock.calls[0][0]).toMatchObject({ args: { id: change.id }, assetIds: [5] });
+  });
+
+  it('undoes add_tags_to_asset on assets with API tag objects', async () => {
+    await handleTool('add_tags_to_asset', { id: 5, tags: ['Boats', 'night'] }, context());
+    const [change] = journal.list();
+    expect(change.assets).toEqual([{ id: 5, before: { tags: ['boats'] }, after: { tags: ['Boats', 'night'] } }]);
+
+    const undone = await handleTool('undo_change', { id: change.id, confirm: true }, context());
+    expect(undone.isError).toBeFalsy();
+    expect(client.createBulkJob).toHaveBeenLastCalledWith({ asset_ids: [5], tag_names: ['night'], tag_mode: 'remove' });
+  });
+
+  it('does not read the assets of a bulk job that overwrites no fields', async () => {
+    await handleTool('create_bulk_job', { asset_ids: [5, 6], destroy_all: true, confirm: true }, context());
+    const [change] = journal.list();
+    expect(change.assets).toEqual([{ id: 5, before: {} }, { id: 6, before: {} }]);
+    expect(client.searchAssets).not.toHaveBeenCalled();
+    expect(client.getAsset).not.toHaveBeenCalled();
+
+    await handleTool('undo_change', { id: change.id, confirm: true }, context());
+    expect(client.createBulkJob).toHaveBeenLastCalledWith({ asset_ids: [5, 6], restore_all: true });
+  });
+
+  it('sends changes from another organization there', async () => {
+    await journal.record({ tool: 'update_asset', organization: 'client-co', summary: 'A', assets: [{ id: 5, before: { title: 'X' } }] });
+    const [change] = journal.list();
+    const organizations = {
+      list: vi.fn().mockResolvedValue([{ slug: 'agency', active: true }, { slug: 'client-co', active: false }]),
+      switch: vi.fn(),
+      clientFor: vi.fn(),
+    };
+
+    const result = await handleTool('undo_change', { id: change.id, confirm: true }, context({ organizations }));
+    expect(result.content[0].text).toContain('organization: "client-co"');
+    expect(client.updateAsset).not.toHaveBeenCalled();
+  });
+
+  it('hides changes from organizations the session is not signed in to', async () => {
+    await journal.record({ tool: 'update_asset', organization: 'client-co', summary: 'A', assets: [{ id: 5, before: { title: 'X' } }] });
+    await journal.record({ tool: 'update_asset', summary: 'B', assets: [{ id: 5, before: { title: 'Y' } }] });
+    const [other, unlabeled] = journal.list();
+
+    for (const change of [other, unlabeled]) {
+      const result = await handleTool('undo_change', { id: change.id, confirm: true }, context());
+      expect(result.content[0].text).toBe(`No recorded change ${change.id}. See list_changes.`);
+    }
+    expect((await handleTool('list_changes', {}, context())).content[0].text).toBe('No recorded changes.');
+    expect(client.updateAsset).not.toHaveBeenCalled();
+  });
+
+  it('refuses to show or undo changes while the organization is unknown', async () => {
+    await handleTool('update_asset', { id: 5, title: 'Wrong' }, context());
+    const [change] = journal.list();
+
+    const listed = await handleTool('list_changes', {}, context({ organizationSlug: undefined }));
+    expect(listed.isError).toBe(true);
+    expect(listed.content[0].text).toContain('Could not look up the organization');
+
+    const undone = await handleTool('undo_change', { id: change.id, confirm: true }, context({ organizationSlug: undefined }));
+    expect(undone.isError).toBe(true);
+    expect(client.updateAsset).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not snapshot when the journal is off', async () => {
+    await handleTool('update_asset', { id: 5, title: 'New' }, context({ changes: undefined }));
+    expect(client.getAsset).not.toHaveBeenCalled();
+
+    const result = await handleTool('list_changes', {}, context({ changes: undefined }));
+    expect(result.content[0].text).toContain('turned off');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for the call and tools CLI commands
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseToolArguments,
+  validateToolArguments,
+  describeToolArguments,
+  formatToolResult,
+  formatTable,
+  resultData,
+  runCallCommand,
+  runToolsCommand,
+  ToolArgumentError,
+  type CliOutput,
+} from '../cli/index.js';
+import { toolDefinitions, successResult, structuredResult, type ToolContext } from '../tools/index.js';
+import type { MediagraphClient } from '../api/client.js';
+
+function definition(name: string) {
+  const found = toolDefinitions.find((tool) => tool.name === name);
+  if (!found) throw new Error(`No tool ${name}`);
+  return found;
+}
+
+function captureOutput(): CliOutput & { stdout: string[]; stderr: string[] } {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  return {
+    stdout,
+    stderr,
+    out: (text) => stdout.push(text),
+    err: (text) => stderr.push(text),
+  };
+}
+
+describe('parseToolArguments', () => {
+  it('converts flags to the schema types', () => {
+    const { args } = parseToolArguments(definition('search_assets'), [
+      '--q', 'sunset',
+      '--per-page', '5',
+      '--gps',
+      '--tags', 'beach,sky',
+      '--ids=1,2',
+    ]);
+    expect(args).toEqual({ q: 'sunset', per_page: 5, gps: true, tags: ['beach', 'sky'], ids: [1, 2] });
+  });
+
+  it('merges flags over --json and reads --format', () => {
+    const { args, format } = parseToolArguments(definition('update_asset'), [
+      '--json', '{"id": 12, "title": "Old"}',
+      '--title', 'New',
+      '--format', 'table',
+    ]);
+    expect(args).toEqual({ id: 12, title: 'New' });
+    expect(format).toBe('table');
+  });
+
+  it('handles --no- booleans, repeated array flags and union types', () => {
+    const { args } = parseToolArguments(definition('search_assets'), [
+      '--no-gps',
+      '--tags', 'a',
+      '--tags', 'b',
+    ]);
+    expect(args).toEqual({ gps: false, tags: ['a', 'b'] });
+
+    expect(parseToolArguments(definition('get_asset'), ['--id', '42']).args).toEqual({ id: 42 });
+    expect(parseToolArguments(definition('get_asset'), ['--id', 'abc-guid']).args).toEqual({ id: 'abc-guid' });
+  });
+
+  it('rejects positional arguments, missing values and bad JSON', () => {
+    expect(() => parseToolArguments(definition('get_asset'), ['42'])).toThrow(ToolArgumentError);
+    expect(() => parseToolArguments(definition('get_asset'), ['--id'])).toThrow('--id needs a value');
+    expect(() => parseToolArguments(definition('get_asset'), ['--json', '{nope'])).toThrow('Invalid JSON');
+    expect(() => parseToolArguments(definition('get_asset'), ['--json', '[1]'])).toThrow('must be a JSON object');
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('reports missing, unknown, mistyped and out-of-enum arguments', () => {
+    const search = definition('search_assets');
+    expect(validateToolArguments(search, { per_page: 'five', aspect: 'round', colour: 'red' })).toEqual([
+      '--per_page must be a number, got "five"',
+      '--aspect must be one of "square", "portrait", "landscape", "panorama"',
+      'Unknown argument --colour',
+    ]);
+    expect(validateToolArguments(definition('get_asset'), {})).toEqual(['--id is required']);
+    expect(validateToolArguments(search, { ids: [1, 'x'] })).toEqual(['--ids[1] must be a number, got "x"']);
+  });
+
+  it('accepts valid arguments', () => {
+    expect(validateToolArguments(definition('get_asset'), { id: 'abc', include_meta: true })).toEqual([]);
+  });
+
+  it('describes arguments', () => {
+    const lines = describeToolArguments(definition('get_asset'));
+    expect(lines[0]).toMatch(/^--id <number\|string> \(required\)/);
+  });
+});
+
+describe('formatToolResult', () => {
+  it('prints JSON data and keeps plain text as it is', () => {
+    const result = successResult({ id: 1, title: 'Cover' });
+    result.content.push({ type: 'text', text: 'Organization: acme' });
+    expect(resultData(result)).toEqual({ id: 1, title: 'Cover' });
+    expect(JSON.parse(formatToolResult(result, 'json'))).toEqual({ id: 1, title: 'Cover' });
+    expect(formatToolResult(successResult('Done'), 'table')).toBe('Done');
+  });
+
+  it('prints the list in a result as a table', () => {
+    const result = structuredResult({ assets: [{ id: 1, title: 'A' }, { id: 22, title: 'Beach' }], total: 2 }, '2 assets');
+    expect(formatToolResult(result, 'table')).toBe([
+      'id  title',
+      '--  -----',
+      '1   A',
+      '22  Beach',
+    ].join('\n'));
+  });
+
+  it('prints a single object as field and value rows', () => {
+    expect(formatTable([{ field: 'id', value: 1 }], ['field', 'value'])).toContain('id     1');
+    expect(formatToolResult(successResult({ id: 1 }), 'table')).toContain('field  value');
+  });
+});
+
+describe('runCallCommand', () => {
+  function mockContext(overrides: Partial<MediagraphClient> = {}): ToolContext {
+    return {
+      client: {
+        getAsset: vi.fn().mockResolvedValue({ id: 42, guid: 'g', filename: 'a.jpg', title: 'Cover' }),
+        withSignal() { return this; },
+        ...overrides,
+      } as unknown as MediagraphClient,
+    };
+  }
+
+  it('runs the tool and exits 0', async () => {
+    const output = captureOutput();
+    const context = mockContext();
+    const code = await runCallCommand(['get_asset', '--id', '42'], { createContext: async () => context, output });
+    expect(code).toBe(0);
+    expect(context.client.getAsset).toHaveBeenCalledWith(42, expect.anything());
+    expect(JSON.parse(output.stdout[0])).toMatchObject({ id: 42, title: 'Cover' });
+  });
+
+  it('exits 1 when the tool returns an error', async () => {
+    const output = captureOutput();
+    const context = mockContext({ getAsset: vi.fn().mockRejectedValue(new Error('Not found')) });
+    const code = await runCallCommand(['get_asset', '--id', '42'], { createContext: async () => context, output });
+    expect(code).toBe(1);
+    expect(output.stderr.join('\n')).toContain('Not found');
+    expect(output.stdout).toEqual([]);
+  });
+
+  it('exits 2 without calling the API when arguments are invalid', async () => {
+    const output = captureOutput();
+    const createContext = vi.fn();
+    expect(await runCallCommand(['get_asset', '--idd', '42'], { createContext, output })).toBe(2);
+    expect(output.stderr).toContain('  Unknown argument --idd');
+    expect(await runCallCommand(['get_asset', '--id', '1', '--format', 'xml'], { createContext, output })).toBe(2);
+    expect(await runCallCommand(['nope'], { createContext, output })).toBe(2);
+    expect(await runCallCommand([], { createContext, output })).toBe(2);
+    expect(createContext).not.toHaveBeenCalled();
+  });
+
+  it('refuses tools outside the policy', async () => {
+    const output = captureOutput();
+    const code = await runCallCommand(['update_asset', '--id', '1'], {
+      createContext: async () => mockContext(),
+      policy: { readOnly: true },
+      output,
+    });
+    expect(code).toBe(2);
+    expect(output.stderr[0]).toContain('disabled by this server\'s tool policy');
+  });
+
+  it('exits 1 when there is no sign-in', async () => {
+    const output = captureOutput();
+    const code = await runCallCommand(['get_asset', '--id', '1'], {
+      createContext: async () => { throw new Error('Not authenticated.'); },
+      output,
+    });
+    expect(code).toBe(1);
+    expect(output.stderr).toEqual(['Not authenticated.']);
+  });
+});
+
+describe('runToolsCommand', () => {
+  it('lists the tools allowed by the policy', () => {
+    const output = captureOutput();
+    expect(runToolsCommand([], { policy: { readOnly: true }, output })).toBe(0);
+    const text = output.stdout.join('\n');
+    expect(text).toMatch(/^get_asset\s+\S/m);
+    expect(text).not.toMatch(/^update_asset/m);
+  });
+
+  it('prints schemas as JSON', () => {
+    const output = captureOutput();
+    runToolsCommand(['--json'], { output });
+    const tools = JSON.parse(output.stdout[0]);
+    expect(tools.length).toBe(toolDefinitions.length);
+    expect(tools[0]).toHaveProperty('inputSchema');
+  });
+
+  it('shows the arguments of one tool', () => {
+    const output = captureOutput();
+    expect(runToolsCommand(['get_asset'], { output })).toBe(0);
+    expect(output.stdout[0]).toBe('get_asset (read-only)');
+    expect(output.stdout.join('\n')).toContain('--id <number|string> (required)');
+    expect(runToolsCommand(['nope'], { output })).toBe(2);
+  });
+});
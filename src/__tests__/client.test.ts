@@ -3,10 +3,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { MediagraphClient, MediagraphClientConfig } from '../api/client.js';
+import { MediagraphClient, MediagraphClientConfig, RequestCancelledError } from '../api/client.js';
+import { RateLimiter } from '../api/rate-limiter.js';
 
 // Helper to create mock Response
-function createMockResponse(data: unknown, options: { status?: number; ok?: boolean } = {}) {
+function createMockResponse(data: unknown, options: { status?: number; ok?: boolean; headers?: Record<string, string> } = {}) {
   return {
     ok: options.ok ?? true,
     status: options.status ?? 200,
@@ -16,7 +17,7 @@ function createMockResponse(data: unknown, options: { status?: number; ok?: bool
         if (name === 'Content-Type' || name === 'content-type') {
           return 'application/json';
         }
-        return null;
+        return options.headers?.[name] ?? null;
       },
     },
     json: () => Promise.resolve(data),
@@ -130,6 +131,182 @@ describe('MediagraphClient', () => {
     });
   });
 
+  describe('token refresh on 401', () => {
+    const unauthorized = () => createMockResponse({ error: 'Invalid token' }, { status: 401, ok: false });
+
+    it('should refresh once and replay the request', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue('new-token');
+      const refreshingClient = new MediagraphClient({ getAccessToken: mockGetAccessToken, refreshAccessToken });
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(createMockResponse({ user: { id: 1 } }));
+
+      const result = await refreshingClient.whoami();
+
+      expect(result).toEqual({ user: { id: 1 } });
+      expect(refreshAccessToken).toHaveBeenCalledWith('test-token');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer new-token');
+    });
+
+    it('should not refresh again when the new token is rejected too', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue('new-token');
+      const refreshingClient = new MediagraphClient({ getAccessToken: mockGetAccessToken, refreshAccessToken });
+      mockFetch.mockResolvedValue(unauthorized());
+
+      await expect(refreshingClient.whoami()).rejects.toThrow('Access token expired or invalid');
+      expect(refreshAccessToken).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when no new token is available', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue(null);
+      const refreshingClient = new MediagraphClient({ getAccessToken: mockGetAccessToken, refreshAccessToken });
+      mockFetch.mockResolvedValue(unauthorized());
+
+      await expect(refreshingClient.whoami()).rejects.toThrow('Access token expired or invalid');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh with the credentials of a scoped client', async () => {
+      const refreshAccessToken = vi.fn().mockResolvedValue('new-token');
+      const refreshOther = vi.fn().mockResolvedValue('other-new-token');
+      const refreshingClient = new MediagraphClient({ getAccessToken: mockGetAccessToken, refreshAccessToken });
+      const scoped = refreshingClient.withAccessToken(async () => 'other-token', refreshOther);
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(createMockResponse({}));
+
+      await scoped.whoami();
+
+      expect(refreshOther).toHaveBeenCalledWith('other-token');
+      expect(refreshAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should pass the signal to fetch', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(createMockResponse({ user: {}, organization: {} }));
+
+      await client.withSignal(controller.signal).whoami();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ signal: controller.signal }),
+      );
+    });
+
+    it('should not send requests once cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.withSignal(controller.signal).whoami()).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying when cancelled during backoff', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation(async () => {
+        // Cancel while the client is about to back off and retry
+        setTimeout(() => controller.abort(), 10);
+        throw new Error('Network error');
+      });
+
+      await expect(client.withSignal(controller.signal).whoami()).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the original client unaffected', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      client.withSignal(controller.signal);
+      mockFetch.mockResolvedValueOnce(createMockResponse({ user: {}, organization: {} }));
+
+      await expect(client.whoami()).resolves.toBeDefined();
+    });
+  });
+
+  describe('rate limiting', () => {
+    function limitedClient(requestsPerSecond: number, maxConcurrency: number): MediagraphClient {
+      return new MediagraphClient({
+        getAccessToken: mockGetAccessToken,
+        rateLimiter: new RateLimiter({ requestsPerSecond, maxConcurrency }),
+      });
+    }
+
+    it('should run at most maxConcurrency requests at once', async () => {
+      const limited = limitedClient(0, 2);
+      const responses: ((value: unknown) => void)[] = [];
+      mockFetch.mockImplementation(() => new Promise((resolve) => responses.push(resolve)));
+
+      const calls = [1, 2, 3].map((id) => limited.getAsset(id));
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      expect(limited.getStats()).toMatchObject({ in_flight: 2, queued: 1 });
+
+      responses[0](createMockResponse({ id: 1 }));
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      responses[1](createMockResponse({ id: 2 }));
+      responses[2](createMockResponse({ id: 3 }));
+      await Promise.all(calls);
+      expect(limited.getStats()).toMatchObject({ requests: 3, delayed: 1, in_flight: 0, max_in_flight: 2 });
+    });
+
+    it('should spread requests beyond the burst over time', async () => {
+      const limited = limitedClient(20, 0);
+      mockFetch.mockImplementation(async () => createMockResponse({}));
+
+      const started = Date.now();
+      await Promise.all(Array.from({ length: 21 }, (_, id) => limited.getAsset(id)));
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+      expect(limited.getStats()).toMatchObject({ requests: 21, delayed: 1, max_concurrency: null });
+    });
+
+    it('should retry a 429 after Retry-After and count it', async () => {
+      const limited = limitedClient(0, 0);
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({}, { status: 429, ok: false, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(createMockResponse({ id: 1 }));
+
+      await expect(limited.getAsset(1)).resolves.toEqual({ id: 1 });
+      expect(limited.getStats()).toMatchObject({ requests: 2, throttled: 1 });
+    });
+
+    it('should wait for the reset when the API has no requests left', async () => {
+      const limited = limitedClient(0, 0);
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({}, { headers: { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '0.05' } }))
+        .mockResolvedValueOnce(createMockResponse({}));
+
+      await limited.getAsset(1);
+      expect(limited.getStats().server).toMatchObject({ limit: 100, remaining: 0, reset_at: expect.any(String) });
+      expect(limited.getStats().paused_until).toBeDefined();
+
+      await limited.getAsset(2);
+      expect(limited.getStats()).toMatchObject({ delayed: 1, paused_until: undefined });
+    });
+
+    it('should share the limiter with scoped views and give up a queued request when cancelled', async () => {
+      const limited = limitedClient(0, 1);
+      let respond: (value: unknown) => void = () => {};
+      mockFetch.mockImplementationOnce(() => new Promise((resolve) => { respond = resolve; }));
+      const first = limited.getAsset(1);
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      const controller = new AbortController();
+      const queued = limited.withSignal(controller.signal).getAsset(2);
+      await vi.waitFor(() => expect(limited.getStats().queued).toBe(1));
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(limited.getStats().queued).toBe(0);
+      respond(createMockResponse({ id: 1 }));
+      await first;
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('whoami', () => {
     it('should call correct endpoint', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({
@@ -0,0 +1,115 @@
+/**
+ * Tests for argument completions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArgumentCompletions, getCompletionKind } from '../completions/index.js';
+import type { MediagraphClient } from '../api/client.js';
+
+function createMockClient(overrides: Partial<MediagraphClient> = {}): MediagraphClient {
+  return {
+    getCollectionsTree: vi.fn().mockResolvedValue([
+      {
+        id: 10, name: 'Marketing', slug: 'marketing', has_children: true, children: [
+          { id: 11, name: 'Spring Campaign', slug: 'spring-campaign', has_children: false },
+        ],
+      },
+      { id: 20, name: 'Product Shots', slug: 'product-shots', has_children: false },
+    ]),
+    getLightboxesTree: vi.fn().mockRejectedValue(new Error('Forbidden')),
+    listLightboxes: vi.fn().mockResolvedValue([{ id: 30, name: 'Client Picks' }]),
+    listTags: vi.fn().mockResolvedValue([{ id: 1, name: 'nature', slug: 'nature' }, { id: 2, name: 'nature walk', slug: 'nature-walk' }]),
+    ...overrides,
+  } as unknown as MediagraphClient;
+}
+
+describe('getCompletionKind', () => {
+  it('should map resource template IDs by resource type', () => {
+    expect(getCompletionKind({ type: 'ref/resource', uri: 'mediagraph://collection/{id}' }, 'id')).toBe('collection');
+    expect(getCompletionKind({ type: 'ref/resource', uri: 'mediagraph://search' }, 'storage_folder_id')).toBeUndefined();
+    expect(getCompletionKind({ type: 'ref/resource', uri: 'mediagraph://asset/{id}' }, 'id')).toBeUndefined();
+  });
+
+  it('should map prompt arguments by name', () => {
+    expect(getCompletionKind({ type: 'ref/prompt', name: 'audit_alt_text' }, 'collection_id')).toBe('collection');
+    expect(getCompletionKind({ type: 'ref/prompt', name: 'clean_up_duplicate_tags' }, 'q')).toBe('tag');
+    expect(getCompletionKind({ type: 'ref/prompt', name: 'prepare_client_delivery' }, 'query')).toBeUndefined();
+  });
+});
+
+describe('ArgumentCompletions', () => {
+  let client: MediagraphClient;
+  let completions: ArgumentCompletions;
+
+  beforeEach(() => {
+    client = createMockClient();
+    completions = new ArgumentCompletions({ client });
+  });
+
+  it('should complete nested collection IDs by name', async () => {
+    const result = await completions.complete(
+      { type: 'ref/resource', uri: 'mediagraph://collection/{id}' },
+      { name: 'id', value: 'spring' },
+    );
+
+    expect(result).toEqual({ values: ['11'], total: 1, hasMore: false });
+  });
+
+  it('should rank ID and name prefix matches first', async () => {
+    const result = await completions.complete(
+      { type: 'ref/resource', uri: 'mediagraph://collection/{id}' },
+      { name: 'id', value: '2' },
+    );
+
+    expect(result.values[0]).toBe('20');
+  });
+
+  it('should fall back to the flat list when the tree is unavailable', async () => {
+    const result = await completions.complete(
+      { type: 'ref/resource', uri: 'mediagraph://lightbox/{id}' },
+      { name: 'id', value: 'client' },
+    );
+
+    expect(result.values).toEqual(['30']);
+    expect(client.listLightboxes).toHaveBeenCalled();
+  });
+
+  it('should search tag names on the server', async () => {
+    const result = await completions.complete(
+      { type: 'ref/prompt', name: 'clean_up_duplicate_tags' },
+      { name: 'q', value: 'Nat' },
+    );
+
+    expect(client.listTags).toHaveBeenCalledWith({ q: 'nat', per_page: 100 });
+    expect(result.values).toEqual(['nature', 'nature walk']);
+  });
+
+  it('should cache lookups between keystrokes', async () => {
+    const ref = { type: 'ref/resource' as const, uri: 'mediagraph://collection/{id}' };
+    await completions.complete(ref, { name: 'id', value: 'm' });
+    await completions.complete(ref, { name: 'id', value: 'ma' });
+
+    expect(client.getCollectionsTree).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload after the cache expires', async () => {
+    completions = new ArgumentCompletions({ client, cacheTtlMs: 0 });
+    const ref = { type: 'ref/resource' as const, uri: 'mediagraph://collection/{id}' };
+    await completions.complete(ref, { name: 'id', value: 'm' });
+    await completions.complete(ref, { name: 'id', value: 'ma' });
+
+    expect(client.getCollectionsTree).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return no values when the lookup fails', async () => {
+    client = createMockClient({ listTags: vi.fn().mockRejectedValue(new Error('boom')) });
+    completions = new ArgumentCompletions({ client });
+
+    const result = await completions.complete(
+      { type: 'ref/prompt', name: 'clean_up_duplicate_tags' },
+      { name: 'q', value: '' },
+    );
+
+    expect(result).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for configuration profiles
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir, homedir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, extractProfileFlag, parseConfigFile, parsePorts } from '../config.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-config-'));
+    configFile = join(dir, 'config.json');
+    writeFileSync(configFile, JSON.stringify({
+      defaultProfile: 'production',
+      profiles: {
+        production: {},
+        staging: {
+          apiUrl: 'https://api.staging.mediagraph.io',
+          oauthUrl: 'https://staging.mediagraph.io',
+          clientId: 'staging-client',
+          tokenFile: 'staging.enc',
+          modules: ['assets', 'downloads'],
+          defaults: { per_page: 50, download_size: 'full', watermark: true },
+        },
+      },
+    }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should use built-in defaults without a config file', () => {
+    const config = loadConfig({ env: { MEDIAGRAPH_CONFIG_FILE: join(dir, 'missing.json') } });
+
+    expect(config.profile).toBeUndefined();
+    expect(config.apiUrl).toBe('https://api.mediagraph.io');
+    expect(config.tokenFile).toBeUndefined();
+    expect(config.toolDefaults).toEqual({});
+  });
+
+  it('should load the requested profile', () => {
+    const config = loadConfig({ profile: 'staging', env: { MEDIAGRAPH_CONFIG_FILE: configFile } });
+
+    expect(config.profile).toBe('staging');
+    expect(config.apiUrl).toBe('https://api.staging.mediagraph.io');
+    expect(config.clientId).toBe('staging-client');
+    expect(config.tokenFile).toBe(join(dir, 'staging.enc'));
+    expect(config.toolPolicy.modules).toEqual(['assets', 'downloads']);
+    expect(config.toolDefaults).toEqual({ per_page: 50, download_size: 'full', watermark: true });
+  });
+
+  it('should fall back to MEDIAGRAPH_PROFILE and then defaultProfile', () => {
+    expect(loadConfig({ env: { MEDIAGRAPH_CONFIG_FILE: configFile, MEDIAGRAPH_PROFILE: 'staging' } }).profile).toBe('staging');
+
+    const config = loadConfig({ env: { MEDIAGRAPH_CONFIG_FILE: configFile } });
+    expect(config.profile).toBe('production');
+    expect(config.tokenFile).toBe(join(homedir(), '.mediagraph', 'tokens-production.enc'));
+  });
+
+  it('should let environment variables override the profile', () => {
+    const config = loadConfig({
+      profile: 'staging',
+      env: { MEDIAGRAPH_CONFIG_FILE: configFile, MEDIAGRAPH_API_URL: 'http://localhost:3001', MEDIAGRAPH_TOOL_MODULES: 'assets' },
+    });
+
+    expect(config.apiUrl).toBe('http://localhost:3001');
+    expect(config.oauthUrl).toBe('https://staging.mediagraph.io');
+    expect(config.toolPolicy.modules).toEqual(['assets']);
+  });
+
+  it('should read a personal access token from the environment', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+
+    expect(loadConfig({ env }).accessToken).toBeUndefined();
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_ACCESS_TOKEN: ' pat-123\n' } }).accessToken).toBe('pat-123');
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_ACCESS_TOKEN: '  ' } }).accessToken).toBeUndefined();
+  });
+
+  it('should select the sign-in flow', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+
+    expect(loadConfig({ env }).authFlow).toBe('browser');
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_AUTH_FLOW: 'device' } }).authFlow).toBe('device');
+    expect(() => loadConfig({ env: { ...env, MEDIAGRAPH_AUTH_FLOW: 'callback' } })).toThrow('MEDIAGRAPH_AUTH_FLOW');
+  });
+
+  it('should select token storage and read the passphrase from the environment only', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+
+    expect(loadConfig({ env })).toMatchObject({ tokenStorage: 'file', tokenPassphrase: undefined });
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_TOKEN_STORAGE: 'memory', MEDIAGRAPH_TOKEN_PASSPHRASE: 'secret' } }))
+      .toMatchObject({ tokenStorage: 'memory', tokenPassphrase: 'secret' });
+    expect(() => loadConfig({ env: { ...env, MEDIAGRAPH_TOKEN_STORAGE: 'keychain' } })).toThrow('MEDIAGRAPH_TOKEN_STORAGE');
+  });
+
+  it('should place the audit log or turn it off', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+
+    expect(loadConfig({ env }).auditLog).toBe(join(homedir(), '.mediagraph', 'audit.jsonl'));
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_AUDIT_LOG: 'off' } }).auditLog).toBeUndefined();
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_AUDIT_LOG: '~/logs/audit.jsonl' } }).auditLog)
+      .toBe(join(homedir(), 'logs', 'audit.jsonl'));
+
+    writeFileSync(configFile, JSON.stringify({
+      profiles: { quiet: { auditLog: false }, team: { auditLog: 'team-audit.jsonl' } },
+    }));
+    expect(loadConfig({ profile: 'quiet', env }).auditLog).toBeUndefined();
+    expect(loadConfig({ profile: 'team', env }).auditLog).toBe(join(dir, 'team-audit.jsonl'));
+  });
+
+  it('should place the change journal or turn it off', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+
+    expect(loadConfig({ env }).changeJournal).toBe(join(homedir(), '.mediagraph', 'changes.jsonl'));
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_CHANGE_JOURNAL: 'off' } }).changeJournal).toBeUndefined();
+
+    writeFileSync(configFile, JSON.stringify({ profiles: { team: { changeJournal: 'team-changes.jsonl' } } }));
+    expect(loadConfig({ profile: 'team', env }).changeJournal).toBe(join(dir, 'team-changes.jsonl'));
+  });
+
+  it('should turn on dry-run mode from the environment or the profile', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+    expect(loadConfig({ env }).dryRun).toBe(false);
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_DRY_RUN: 'true' } }).dryRun).toBe(true);
+
+    writeFileSync(configFile, JSON.stringify({ profiles: { review: { dryRun: true } } }));
+    expect(loadConfig({ profile: 'review', env }).dryRun).toBe(true);
+    expect(loadConfig({ profile: 'review', env: { ...env, MEDIAGRAPH_DRY_RUN: 'false' } }).dryRun).toBe(false);
+  });
+
+  it('should read the rate limit and concurrency', () => {
+    const env = { MEDIAGRAPH_CONFIG_FILE: configFile };
+    expect(loadConfig({ env })).toMatchObject({ rateLimit: 10, maxConcurrency: 4 });
+    expect(loadConfig({ env: { ...env, MEDIAGRAPH_RATE_LIMIT: '2.5', MEDIAGRAPH_MAX_CONCURRENCY: '0' } }))
+      .toMatchObject({ rateLimit: 2.5, maxConcurrency: 0 });
+
+    writeFileSync(configFile, JSON.stringify({ profiles: { batch: { rateLimit: 3, maxConcurrency: 2 } } }));
+    expect(loadConfig({ profile: 'batch', env })).toMatchObject({ rateLimit: 3, maxConcurrency: 2 });
+    expect(() => loadConfig({ env: { ...env, MEDIAGRAPH_RATE_LIMIT: 'fast' } }))
+      .toThrow('Invalid MEDIAGRAPH_RATE_LIMIT');
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => loadConfig({ profile: 'sandbox', env: { MEDIAGRAPH_CONFIG_FILE: configFile } }))
+      .toThrow('Unknown profile "sandbox"');
+    expect(() => loadConfig({ profile: 'sandbox', env: { MEDIAGRAPH_CONFIG_FILE: join(dir, 'missing.json') } }))
+      .toThrow('does not exist');
+  });
+});
+
+describe('parseConfigFile', () => {
+  it('should reject malformed files', () => {
+    expect(() => parseConfigFile('{')).toThrow('Invalid config file');
+    expect(() => parseConfigFile('{"profiles":[]}')).toThrow('"profiles" must be an object');
+  });
+});
+
+describe('extractProfileFlag', () => {
+  it('should remove the flag from the arguments', () => {
+    expect(extractProfileFlag(['serve', '--profile', 'staging', '--http'])).toEqual({ profile: 'staging', args: ['serve', '--http'] });
+    expect(extractProfileFlag(['status'])).toEqual({ args: ['status'] });
+    expect(() => extractProfileFlag(['--profile'])).toThrow('requires a profile name');
+  });
+});
+
+describe('parsePorts', () => {
+  it('should read single ports, lists and ranges', () => {
+    expect(parsePorts('52584', 'ports')).toEqual([52584]);
+    expect(parsePorts(52584, 'ports')).toEqual([52584]);
+    expect(parsePorts('52584, 52590-52592', 'ports')).toEqual([52584, 52590, 52591, 52592]);
+    expect(parsePorts([8080, 8081], 'ports')).toEqual([8080, 8081]);
+    expect(parsePorts(undefined, 'ports')).toBeUndefined();
+  });
+
+  it('should reject invalid ports', () => {
+    expect(() => parsePorts('http', 'MEDIAGRAPH_REDIRECT_PORT')).toThrow('Invalid MEDIAGRAPH_REDIRECT_PORT');
+    expect(() => parsePorts('70000', 'ports')).toThrow('not a port');
+    expect(() => parsePorts('52590-52584', 'ports')).toThrow('not a port');
+    expect(() => parsePorts('1-65535', 'ports')).toThrow('at most');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for the doctor command's checks
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createServer as createNetServer, type AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  runDoctorCommand,
+  runChecks,
+  formatDoctorReport,
+  skippedCheck,
+  tokenFileCheck,
+  tokenExpiryCheck,
+  reachabilityCheck,
+  redirectPortCheck,
+  whoamiCheck,
+  appBundleCheck,
+  toolDefinitionsCheck,
+  type CliOutput,
+} from '../cli/index.js';
+import { TokenStore, type StoredTokens } from '../auth/token-store.js';
+import { FileTokenStorage, MemoryTokenStorage } from '../auth/token-storage.js';
+import { MediagraphApiError, type MediagraphClient } from '../api/client.js';
+
+function storedTokens(expiresInMs: number, refreshToken?: string): StoredTokens {
+  return {
+    tokens: {
+      access_token: 'access',
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: expiresInMs / 1000,
+      expires_at: Date.now() + expiresInMs,
+    },
+    organizationSlug: 'agency',
+  };
+}
+
+function listen(server: Server | ReturnType<typeof createNetServer>): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+describe('doctor checks', () => {
+  const cleanup: (() => void)[] = [];
+
+  afterEach(() => {
+    cleanup.splice(0).forEach((fn) => fn());
+  });
+
+  it('reports token files that cannot be decrypted', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mediagraph-doctor-'));
+    cleanup.push(() => rmSync(dir, { recursive: true, force: true }));
+    const file = join(dir, 'tokens.enc');
+
+    const empty = await tokenFileCheck(new TokenStore(new FileTokenStorage(file))).run();
+    expect(empty.status).toBe('warning');
+
+    await new TokenStore(new FileTokenStorage(file, { passphrase: 'right' })).save(storedTokens(3600000, 'refresh'));
+    const ok = await tokenFileCheck(new TokenStore(new FileTokenStorage(file, { passphrase: 'right' }))).run();
+    expect(ok).toMatchObject({ status: 'ok', message: expect.stringContaining('1 organization (agency)') });
+
+    const wrong = await tokenFileCheck(new TokenStore(new FileTokenStorage(file, { passphrase: 'wrong' }))).run();
+    expect(wrong.status).toBe('error');
+    expect(wrong.hint).toContain('MEDIAGRAPH_TOKEN_PASSPHRASE');
+
+    writeFileSync(file, 'garbage');
+    expect((await tokenFileCheck(new TokenStore(new FileTokenStorage(file))).run()).status).toBe('error');
+  });
+
+  it('refreshes expired tokens and reports refresh failures', async () => {
+    const refresh = vi.fn().mockResolvedValue(storedTokens(3600000, 'new').tokens);
+
+    const valid = await tokenExpiryCheck({ load: () => storedTokens(3600000, 'refresh'), refresh }).run();
+    expect(valid.status).toBe('ok');
+    expect(refresh).not.toHaveBeenCalled();
+
+    const refreshed = await tokenExpiryCheck({ load: () => storedTokens(-1000, 'refresh'), refresh }).run();
+    expect(refreshed).toMatchObject({ status: 'ok', message: expect.stringContaining('refreshed') });
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    const failed = await tokenExpiryCheck({
+      load: () => storedTokens(-1000, 'refresh'),
+      refresh: vi.fn().mockRejectedValue(new Error('invalid_grant')),
+    }).run();
+    expect(failed).toMatchObject({ status: 'error', message: expect.stringContaining('invalid_grant') });
+
+    expect((await tokenExpiryCheck({ load: () => storedTokens(-1000), refresh }).run()).status).toBe('error');
+    expect((await tokenExpiryCheck({ load: () => null, refresh }).run()).status).toBe('skipped');
+  });
+
+  it('checks that URLs respond', async () => {
+    const server = createServer((req, res) => {
+      res.statusCode = req.url === '/down' ? 503 : 404;
+      res.end();
+    });
+    const port = await listen(server);
+    cleanup.push(() => server.close());
+
+    const ok = await reachabilityCheck('API', `http://127.0.0.1:${port}/`, { setting: 'MEDIAGRAPH_API_URL' }).run();
+    expect(ok).toMatchObject({ status: 'ok', message: expect.stringContaining('HTTP 404') });
+
+    const down = await reachabilityCheck('API', `http://127.0.0.1:${port}/down`, { setting: 'MEDIAGRAPH_API_URL' }).run();
+    expect(down.status).toBe('warning');
+
+    server.close();
+    const unreachable = await reachabilityCheck('API', `http://127.0.0.1:${port}/`, { setting: 'MEDIAGRAPH_API_URL' }).run();
+    expect(unreachable.status).toBe('error');
+    expect(unreachable.hint).toContain('MEDIAGRAPH_API_URL');
+  });
+
+  it('finds the callback port sign-in would use', async () => {
+    const blocker = createNetServer();
+    const busy = await listen(blocker);
+    cleanup.push(() => blocker.close());
+    const released = createNetServer();
+    const free = await listen(released);
+    await new Promise((resolve) => released.close(resolve));
+
+    expect((await redirectPortCheck([free]).run()).status).toBe('ok');
+    expect(await redirectPortCheck([busy, free]).run()).toMatchObject({
+      status: 'warning',
+      message: expect.stringContaining(`will use port ${free}`),
+    });
+    expect((await redirectPortCheck([busy]).run()).status).toBe('error');
+  });
+
+  it('reports whoami and rejected tokens', async () => {
+    const client = {
+      whoami: vi.fn().mockResolvedValue({
+        user: { email: 'me@example.com' },
+        organization: { name: 'Agency', slug: 'agency' },
+        membership: { role: 'admin' },
+      }),
+    } as unknown as MediagraphClient;
+    expect(await whoamiCheck(client, async () => 'token').run()).toEqual({
+      status: 'ok',
+      message: 'me@example.com in Agency (agency, admin)',
+    });
+    expect((await whoamiCheck(client, async () => null).run()).status).toBe('skipped');
+
+    const rejecting = {
+      whoami: vi.fn().mockRejectedValue(new MediagraphApiError(401, { error: 'Unauthorized' })),
+    } as unknown as MediagraphClient;
+    const rejected = await whoamiCheck(rejecting, async () => 'token').run();
+    expect(rejected.status).toBe('error');
+    expect(rejected.hint).toContain('authorize');
+  });
+
+  it('checks the app bundle and tool definitions', async () => {
+    expect((await appBundleCheck(join(tmpdir(), 'missing', 'index.html')).run()).status).toBe('warning');
+    expect((await toolDefinitionsCheck({}).run()).status).toBe('ok');
+    expect(await toolDefinitionsCheck({ denyTools: ['nope'] }).run()).toMatchObject({
+      status: 'error',
+      message: expect.stringContaining('nope'),
+    });
+  });
+});
+
+describe('runDoctorCommand', () => {
+  function captureOutput(): CliOutput & { stdout: string[] } {
+    const stdout: string[] = [];
+    return { stdout, out: (text) => stdout.push(text), err: () => {} };
+  }
+
+  it('exits 1 only when a check fails, counting thrown errors as failures', async () => {
+    const output = captureOutput();
+    const passing = [skippedCheck('Callback port', 'Not used'), { name: 'Tools', run: () => ({ status: 'ok' as const, message: 'fine' }) }];
+    expect(await runDoctorCommand([], passing, output)).toBe(0);
+    expect(output.stdout[0]).toContain('All checks passed');
+
+    const throwing = { name: 'Broken', run: () => { throw new Error('boom'); } };
+    expect(await runDoctorCommand([], [...passing, throwing], output)).toBe(1);
+  });
+
+  it('prints JSON with --json', async () => {
+    const output = captureOutput();
+    await runDoctorCommand(['--json'], [tokenFileCheck(new TokenStore(new MemoryTokenStorage()))], output);
+    expect(JSON.parse(output.stdout[0])).toEqual({
+      ok: true,
+      checks: [{
+        name: 'Token storage',
+        status: 'warning',
+        message: 'memory (not persisted): no stored sign-in',
+        hint: expect.stringContaining('authorize'),
+      }],
+    });
+  });
+
+  it('prints hints under failed checks', async () => {
+    const results = await runChecks([
+      { name: 'API', run: () => ({ status: 'error' as const, message: 'unreachable', hint: 'Check the network' }) },
+    ]);
+    const report = formatDoctorReport(results);
+    expect(report).toContain('[fail] API  unreachable');
+    expect(report).toContain('Check the network');
+    expect(report).toContain('1 error, 0 warnings');
+  });
+});
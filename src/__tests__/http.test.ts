@@ -0,0 +1,125 @@
+/**
+ * Tests for the Streamable HTTP transport's session handling
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { runHttpServer } from '../http.js';
+
+describe('HTTP sessions', () => {
+  let server: Server;
+  let api: Server;
+  let endpoint: string;
+
+  function post(token: string, body: unknown, sessionId?: string, url = endpoint): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function initialize(token: string, url = endpoint): Promise<string> {
+    const response = await post(
+      token,
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      },
+      undefined,
+      url,
+    );
+    await response.text();
+    expect(response.status).toBe(200);
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  async function clientStats(token: string, sessionId: string): Promise<{ requests: number }> {
+    const response = await post(token, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'client_stats', arguments: {} } }, sessionId);
+    // Streamed as server-sent events
+    const data = (await response.text()).split('\n').find((line) => line.startsWith('data: '))!;
+    const message = JSON.parse(data.slice('data: '.length)) as { result: { content: { text: string }[] } };
+    return JSON.parse(message.result.content[0].text);
+  }
+
+  beforeAll(async () => {
+    // Mediagraph API that answers every request with the same whoami
+    api = createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ user: { id: 1, email: 'test@example.com' }, organization: { id: 1, slug: 'test-org' }, membership: { id: 1, role: 'admin' } }));
+    });
+    await new Promise<void>((resolve) => api.listen(0, '127.0.0.1', resolve));
+
+    server = await runHttpServer({ apiUrl: `http://127.0.0.1:${(api.address() as AddressInfo).port}`, host: '127.0.0.1', port: 0 });
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    for (const running of [server, api]) {
+      running.closeAllConnections();
+      await new Promise((resolve) => running.close(resolve));
+    }
+  });
+
+  it('binds a session to the token that initialized it', async () => {
+    const sessionId = await initialize('token-a');
+    const initialized = { jsonrpc: '2.0', method: 'notifications/initialized' };
+
+    const other = await post('token-b', initialized, sessionId);
+    expect(other.status).toBe(403);
+    expect(((await other.json()) as { error: { message: string } }).error.message).toContain('another access token');
+
+    const same = await post('token-a', initialized, sessionId);
+    await same.text();
+    expect(same.status).toBe(202);
+  });
+
+  it('shares a rate limiter between the sessions of one token only', async () => {
+    const first = await initialize('token-c');
+    const other = await initialize('token-d');
+
+    // Each session looks up its organization and role before the first call
+    const firstStats = await clientStats('token-c', first);
+    const otherStats = await clientStats('token-d', other);
+    expect(firstStats.requests).toBeGreaterThan(0);
+    expect(otherStats.requests).toBe(firstStats.requests);
+
+    const second = await initialize('token-c');
+    const secondStats = await clientStats('token-c', second);
+    expect(secondStats.requests).toBe(2 * firstStats.requests);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const idle = await runHttpServer({ apiUrl: 'http://127.0.0.1:1', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 });
+    const url = `http://127.0.0.1:${(idle.address() as AddressInfo).port}/mcp`;
+    try {
+      const sessionId = await initialize('token-a', url);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const expired = await post('token-a', { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId, url);
+      expect(expired.status).toBe(404);
+      await expired.text();
+    } finally {
+      idle.closeAllConnections();
+      await new Promise((resolve) => idle.close(resolve));
+    }
+  });
+
+  it('rejects requests without a token or for unknown sessions', async () => {
+    const missing = await fetch(endpoint, { method: 'POST', body: '{}' });
+    expect(missing.status).toBe(401);
+    await missing.text();
+
+    const unknown = await post('token-a', { jsonrpc: '2.0', method: 'notifications/initialized' }, 'no-such-session');
+    expect(unknown.status).toBe(404);
+    await unknown.text();
+  });
+});
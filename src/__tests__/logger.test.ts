@@ -0,0 +1,124 @@
+/**
+ * Tests for the structured logger
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger, sanitize, isLogLevel } from '../logger.js';
+
+describe('sanitize', () => {
+  it('should redact credentials', () => {
+    expect(sanitize({
+      access_token: 'abc',
+      refresh_token: 'def',
+      client_secret: 'ghi',
+      passphrase: 'jkl',
+      token: 'mno',
+      name: 'visible',
+    })).toEqual({
+      access_token: '[REDACTED]',
+      refresh_token: '[REDACTED]',
+      client_secret: '[REDACTED]',
+      passphrase: '[REDACTED]',
+      token: '[REDACTED]',
+      name: 'visible',
+    });
+  });
+
+  it('should redact bearer tokens inside strings', () => {
+    expect(sanitize('Authorization: Bearer secret-token-value')).toBe('Authorization: Bearer [REDACTED]');
+  });
+
+  it('should omit base64 file data', () => {
+    const fileData = Buffer.alloc(3000).toString('base64');
+    expect(sanitize({ filename: 'photo.jpg', file_data: fileData })).toEqual({
+      filename: 'photo.jpg',
+      file_data: `[omitted, ${fileData.length} chars]`,
+    });
+  });
+
+  it('should truncate long strings and arrays', () => {
+    const result = sanitize({ description: 'x'.repeat(2000), ids: Array.from({ length: 50 }, (_, i) => i) }) as {
+      description: string;
+      ids: unknown[];
+    };
+
+    expect(result.description).toHaveLength(500 + '... (2000 chars)'.length);
+    expect(result.ids).toHaveLength(21);
+    expect(result.ids[20]).toBe('... 30 more');
+  });
+
+  it('should reduce errors to name and message', () => {
+    const error = Object.assign(new Error('Not found'), { statusCode: 404 });
+    expect(sanitize(error)).toEqual({ name: 'Error', message: 'Not found', statusCode: 404 });
+  });
+});
+
+describe('Logger', () => {
+  let stderr: ReturnType<typeof mockStderr>;
+
+  function mockStderr() {
+    return vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  }
+
+  beforeEach(() => {
+    stderr = mockStderr();
+  });
+
+  afterEach(() => {
+    stderr.mockRestore();
+  });
+
+  it('should write entries at or above the level to stderr', () => {
+    const log = new Logger('test', { local: { level: 'info' } });
+    log.debug('hidden');
+    log.info('shown', { id: 1 });
+
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(String(stderr.mock.calls[0][0])).toMatch(/INFO \[test\] shown \{"id":1\}\n$/);
+  });
+
+  it('should forward entries to the client at the client level', () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const log = new Logger('root', { local: { level: 'error' } }).withClient(send).child('MCP');
+
+    log.debug('too detailed');
+    log.info('Tool call', { file_data: 'aGVsbG8=' });
+    log.setClientLevel('debug');
+    log.debug('now visible');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenNthCalledWith(1, {
+      level: 'info',
+      logger: 'MCP',
+      data: { message: 'Tool call', data: { file_data: '[omitted, 8 chars]' } },
+    });
+    expect(send).toHaveBeenNthCalledWith(2, { level: 'debug', logger: 'MCP', data: 'now visible' });
+    // Nothing reached stderr below its own level
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  it('should apply later stderr level changes to existing session loggers', () => {
+    const root = new Logger('root', { local: { level: 'error' } });
+    const session = root.withClient(vi.fn().mockResolvedValue(undefined), 'emergency').child('MCP');
+
+    session.info('hidden');
+    root.setLevel('info');
+    session.info('shown');
+
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(String(stderr.mock.calls[0][0])).toMatch(/INFO \[MCP\] shown\n$/);
+  });
+
+  it('should ignore client delivery failures', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('Not connected'));
+    const log = new Logger('root', { local: { level: 'error' } }).withClient(send);
+
+    expect(() => log.warning('disconnected')).not.toThrow();
+    await Promise.resolve();
+  });
+
+  it('should validate level names', () => {
+    expect(isLogLevel('warning')).toBe(true);
+    expect(isLogLevel('verbose')).toBe(false);
+  });
+});
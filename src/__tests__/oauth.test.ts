@@ -0,0 +1,268 @@
+/**
+ * Tests for the OAuth callback server, and for the device authorization grant
+ * against a mock OAuth server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createServer as createNetServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { OAuthHandler, renderCallbackPage, type DeviceAuthorization } from '../auth/oauth.js';
+
+interface RecordedRequest {
+  path: string;
+  params: URLSearchParams;
+}
+
+type TokenReply = { status: number; body: Record<string, unknown> };
+
+/**
+ * Minimal OAuth server: issues one device code and answers token requests
+ * from a queue of replies
+ */
+function startMockOAuthServer(tokenReplies: TokenReply[]): Promise<{ server: Server; url: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const params = new URLSearchParams(body);
+      requests.push({ path: req.url || '', params });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/oauth/authorize_device') {
+        res.end(JSON.stringify({
+          device_code: 'device-123',
+          user_code: 'WDJB-MJHT',
+          verification_uri: 'https://mediagraph.example/device',
+          verification_uri_complete: 'https://mediagraph.example/device?user_code=WDJB-MJHT',
+          expires_in: 600,
+          interval: 0,
+        }));
+        return;
+      }
+
+      if (req.url === '/oauth/token') {
+        const reply = tokenReplies.shift() || { status: 400, body: { error: 'authorization_pending' } };
+        res.statusCode = reply.status;
+        res.end(JSON.stringify(reply.body));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'not_found' }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+const tokens = { access_token: 'access-1', refresh_token: 'refresh-1', token_type: 'Bearer', expires_in: 7200 };
+
+describe('OAuthHandler device authorization', () => {
+  let server: Server;
+  let oauthUrl: string;
+  let requests: RecordedRequest[];
+  let handler: OAuthHandler;
+  const tokenReplies: TokenReply[] = [];
+
+  beforeEach(async () => {
+    tokenReplies.length = 0;
+    const mock = await startMockOAuthServer(tokenReplies);
+    server = mock.server;
+    oauthUrl = mock.url;
+    requests = mock.requests;
+    handler = new OAuthHandler({ clientId: 'client-1', oauthUrl });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should request a device code for the client and scopes', async () => {
+    const authorization = await handler.requestDeviceAuthorization();
+
+    expect(authorization.user_code).toBe('WDJB-MJHT');
+    expect(authorization.verification_uri).toBe('https://mediagraph.example/device');
+    expect(requests[0].path).toBe('/oauth/authorize_device');
+    expect(requests[0].params.get('client_id')).toBe('client-1');
+    expect(requests[0].params.get('scope')).toBe('read write');
+  });
+
+  it('should poll until the user approves', async () => {
+    tokenReplies.push(
+      { status: 400, body: { error: 'authorization_pending' } },
+      { status: 400, body: { error: 'authorization_pending' } },
+      { status: 200, body: tokens },
+    );
+
+    const authorization = await handler.requestDeviceAuthorization();
+    const result = await handler.pollDeviceToken(authorization);
+
+    expect(result.access_token).toBe('access-1');
+    expect(result.expires_at).toBeGreaterThan(Date.now());
+
+    const tokenRequests = requests.filter((request) => request.path === '/oauth/token');
+    expect(tokenRequests).toHaveLength(3);
+    expect(tokenRequests[0].params.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:device_code');
+    expect(tokenRequests[0].params.get('device_code')).toBe('device-123');
+  });
+
+  it('should stop when the user denies access', async () => {
+    tokenReplies.push({ status: 400, body: { error: 'access_denied' } });
+
+    const authorization = await handler.requestDeviceAuthorization();
+
+    await expect(handler.pollDeviceToken(authorization)).rejects.toThrow('denied');
+  });
+
+  it('should stop when the device code expires', async () => {
+    tokenReplies.push({ status: 400, body: { error: 'expired_token' } });
+
+    const authorization = await handler.requestDeviceAuthorization();
+
+    await expect(handler.pollDeviceToken(authorization)).rejects.toThrow('expired');
+  });
+
+  it('should give up once expires_in has passed', async () => {
+    const authorization: DeviceAuthorization = {
+      device_code: 'device-123',
+      user_code: 'WDJB-MJHT',
+      verification_uri: 'https://mediagraph.example/device',
+      expires_in: 0.05,
+      interval: 0,
+    };
+
+    await expect(handler.pollDeviceToken(authorization)).rejects.toThrow('expired');
+  });
+
+  it('should stop polling when cancelled', async () => {
+    const authorization = await handler.requestDeviceAuthorization();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(handler.pollDeviceToken(authorization, controller.signal)).rejects.toThrow('Device authorization cancelled');
+  });
+
+  it('should report other errors from the token endpoint', async () => {
+    tokenReplies.push({ status: 401, body: { error: 'invalid_client', error_description: 'Unknown client' } });
+
+    const authorization = await handler.requestDeviceAuthorization();
+
+    await expect(handler.pollDeviceToken(authorization)).rejects.toThrow('Unknown client');
+  });
+
+  it('should fail when the server does not support device authorization', async () => {
+    const unsupported = new OAuthHandler({ clientId: 'client-1', oauthUrl: `${oauthUrl}/missing` });
+
+    await expect(unsupported.requestDeviceAuthorization()).rejects.toThrow('Device authorization failed');
+  });
+});
+
+/**
+ * Hold a free port until released, or just find one
+ */
+function holdPort(): Promise<{ port: number; release: () => Promise<void> }> {
+  const server = createNetServer();
+  return new Promise((resolve) => {
+    server.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ port, release: () => new Promise((done) => server.close(() => done())) });
+    });
+  });
+}
+
+describe('OAuthHandler callback server', () => {
+  let handler: OAuthHandler | null = null;
+
+  afterEach(() => {
+    handler?.stopCallbackServer();
+    handler = null;
+  });
+
+  async function startFlow(options: { callbackTimeoutMs?: number } = {}) {
+    const busy = await holdPort();
+    const free = await holdPort();
+    await free.release();
+
+    handler = new OAuthHandler({ clientId: 'client-1', redirectPorts: [busy.port, free.port], ...options });
+    const port = await handler.startCallbackServer();
+    await busy.release();
+
+    const authUrl = new URL(handler.getAuthorizationUrl());
+    const callback = handler.waitForCallback();
+    // Keep unhandled rejections out of tests that expect one later
+    callback.catch(() => {});
+    return { port, free: free.port, authUrl, callback };
+  }
+
+  it('should fall back to the next port and redirect to it', async () => {
+    const { port, free, authUrl } = await startFlow();
+
+    expect(port).toBe(free);
+    expect(authUrl.searchParams.get('redirect_uri')).toBe(`http://localhost:${free}/callback`);
+  });
+
+  it('should fail when every port is taken', async () => {
+    const busy = await holdPort();
+    handler = new OAuthHandler({ clientId: 'client-1', redirectPorts: [busy.port] });
+
+    await expect(handler.startCallbackServer()).rejects.toThrow(`port ${busy.port} is in use`);
+    await busy.release();
+  });
+
+  it('should show a success page and return the code', async () => {
+    const { port, authUrl, callback } = await startFlow();
+    const state = authUrl.searchParams.get('state');
+
+    const response = await fetch(`http://localhost:${port}/callback?code=abc&state=${state}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('Authorization Successful');
+    await expect(callback).resolves.toEqual({ code: 'abc', state });
+  });
+
+  it('should show the error from the OAuth server without injecting HTML', async () => {
+    const { port, callback } = await startFlow();
+
+    const response = await fetch(`http://localhost:${port}/callback?error=access_denied&error_description=${encodeURIComponent('<script>x</script>')}`);
+    const html = await response.text();
+
+    expect(response.status).toBe(400);
+    expect(html).toContain('Authorization Failed');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    await expect(callback).rejects.toThrow('<script>x</script>');
+  });
+
+  it('should reject a state mismatch', async () => {
+    const { port, callback } = await startFlow();
+
+    const response = await fetch(`http://localhost:${port}/callback?code=abc&state=forged`);
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain('State parameter mismatch');
+    await expect(callback).rejects.toThrow('State parameter mismatch');
+  });
+
+  it('should time out and tell a late browser', async () => {
+    const { port, authUrl, callback } = await startFlow({ callbackTimeoutMs: 50 });
+
+    await expect(callback).rejects.toThrow('timed out');
+
+    const response = await fetch(`http://localhost:${port}/callback?code=abc&state=${authUrl.searchParams.get('state')}`);
+    expect(response.status).toBe(408);
+    expect(await response.text()).toContain('Sign-in Timed Out');
+  });
+
+  it('should escape the page text', () => {
+    expect(renderCallbackPage('Done', 'Connected', true)).toContain('return to your application');
+    expect(renderCallbackPage('Failed', 'a & b')).toContain('a &amp; b');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for MCP Prompts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { promptDefinitions, getPrompt } from '../prompts/index.js';
+import { getToolDefinitions } from '../tools/index.js';
+
+describe('Prompt Definitions', () => {
+  it('should have unique prompt names', () => {
+    const names = promptDefinitions.map(p => p.name);
+    expect(names.length).toBe(new Set(names).size);
+  });
+
+  it('should include the DAM workflow prompts', () => {
+    const names = promptDefinitions.map(p => p.name);
+    expect(names).toContain('audit_alt_text');
+    expect(names).toContain('prepare_client_delivery');
+    expect(names).toContain('clean_up_duplicate_tags');
+  });
+});
+
+describe('getPrompt', () => {
+  it('should render arguments into the prompt text', () => {
+    const result = getPrompt('audit_alt_text', { collection_id: '42' });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    expect(result.messages[0].content.text).toContain('collection 42');
+  });
+
+  it('should only reference existing tools', () => {
+    const definitions = getToolDefinitions();
+    const toolNames = new Set(definitions.map(t => t.name));
+    // Argument names and enum values, which prompts mention alongside the tools
+    const argumentWords = new Set<string>();
+    const collect = (schema: Record<string, unknown>) => {
+      for (const [name, property] of Object.entries((schema.properties || {}) as Record<string, Record<string, unknown>>)) {
+        argumentWords.add(name);
+        for (const value of (property.enum || []) as unknown[]) argumentWords.add(String(value));
+        if (property.items) collect(property.items as Record<string, unknown>);
+        collect(property);
+      }
+    };
+    definitions.forEach(t => collect(t.inputSchema as Record<string, unknown>));
+
+    const renders = promptDefinitions.flatMap(prompt => {
+      const args = Object.fromEntries(prompt.arguments.map(a => [a.name, 'x']));
+      return [getPrompt(prompt.name, args), getPrompt(prompt.name, { ...args, mode: 'generate' })];
+    });
+    for (const result of renders) {
+      const words = result.messages[0].content.text.match(/\b[a-z]+(?:_[a-z]+)+\b/g) || [];
+      const unknown = words.filter(word => !toolNames.has(word) && !argumentWords.has(word));
+      expect(unknown).toEqual([]);
+    }
+  });
+
+  it('should throw for missing required arguments', () => {
+    expect(() => getPrompt('prepare_client_delivery', { client_name: 'Acme' })).toThrow('Missing required argument: query');
+  });
+
+  it('should throw for unknown prompts', () => {
+    expect(() => getPrompt('unknown_prompt')).toThrow('Unknown prompt');
+  });
+});
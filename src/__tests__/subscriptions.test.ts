@@ -0,0 +1,95 @@
+/**
+ * Tests for resource subscriptions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResourceSubscriptions } from '../resources/subscriptions.js';
+import type { MediagraphClient } from '../api/client.js';
+
+function createMockClient(overrides: Partial<MediagraphClient> = {}): MediagraphClient {
+  return {
+    getAsset: vi.fn().mockResolvedValue({ id: 1, guid: 'abc123', filename: 'test.jpg', updated_at: '2024-01-01T00:00:00Z' }),
+    getCollection: vi.fn().mockResolvedValue({ id: 5, name: 'Test Collection', updated_at: '2024-01-01T00:00:00Z' }),
+    getLightbox: vi.fn().mockResolvedValue({ id: 7, name: 'Test Lightbox', updated_at: '2024-01-01T00:00:00Z' }),
+    searchAssets: vi.fn().mockResolvedValue({ assets: [], total: 0, page: 1, per_page: 1, total_pages: 0 }),
+    ...overrides,
+  } as unknown as MediagraphClient;
+}
+
+describe('ResourceSubscriptions', () => {
+  let onUpdated: (uri: string) => Promise<void>;
+
+  beforeEach(() => {
+    onUpdated = vi.fn<[string], Promise<void>>().mockResolvedValue(undefined);
+  });
+
+  it('should notify when a subscribed asset changes', async () => {
+    const client = createMockClient();
+    const subscriptions = new ResourceSubscriptions({ client, onUpdated });
+    await subscriptions.subscribe('mediagraph://asset/abc123');
+
+    vi.mocked(client.searchAssets).mockResolvedValue({ assets: [{ id: 1 }], total: 1 } as never);
+    vi.mocked(client.getAsset).mockResolvedValue({ id: 1, guid: 'abc123', filename: 'test.jpg', updated_at: '2024-02-01T00:00:00Z' } as never);
+    await subscriptions.poll();
+
+    expect(client.searchAssets).toHaveBeenCalledWith(expect.objectContaining({ ids: [1], updated_at: [expect.any(String), expect.any(String)] }));
+    expect(onUpdated).toHaveBeenCalledWith('mediagraph://asset/abc123');
+    subscriptions.close();
+  });
+
+  it('should not refetch assets that were not updated since the last poll', async () => {
+    const client = createMockClient();
+    const subscriptions = new ResourceSubscriptions({ client, onUpdated });
+    await subscriptions.subscribe('mediagraph://asset/1');
+
+    await subscriptions.poll();
+
+    expect(client.getAsset).toHaveBeenCalledTimes(1);
+    expect(onUpdated).not.toHaveBeenCalled();
+    subscriptions.close();
+  });
+
+  it('should notify when a collection is updated', async () => {
+    const client = createMockClient();
+    const subscriptions = new ResourceSubscriptions({ client, onUpdated });
+    await subscriptions.subscribe('mediagraph://collection/5');
+
+    vi.mocked(client.getCollection).mockResolvedValue({ id: 5, name: 'Renamed', updated_at: '2024-02-01T00:00:00Z' } as never);
+    await subscriptions.poll();
+
+    expect(onUpdated).toHaveBeenCalledWith('mediagraph://collection/5');
+    subscriptions.close();
+  });
+
+  it('should notify when an asset in a subscribed collection changes', async () => {
+    const client = createMockClient({
+      searchAssets: vi.fn().mockResolvedValue({ assets: [], total: 1, page: 1, per_page: 1, total_pages: 1 }),
+    });
+    const subscriptions = new ResourceSubscriptions({ client, onUpdated });
+    await subscriptions.subscribe('mediagraph://collection/5');
+
+    await subscriptions.poll();
+
+    expect(client.searchAssets).toHaveBeenCalledWith(expect.objectContaining({ collection_id: 5, updated_at: [expect.any(String), expect.any(String)] }));
+    expect(onUpdated).toHaveBeenCalledWith('mediagraph://collection/5');
+    subscriptions.close();
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    const client = createMockClient();
+    const subscriptions = new ResourceSubscriptions({ client, onUpdated });
+    await subscriptions.subscribe('mediagraph://collection/5');
+    subscriptions.unsubscribe('mediagraph://collection/5');
+
+    vi.mocked(client.getCollection).mockResolvedValue({ id: 5, name: 'Renamed', updated_at: '2024-02-01T00:00:00Z' } as never);
+    await subscriptions.poll();
+
+    expect(onUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should reject unsupported resource types', async () => {
+    const subscriptions = new ResourceSubscriptions({ client: createMockClient(), onUpdated });
+
+    await expect(subscriptions.subscribe('mediagraph://search?q=dog')).rejects.toThrow();
+  });
+});
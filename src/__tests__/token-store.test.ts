@@ -0,0 +1,228 @@
+/**
+ * Tests for encrypted token storage
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync, statSync } from 'node:fs';
+import { tmpdir, homedir } from 'node:os';
+import { createCipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { join } from 'node:path';
+import { TokenStore, type StoredTokens } from '../auth/token-store.js';
+import { FileTokenStorage, MemoryTokenStorage } from '../auth/token-storage.js';
+
+function storedTokens(slug: string | undefined, accessToken: string): StoredTokens {
+  return {
+    tokens: { access_token: accessToken, refresh_token: `refresh-${accessToken}`, expires_in: 3600, expires_at: Date.now() + 3600000, token_type: 'Bearer' },
+    organizationSlug: slug,
+    organizationName: slug && slug.toUpperCase(),
+  };
+}
+
+/**
+ * Token file as written before passphrase support: unused salt, iv, tag and
+ * data, with a key derived from the home directory and a constant salt
+ */
+function legacyEncrypt(data: string): Buffer {
+  const key = scryptSync(`${homedir()}-mediagraph-mcp`, 'mediagraph-mcp-salt', 32);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+  return Buffer.concat([randomBytes(16), iv, cipher.getAuthTag(), encrypted]);
+}
+
+describe('TokenStore', () => {
+  let dir: string;
+  let store: TokenStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-tokens-'));
+    store = new TokenStore(join(dir, 'tokens.enc'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep tokens for several organizations', async () => {
+    await store.save(storedTokens('agency', 'a'));
+    await store.save(storedTokens('client-co', 'b'));
+
+    expect(store.load()?.organizationSlug).toBe('client-co');
+    expect(store.load('agency')?.tokens.access_token).toBe('a');
+    expect(Object.keys(store.loadAll()!.organizations)).toEqual(['agency', 'client-co']);
+  });
+
+  it('should switch the active organization', async () => {
+    await store.save(storedTokens('agency', 'a'));
+    await store.save(storedTokens('client-co', 'b'));
+
+    await store.setActive('agency');
+
+    expect(store.load()?.tokens.access_token).toBe('a');
+    await expect(store.setActive('unknown')).rejects.toThrow('No stored credentials');
+  });
+
+  it('should refresh another organization without activating it', async () => {
+    await store.save(storedTokens('agency', 'a'));
+    await store.save(storedTokens('client-co', 'b'));
+
+    await store.save(storedTokens('agency', 'a2'), { activate: false });
+
+    expect(store.load()?.organizationSlug).toBe('client-co');
+    expect(store.load('agency')?.tokens.access_token).toBe('a2');
+  });
+
+  it('should replace tokens saved before the organization was known', async () => {
+    await store.save(storedTokens(undefined, 'a'));
+    await store.save(storedTokens('agency', 'a'));
+
+    expect(Object.keys(store.loadAll()!.organizations)).toEqual(['agency']);
+    expect(store.load()?.organizationSlug).toBe('agency');
+  });
+
+  it('should read files written for a single organization', async () => {
+    // Machine-key encryption from before per-file salts, payload is one StoredTokens
+    writeFileSync(join(dir, 'tokens.enc'), legacyEncrypt(JSON.stringify(storedTokens('agency', 'a'))));
+
+    expect(store.load()?.tokens.access_token).toBe('a');
+    await store.save(storedTokens('client-co', 'b'));
+    expect(store.load('agency')?.tokens.access_token).toBe('a');
+  });
+
+  it('should remove one organization', async () => {
+    await store.save(storedTokens('agency', 'a'));
+    await store.save(storedTokens('client-co', 'b'));
+
+    await store.remove('client-co');
+
+    expect(store.load()?.organizationSlug).toBe('agency');
+    expect(store.load('client-co')).toBeNull();
+  });
+});
+
+describe('FileTokenStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mediagraph-tokens-'));
+    file = join(dir, 'tokens.enc');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only decrypt with the same passphrase', async () => {
+    await new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).save(storedTokens('agency', 'a'));
+
+    expect(new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).load()?.tokens.access_token).toBe('a');
+    expect(() => new TokenStore(new FileTokenStorage(file, { passphrase: 'wrong' })).load()).toThrow(/Could not decrypt/);
+    expect(() => new TokenStore(new FileTokenStorage(file)).load()).toThrow(/Could not decrypt/);
+  });
+
+  it('should not overwrite tokens it cannot decrypt', async () => {
+    await new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).save(storedTokens('agency', 'a'));
+    const wrong = new TokenStore(new FileTokenStorage(file, { passphrase: 'wrong' }));
+
+    await expect(wrong.save(storedTokens('client-co', 'b'))).rejects.toThrow(/Could not decrypt/);
+    expect(new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).load()?.tokens.access_token).toBe('a');
+
+    // Logging out still clears them
+    await wrong.clear();
+    expect(wrong.hasTokens()).toBe(false);
+  });
+
+  it('should keep a random key in a private key file without a passphrase', async () => {
+    await new TokenStore(new FileTokenStorage(file)).save(storedTokens('agency', 'a'));
+
+    expect(statSync(`${file}.key`).mode & 0o777).toBe(0o600);
+    expect(readFileSync(`${file}.key`, 'utf-8')).toMatch(/^[0-9a-f]{64}$/);
+    expect(new TokenStore(new FileTokenStorage(file)).load()?.tokens.access_token).toBe('a');
+
+    // The file is useless without the key
+    rmSync(`${file}.key`);
+    expect(() => new TokenStore(new FileTokenStorage(file)).load()).toThrow(/Could not decrypt/);
+  });
+
+  it('should move files keyed to the home directory to a key file', async () => {
+    // Without a passphrase, keys used to be derived from the home directory
+    await new TokenStore(new FileTokenStorage(file, { passphrase: `${homedir()}-mediagraph-mcp` })).save(storedTokens('agency', 'a'));
+
+    expect(new TokenStore(new FileTokenStorage(file)).load()?.tokens.access_token).toBe('a');
+    await vi.waitFor(() => expect(existsSync(`${file}.key`)).toBe(true));
+    await vi.waitFor(() => expect(existsSync(`${file}.lock`)).toBe(false));
+
+    expect(() => new TokenStore(new FileTokenStorage(file, { passphrase: `${homedir()}-mediagraph-mcp` })).load()).toThrow(/Could not decrypt/);
+    expect(new TokenStore(new FileTokenStorage(file)).load()?.organizationSlug).toBe('agency');
+  });
+
+  it('should report files it cannot decrypt from verify', async () => {
+    expect(() => new FileTokenStorage(file).verify()).not.toThrow();
+    await new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).save(storedTokens('agency', 'a'));
+
+    expect(() => new TokenStore(new FileTokenStorage(file, { passphrase: 'correct horse' })).verify()).not.toThrow();
+    expect(() => new TokenStore(new FileTokenStorage(file, { passphrase: 'wrong' })).verify()).toThrow(/Could not decrypt/);
+  });
+
+  it('should use a random salt per file', async () => {
+    const other = join(dir, 'other.enc');
+    await new TokenStore(new FileTokenStorage(file, { passphrase: 'secret' })).save(storedTokens('agency', 'a'));
+    await new TokenStore(new FileTokenStorage(other, { passphrase: 'secret' })).save(storedTokens('agency', 'a'));
+
+    const salt = (path: string) => readFileSync(path).subarray(4, 20).toString('hex');
+    expect(readFileSync(file).subarray(0, 4).toString()).toBe('MGT2');
+    expect(salt(file)).not.toBe(salt(other));
+  });
+
+  it('should migrate legacy files to the passphrase key', async () => {
+    writeFileSync(file, legacyEncrypt(JSON.stringify(storedTokens('agency', 'a'))));
+
+    const store = new TokenStore(new FileTokenStorage(file, { passphrase: 'secret' }));
+
+    expect(store.load()?.tokens.access_token).toBe('a');
+    await vi.waitFor(() => expect(readFileSync(file).subarray(0, 4).toString()).toBe('MGT2'));
+    expect(new TokenStore(new FileTokenStorage(file, { passphrase: 'secret' })).load()?.organizationSlug).toBe('agency');
+  });
+
+  it('should release the lock after each update', async () => {
+    const store = new TokenStore(new FileTokenStorage(file));
+
+    await store.save(storedTokens('agency', 'a'));
+    await expect(store.setActive('unknown')).rejects.toThrow('No stored credentials');
+
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('should take over a lock left by a process that exited', async () => {
+    // PIDs are at most 2^22 on Linux, so this one can't be running
+    writeFileSync(`${file}.lock`, '99999999');
+
+    await new TokenStore(new FileTokenStorage(file)).save(storedTokens('agency', 'a'));
+
+    expect(new TokenStore(new FileTokenStorage(file)).load()?.tokens.access_token).toBe('a');
+  });
+
+  it('should wait for a lock held by a running process', async () => {
+    writeFileSync(`${file}.lock`, String(process.pid));
+    const storage = new FileTokenStorage(file, { lockTimeoutMs: 200 });
+
+    // Held by this (live) process, so the update has to time out
+    await expect(storage.update((current) => current ?? { organizations: {} })).rejects.toThrow('Timed out waiting for the token file lock');
+    expect(existsSync(file)).toBe(false);
+  });
+});
+
+describe('MemoryTokenStorage', () => {
+  it('should keep tokens without touching the disk', async () => {
+    const store = new TokenStore(new MemoryTokenStorage());
+
+    await store.save(storedTokens('agency', 'a'));
+    await store.save(storedTokens('client-co', 'b'));
+    await store.setActive('agency');
+
+    expect(store.load()?.tokens.access_token).toBe('a');
+    await store.clear();
+    expect(store.hasTokens()).toBe(false);
+  });
+});
@@ -3,8 +3,26 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { toolDefinitions, handleTool, successResult, errorResult } from '../tools/index.js';
-import type { MediagraphClient } from '../api/client.js';
+import {
+  toolDefinitions,
+  handleTool,
+  successResult,
+  structuredResult,
+  errorResult,
+  getToolDefinitions,
+  isToolAllowed,
+  validateToolPolicy,
+  loadToolPolicy,
+  applyToolDefaults,
+  parseToolPolicy,
+  checkToolDefinitions,
+  type ToolPolicy,
+} from '../tools/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { RequestCancelledError, type MediagraphClient } from '../api/client.js';
+import type { OrganizationDirectory } from '../tools/shared.js';
+import { createMediagraphServer } from '../server.js';
 
 // Mock fs/promises
 vi.mock('node:fs/promises', () => ({
@@ -142,6 +160,10 @@ describe('Tool Definitions', () => {
     expect(toolDefinitions.length).toBeGreaterThan(0);
   });
 
+  it('should pass the definition checks used by doctor', () => {
+    expect(checkToolDefinitions()).toEqual([]);
+  });
+
   it('should have unique tool names', () => {
     const names = toolDefinitions.map(t => t.name);
     const uniqueNames = new Set(names);
@@ -161,6 +183,47 @@ describe('Tool Definitions', () => {
     }
   });
 
+  it('every tool should be classified with annotations', () => {
+    for (const tool of toolDefinitions) {
+      expect(tool.annotations, `${tool.name} is missing annotations`).toBeDefined();
+      expect(typeof tool.annotations.readOnlyHint, `${tool.name}.readOnlyHint`).toBe('boolean');
+      expect(typeof tool.annotations.destructiveHint, `${tool.name}.destructiveHint`).toBe('boolean');
+      expect(typeof tool.annotations.idempotentHint, `${tool.name}.idempotentHint`).toBe('boolean');
+      expect(typeof tool.annotations.openWorldHint, `${tool.name}.openWorldHint`).toBe('boolean');
+    }
+  });
+
+  it('should not mark read-only tools as destructive', () => {
+    for (const tool of toolDefinitions.filter(t => t.annotations.readOnlyHint)) {
+      expect(tool.annotations.destructiveHint, tool.name).toBe(false);
+    }
+  });
+
+  it('should classify tools consistently with their names', () => {
+    for (const tool of toolDefinitions) {
+      if (/^(get|list|search)_/.test(tool.name)) {
+        expect(tool.annotations.readOnlyHint, tool.name).toBe(true);
+      }
+      if (tool.name.startsWith('delete_')) {
+        expect(tool.annotations.destructiveHint, tool.name).toBe(true);
+      }
+    }
+    // Overwrite data or change access without a delete_ name
+    for (const name of ['create_bulk_job', 'revert_asset', 'update_membership']) {
+      expect(toolDefinitions.find(t => t.name === name)?.annotations.destructiveHint, name).toBe(true);
+    }
+  });
+
+  it('should declare object output schemas for structured tools', () => {
+    const structured = toolDefinitions.filter(t => t.outputSchema);
+    expect(structured.map(t => t.name)).toEqual(expect.arrayContaining([
+      'search_assets', 'search_assets_visual', 'get_asset', 'whoami', 'list_collections', 'get_bulk_job',
+    ]));
+    for (const tool of structured) {
+      expect(tool.outputSchema?.type, tool.name).toBe('object');
+    }
+  });
+
   it('should include key tools', () => {
     const toolNames = toolDefinitions.map(t => t.name);
 
@@ -202,20 +265,31 @@ describe('Tool Handlers', () => {
       expect(result.isError).toBeFalsy();
       expect(result.content).toHaveLength(1);
       expect(result.content[0].type).toBe('text');
+      expect(result.content[0].text).toContain('Signed in as');
 
-      const data = JSON.parse(result.content[0].text);
+      const data = result.structuredContent!;
       expect(data.user).toBeDefined();
       expect(data.organization).toBeDefined();
       expect(data.membership).toBeDefined();
     });
   });
 
+  describe('client_stats', () => {
+    it('should return the client request counters', async () => {
+      const getStats = vi.fn().mockReturnValue({ requests: 12, throttled: 1, in_flight: 0 });
+      const result = await handleTool('client_stats', {}, { client: createMockClient({ getStats }) });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('"throttled": 1');
+    });
+  });
+
   describe('search_assets', () => {
     it('should search assets', async () => {
       const result = await handleTool('search_assets', { q: 'test' }, { client: mockClient });
 
       expect(result.isError).toBeFalsy();
-      const data = JSON.parse(result.content[0].text);
+      const data = result.structuredContent!;
       expect(data.assets).toBeDefined();
       expect(data.total).toBeDefined();
     });
@@ -244,9 +318,12 @@ describe('Tool Handlers', () => {
       const result = await handleTool('get_asset', { id: 123 }, { client: mockClient });
 
       expect(result.isError).toBeFalsy();
-      const data = JSON.parse(result.content[0].text);
+      const data = result.structuredContent!;
       expect(data.id).toBe(1);
       expect(data.guid).toBe('abc123');
+      // Hosts that only pass text to the model still get every field
+      expect(result.content[0].text).toMatch(/^Asset test\.jpg \(#1\)\n\n/);
+      expect(JSON.parse(result.content[0].text!.split('\n\n')[1])).toEqual(data);
     });
   });
 
@@ -332,6 +409,41 @@ describe('Tool Handlers', () => {
       expect(data.results[1].success).toBe(true);
     });
 
+    it('should report progress for each file', async () => {
+      const reportProgress = vi.fn().mockResolvedValue(undefined);
+      await handleTool('upload_files', {
+        file_paths: ['/path/to/test1.jpg', '/path/to/test2.png'],
+      }, { client: mockClient, reportProgress });
+
+      expect(reportProgress).toHaveBeenCalledTimes(2);
+      expect(reportProgress).toHaveBeenNthCalledWith(1, 1, 2, 'Uploaded test1.jpg (1/2)');
+      expect(reportProgress).toHaveBeenNthCalledWith(2, 2, 2, 'Uploaded test2.png (2/2)');
+    });
+
+    it('should report partial results when cancelled', async () => {
+      const controller = new AbortController();
+      mockClient = createMockClient({
+        uploadToSignedUrl: vi.fn()
+          .mockResolvedValueOnce(undefined)
+          .mockImplementationOnce(async () => {
+            controller.abort();
+            throw new RequestCancelledError();
+          }),
+      });
+      (mockClient as unknown as { withSignal: unknown }).withSignal = () => mockClient;
+
+      const result = await handleTool('upload_files', {
+        file_paths: ['/path/to/test1.jpg', '/path/to/test2.png', '/path/to/test3.png'],
+      }, { client: mockClient, signal: controller.signal });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.cancelled).toBe(true);
+      expect(data.message).toContain('Cancelled after uploading 1 of 3 files');
+      expect(data.results).toHaveLength(1);
+      expect(data.not_uploaded).toEqual(['/path/to/test2.png', '/path/to/test3.png']);
+      expect(mockClient.setUploadDone).not.toHaveBeenCalled();
+    });
+
     it('should return error when no files provided', async () => {
       const result = await handleTool('upload_files', {
         file_paths: [],
@@ -342,6 +454,128 @@ describe('Tool Handlers', () => {
     });
   });
 
+  describe('create_bulk_job', () => {
+    it('should return immediately by default', async () => {
+      const result = await handleTool('create_bulk_job', { asset_ids: [1, 2] }, { client: mockClient });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent?.status).toBe('pending');
+      expect(mockClient.getBulkJob).not.toHaveBeenCalled();
+    });
+
+    it('should poll until the job finishes when waiting for completion', async () => {
+      vi.useFakeTimers();
+      try {
+        mockClient = createMockClient({
+          getBulkJob: vi.fn()
+            .mockResolvedValueOnce({ id: 1, status: 'processing', total_count: 10, processed_count: 4 })
+            .mockResolvedValueOnce({ id: 1, status: 'completed', total_count: 10, processed_count: 10 }),
+        });
+        const reportProgress = vi.fn().mockResolvedValue(undefined);
+
+        const pending = handleTool('create_bulk_job', {
+          asset_ids: [1, 2],
+          tag_names: ['nature'],
+          wait_for_completion: true,
+        }, { client: mockClient, reportProgress });
+        await vi.advanceTimersByTimeAsync(5000);
+        const result = await pending;
+
+        expect(mockClient.createBulkJob).toHaveBeenCalledWith({ asset_ids: [1, 2], tag_names: ['nature'] });
+        expect(mockClient.getBulkJob).toHaveBeenCalledTimes(2);
+        expect(reportProgress.mock.calls.map(call => call[0])).toEqual([0, 4, 10]);
+        expect(result.structuredContent?.status).toBe('completed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('destructive tool confirmation', () => {
+    it('should require confirm when the host cannot elicit', async () => {
+      const result = await handleTool('delete_asset', { id: 1 }, { client: mockClient });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Confirmation required');
+      expect(result.content[0].text).toContain('test.jpg (#1)');
+      expect(mockClient.deleteAsset).not.toHaveBeenCalled();
+    });
+
+    it('should delete once confirm is set', async () => {
+      const result = await handleTool('delete_asset', { id: 1, confirm: true }, { client: mockClient });
+
+      expect(result.isError).toBeFalsy();
+      expect(mockClient.deleteAsset).toHaveBeenCalledWith(1);
+    });
+
+    it('should ask the user with the collection name and asset count', async () => {
+      mockClient = createMockClient({
+        getCollection: vi.fn().mockResolvedValue({ id: 7, name: 'Client Finals', visible_assets_count: 42, has_children: false }),
+      });
+      const confirm = vi.fn().mockResolvedValue(true);
+
+      const result = await handleTool('delete_collection', { id: 7 }, { client: mockClient, confirm });
+
+      expect(confirm.mock.calls[0][0]).toContain('"Client Finals" (#7, 42 assets)');
+      expect(result.isError).toBeFalsy();
+      expect(mockClient.deleteCollection).toHaveBeenCalledWith(7);
+    });
+
+    it('should not let the model confirm when the user declines', async () => {
+      const confirm = vi.fn().mockResolvedValue(false);
+
+      const result = await handleTool('delete_share_link', { id: 1, confirm: true }, { client: mockClient, confirm });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('Nothing was changed');
+      expect(mockClient.deleteShareLink).not.toHaveBeenCalled();
+    });
+
+    it('should report a declined confirmation as an error on tools with an output schema', async () => {
+      const confirm = vi.fn().mockResolvedValue(false);
+
+      const result = await handleTool('create_bulk_job', { asset_ids: [1, 2], destroy_all: true }, { client: mockClient, confirm });
+
+      // Clients reject a successful result without structured content from these tools
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Nothing was changed');
+      expect(mockClient.createBulkJob).not.toHaveBeenCalled();
+    });
+
+    it('should fail without asking when the ID does not exist', async () => {
+      mockClient = createMockClient({ getAsset: vi.fn().mockRejectedValue(new Error('Not found')) });
+      const confirm = vi.fn().mockResolvedValue(true);
+
+      const result = await handleTool('delete_asset', { id: 999 }, { client: mockClient, confirm });
+
+      expect(result.isError).toBe(true);
+      expect(confirm).not.toHaveBeenCalled();
+      expect(mockClient.deleteAsset).not.toHaveBeenCalled();
+    });
+
+    it('should name personal access tokens', async () => {
+      mockClient = createMockClient({
+        listPersonalAccessTokens: vi.fn().mockResolvedValue([{ id: 3, name: 'CI upload', created_at: '2024-01-01' }]),
+      });
+
+      const result = await handleTool('delete_personal_access_token', { id: 3 }, { client: mockClient });
+
+      expect(result.content[0].text).toContain('"CI upload" (#3, never used)');
+      expect(mockClient.deletePersonalAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should confirm bulk jobs that destroy assets', async () => {
+      const result = await handleTool('create_bulk_job', { asset_ids: [1, 2, 3], destroy_all: true }, { client: mockClient });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Move 3 assets to the trash');
+      expect(mockClient.createBulkJob).not.toHaveBeenCalled();
+
+      await handleTool('create_bulk_job', { asset_ids: [1, 2, 3], destroy_all: true, confirm: true }, { client: mockClient });
+      expect(mockClient.createBulkJob).toHaveBeenCalledWith({ asset_ids: [1, 2, 3], destroy_all: true });
+    });
+  });
+
   describe('reauthorize', () => {
     it('should call reauthorize callback and return success', async () => {
       const reauthorize = vi.fn().mockResolvedValue({
@@ -368,6 +602,26 @@ describe('Tool Handlers', () => {
       expect(result.content[0].text).toContain('Re-authorization failed');
     });
 
+    it('should explain why reauthorize is not possible', async () => {
+      const reauthorize = vi.fn().mockResolvedValue({ success: false, message: 'Set MEDIAGRAPH_ACCESS_TOKEN instead.' });
+
+      const result = await handleTool('reauthorize', {}, { client: mockClient, reauthorize });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Set MEDIAGRAPH_ACCESS_TOKEN instead.');
+    });
+
+    it('should show sign-in instructions while a device code sign-in is pending', async () => {
+      const reauthorize = vi.fn().mockResolvedValue({ success: false, pending: true, message: 'Open https://mediagraph.io/device and enter ABCD-EFGH.' });
+      const promptSignIn = vi.fn();
+
+      const result = await handleTool('reauthorize', {}, { client: mockClient, reauthorize, promptSignIn });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('ABCD-EFGH');
+      expect(reauthorize).toHaveBeenCalledWith(promptSignIn);
+    });
+
     it('should return error when reauthorize callback is not available', async () => {
       const result = await handleTool('reauthorize', {}, { client: mockClient });
 
@@ -397,6 +651,364 @@ describe('Tool Handlers', () => {
   });
 });
 
+describe('Tool Policy', () => {
+  // Contractors: search and download, nothing destructive, no tokens
+  const contractorPolicy: ToolPolicy = {
+    modules: ['assets', 'downloads', 'admin'],
+    readOnly: true,
+    denyTools: ['list_personal_access_tokens'],
+  };
+
+  it('should expose every tool without a policy', () => {
+    expect(getToolDefinitions()).toEqual(toolDefinitions);
+    expect(getToolDefinitions({})).toHaveLength(toolDefinitions.length);
+  });
+
+  it('should only list read-only tools from enabled modules', () => {
+    const names = getToolDefinitions(contractorPolicy).map(t => t.name);
+
+    expect(names).toContain('search_assets');
+    expect(names).toContain('get_asset_download');
+    expect(names).not.toContain('delete_asset');
+    expect(names).not.toContain('update_asset');
+    expect(names).not.toContain('create_personal_access_token');
+    expect(names).not.toContain('list_collections');
+    const sessionTools = ['reauthorize', 'switch_organization'];
+    expect(getToolDefinitions(contractorPolicy).every(t => t.annotations.readOnlyHint || sessionTools.includes(t.name))).toBe(true);
+  });
+
+  it('should deny listed tools even when their module is enabled', () => {
+    expect(isToolAllowed('list_personal_access_tokens', contractorPolicy)).toBe(false);
+    expect(isToolAllowed('list_user_groups', contractorPolicy)).toBe(true);
+  });
+
+  it('should keep reauthorize available unless denied', () => {
+    expect(isToolAllowed('reauthorize', contractorPolicy)).toBe(true);
+    expect(isToolAllowed('reauthorize', { denyTools: ['reauthorize'] })).toBe(false);
+  });
+
+  it('should reject calls to tools outside the policy', async () => {
+    const client = createMockClient();
+    const result = await handleTool('delete_asset', { id: 1 }, { client, policy: contractorPolicy });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('disabled');
+    expect(client.deleteAsset).not.toHaveBeenCalled();
+  });
+
+  it('should allow calls to tools inside the policy', async () => {
+    const client = createMockClient();
+    const result = await handleTool('search_assets', { q: 'test' }, { client, policy: contractorPolicy });
+
+    expect(result.isError).toBeFalsy();
+  });
+
+  it('should reject unknown module and tool names', () => {
+    expect(() => validateToolPolicy(contractorPolicy)).not.toThrow();
+    expect(() => validateToolPolicy({ modules: ['asset'] })).toThrow('Unknown tool module');
+    expect(() => validateToolPolicy({ denyTools: ['delete_assets'] })).toThrow('Unknown tool');
+  });
+
+  it('should read the policy from environment variables', () => {
+    const policy = loadToolPolicy({
+      MEDIAGRAPH_TOOL_MODULES: 'assets, downloads',
+      MEDIAGRAPH_READ_ONLY: 'true',
+      MEDIAGRAPH_DENY_TOOLS: 'bulk_download_assets',
+    });
+
+    expect(policy).toEqual({ modules: ['assets', 'downloads'], readOnly: true, denyTools: ['bulk_download_assets'] });
+  });
+
+  it('should parse and validate policy files', () => {
+    expect(parseToolPolicy('{"readOnly":true,"denyTools":["delete_asset"]}')).toEqual({
+      modules: undefined,
+      readOnly: true,
+      denyTools: ['delete_asset'],
+    });
+    expect(() => parseToolPolicy('{"modules":"assets"}')).toThrow('"modules" must be an array');
+    expect(() => parseToolPolicy('not json')).toThrow('Invalid tool policy');
+  });
+});
+
+describe('Role-aware tools', () => {
+  it('should list every tool until the role is known and for admins', () => {
+    expect(getToolDefinitions(undefined, undefined)).toHaveLength(toolDefinitions.length);
+    expect(getToolDefinitions(undefined, 'admin')).toHaveLength(toolDefinitions.length);
+  });
+
+  it('should hide admin-only tools from other roles', () => {
+    const names = getToolDefinitions(undefined, 'general').map(t => t.name);
+
+    expect(names).not.toContain('create_invite');
+    expect(names).not.toContain('create_webhook');
+    expect(names).toContain('update_asset');
+    expect(names).toContain('list_user_groups');
+  });
+
+  it('should only give restricted members read-only tools and downloads', () => {
+    const names = getToolDefinitions(undefined, 'restricted').map(t => t.name);
+
+    expect(names).toContain('search_assets');
+    expect(names).toContain('create_download');
+    expect(names).toContain('submit_access_request');
+    expect(names).toContain('reauthorize');
+    expect(names).not.toContain('update_asset');
+    expect(names).not.toContain('list_webhooks');
+  });
+
+  it('should combine the role with the tool policy', () => {
+    const names = getToolDefinitions({ modules: ['assets', 'admin'] }, 'global_content').map(t => t.name);
+
+    expect(names).toContain('update_asset');
+    expect(names).not.toContain('create_invite');
+    expect(names).not.toContain('list_collections');
+  });
+
+  it('should reject calls the role does not allow', async () => {
+    const client = createMockClient();
+    const result = await handleTool('create_invite', { email: 'a@example.com' }, { client, role: 'general' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('general role');
+  });
+});
+
+describe('Multiple organizations', () => {
+  function createDirectory(otherClient: MediagraphClient): OrganizationDirectory {
+    return {
+      list: vi.fn().mockResolvedValue([
+        { slug: 'agency', name: 'Agency', active: true },
+        { slug: 'client-co', name: 'Client Co', active: false },
+      ]),
+      switch: vi.fn().mockResolvedValue({ slug: 'client-co', name: 'Client Co', active: true }),
+      clientFor: vi.fn((slug: string) => {
+        if (slug !== 'client-co') throw new Error(`Not signed in to organization "${slug}"`);
+        return otherClient;
+      }),
+    };
+  }
+
+  it('should add an organization argument to every API tool', () => {
+    const definitions = getToolDefinitions(undefined, undefined, true);
+    const search = definitions.find(t => t.name === 'search_assets')!;
+    const switchTool = definitions.find(t => t.name === 'switch_organization')!;
+
+    expect(search.inputSchema.properties.organization).toBeDefined();
+    expect(switchTool.inputSchema.required).toEqual(['organization']);
+    expect(definitions.find(t => t.name === 'reauthorize')!.inputSchema.properties.organization).toBeUndefined();
+  });
+
+  it('should not offer an organization argument with a single organization', () => {
+    expect(getToolDefinitions().find(t => t.name === 'search_assets')!.inputSchema.properties.organization).toBeUndefined();
+  });
+
+  it('should route a call to another organization and label the result', async () => {
+    const activeClient = createMockClient();
+    const otherClient = createMockClient();
+    const organizations = createDirectory(otherClient);
+
+    const result = await handleTool(
+      'search_assets',
+      { q: 'logo', organization: 'client-co' },
+      { client: activeClient, organizationSlug: 'agency', organizations },
+    );
+
+    expect(otherClient.searchAssets).toHaveBeenCalledWith(expect.not.objectContaining({ organization: 'client-co' }));
+    expect(activeClient.searchAssets).not.toHaveBeenCalled();
+    expect(result.content[result.content.length - 1].text).toBe('Organization: client-co');
+  });
+
+  it('should label results from the active organization', async () => {
+    const organizations = createDirectory(createMockClient());
+    const result = await handleTool('search_assets', { q: 'logo' }, { client: createMockClient(), organizationSlug: 'agency', organizations });
+
+    expect(result.content[result.content.length - 1].text).toBe('Organization: agency');
+  });
+
+  it('should not label results with a single organization', async () => {
+    const result = await handleTool('search_assets', { q: 'logo' }, { client: createMockClient(), organizationSlug: 'agency' });
+
+    expect(result.content.some(block => block.text.startsWith('Organization:'))).toBe(false);
+  });
+
+  it('should reject organizations without stored credentials', async () => {
+    const organizations = createDirectory(createMockClient());
+
+    const result = await handleTool('search_assets', { organization: 'unknown' }, { client: createMockClient(), organizations });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Not signed in to organization "unknown"');
+  });
+
+  it('should reject the organization argument without a directory', async () => {
+    const result = await handleTool('search_assets', { organization: 'client-co' }, { client: createMockClient() });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('single organization');
+  });
+
+  it('should list and switch organizations', async () => {
+    const organizations = createDirectory(createMockClient());
+    const context = { client: createMockClient(), organizationSlug: 'agency', organizations };
+
+    const list = await handleTool('list_organizations', {}, context);
+    expect(list.structuredContent?.organizations).toHaveLength(2);
+    expect(list.content[0].text).toContain('Agency (agency) [active]');
+
+    const switched = await handleTool('switch_organization', { organization: 'client-co' }, context);
+    expect(organizations.switch).toHaveBeenCalledWith('client-co');
+    expect(switched.content[0].text).toContain('Switched to Client Co (client-co)');
+  });
+});
+
+describe('Tool defaults', () => {
+  const defaults = { per_page: 50, download_size: 'full', watermark: true };
+
+  it('should fill in arguments the tool accepts', () => {
+    expect(applyToolDefaults('search_assets', { q: 'logo' }, defaults)).toEqual({ q: 'logo', per_page: 50 });
+    expect(applyToolDefaults('get_asset_download', { id: 1 }, defaults)).toEqual({ id: 1, size: 'full', watermarked: true });
+  });
+
+  it('should keep explicit arguments', () => {
+    expect(applyToolDefaults('search_assets', { per_page: 10 }, defaults)).toEqual({ per_page: 10 });
+    expect(applyToolDefaults('get_asset_download', { id: 1, watermarked: false }, defaults).watermarked).toBe(false);
+  });
+
+  it('should skip sizes the tool does not offer', () => {
+    expect(applyToolDefaults('create_download', { asset_ids: [1] }, { download_size: 'permalink' })).toEqual({ asset_ids: [1] });
+  });
+
+  it('should pass defaults to handlers', async () => {
+    const client = createMockClient();
+    await handleTool('search_assets', { q: 'logo' }, { client, defaults });
+
+    expect(client.searchAssets).toHaveBeenCalledWith(expect.objectContaining({ per_page: 50 }));
+  });
+});
+
+describe('Dry runs', () => {
+  it('should only offer dry_run on tools that change something', () => {
+    const dryRunTools = toolDefinitions.filter(definition => 'dry_run' in definition.inputSchema.properties);
+    expect(dryRunTools.map(definition => definition.name)).toEqual(expect.arrayContaining([
+      'update_asset', 'delete_asset', 'create_bulk_job', 'merge_tags', 'create_share_link', 'upload_files',
+    ]));
+    expect(dryRunTools.filter(definition => definition.annotations.readOnlyHint)).toEqual([]);
+  });
+
+  it('should list the fields update_asset would change', async () => {
+    const client = createMockClient({
+      getAsset: vi.fn().mockResolvedValue({ id: 1, filename: 'test.jpg', title: 'Old', rating: 3 }),
+    });
+
+    const result = await handleTool('update_asset', { id: 1, title: 'New', rating: 3, dry_run: true }, { client });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toContain('Dry run: would change 1 field on asset test.jpg (#1)');
+    expect(result.content[0].text).toContain('"from": "Old"');
+    expect(result.content[0].text).not.toContain('rating');
+    expect(client.updateAsset).not.toHaveBeenCalled();
+  });
+
+  it('should compare against the tag objects on the asset', async () => {
+    const client = createMockClient({
+      getAsset: vi.fn().mockResolvedValue({ id: 1, filename: 'test.jpg', tags: [{ id: 7, name: 'Logo' }] }),
+    });
+
+    const result = await handleTool('add_tags_to_asset', { id: 1, tags: ['logo', 'new'], dry_run: true }, { client });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toContain('would add 1 tag to asset test.jpg (#1)');
+    expect(result.structuredContent).toMatchObject({ dry_run: true, details: { added: ['new'], already_tagged: ['logo'] } });
+    expect(client.addTagsToAsset).not.toHaveBeenCalled();
+  });
+
+  it('should count the assets a bulk job would touch without asking to confirm', async () => {
+    const client = createMockClient({
+      searchAssets: vi.fn().mockResolvedValue({ assets: [], total: 2, page: 1, per_page: 1, total_pages: 2 }),
+    });
+    const confirm = vi.fn().mockResolvedValue(true);
+
+    const result = await handleTool('create_bulk_job', { asset_ids: [1, 2, 3], destroy_all: true, dry_run: true }, { client, confirm });
+
+    expect(result.content[0].text).toContain('would run a bulk job on 2 of 3 assets (1 not found)');
+    expect(result.content[0].text).toContain('move to the trash');
+    expect(client.searchAssets).toHaveBeenCalledWith({ ids: [1, 2, 3], per_page: 1 });
+    expect(confirm).not.toHaveBeenCalled();
+    expect(client.createBulkJob).not.toHaveBeenCalled();
+  });
+
+  it('should check files without uploading them', async () => {
+    const client = createMockClient();
+
+    const result = await handleTool('upload_files', { file_paths: ['/tmp/a.jpg', '/tmp/b.jpg'], dry_run: true }, { client });
+
+    expect(result.content[0].text).toContain('would upload 2 of 2 files (2000 bytes) to the default storage folder');
+    expect(client.createUpload).not.toHaveBeenCalled();
+  });
+
+  it('should refuse changes that cannot be previewed in dry-run mode', async () => {
+    const client = createMockClient();
+
+    const refused = await handleTool('create_collection', { name: 'New' }, { client, dryRun: true });
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].text).toContain('does not support dry runs');
+    expect(client.createCollection).not.toHaveBeenCalled();
+
+    // The model can't opt out of dry-run mode
+    await handleTool('delete_tag', { id: 1, dry_run: false }, { client, dryRun: true });
+    expect(client.deleteTag).not.toHaveBeenCalled();
+
+    const read = await handleTool('get_collection', { id: 1 }, { client, dryRun: true });
+    expect(read.isError).toBeFalsy();
+  });
+
+  it('should return previews that MCP clients accept for tools with an output schema', async () => {
+    const client = createMockClient({
+      getAsset: vi.fn().mockResolvedValue({ id: 1, filename: 'test.jpg', title: 'Old', tags: [{ id: 7, name: 'Logo' }] }),
+      searchAssets: vi.fn().mockResolvedValue({ assets: [], total: 2, page: 1, per_page: 1, total_pages: 2 }),
+    });
+    (client as unknown as { withSignal: unknown }).withSignal = () => client;
+    const server = createMediagraphServer({
+      client,
+      auth: {
+        getAccessToken: async () => 'token',
+        authenticate: async () => ({ success: true, token: 'token' }),
+        getOrganizationSlug: async () => 'test-org',
+      },
+    });
+    const mcpClient = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    try {
+      // The client validates structured content against the schemas it listed
+      await mcpClient.listTools();
+      const calls = [
+        { name: 'update_asset', arguments: { id: 1, title: 'New', dry_run: true } },
+        { name: 'add_tags_to_asset', arguments: { id: 1, tags: ['new'], dry_run: true } },
+        { name: 'create_bulk_job', arguments: { asset_ids: [1, 2, 3], destroy_all: true, dry_run: true } },
+      ];
+      for (const call of calls) {
+        const result = await mcpClient.callTool(call);
+        expect(result.isError).toBeFalsy();
+        expect(result.structuredContent).toMatchObject({ dry_run: true });
+      }
+      expect(client.updateAsset).not.toHaveBeenCalled();
+      expect(client.createBulkJob).not.toHaveBeenCalled();
+    } finally {
+      await mcpClient.close();
+    }
+  });
+
+  it('should not send dry_run to the API', async () => {
+    const client = createMockClient();
+
+    await handleTool('update_asset', { id: 1, title: 'New', dry_run: false }, { client });
+
+    expect(client.updateAsset).toHaveBeenCalledWith(1, { title: 'New' });
+  });
+});
+
 describe('Result Helpers', () => {
   it('successResult should format string data', () => {
     const result = successResult('test message');
@@ -410,6 +1022,13 @@ describe('Result Helpers', () => {
     expect(JSON.parse(result.content[0].text)).toEqual({ key: 'value' });
   });
 
+  it('structuredResult should pair data with a text summary', () => {
+    const result = structuredResult({ id: 1 }, 'Asset #1');
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toBe('Asset #1\n\n{\n  "id": 1\n}');
+    expect(result.structuredContent).toEqual({ id: 1 });
+  });
+
   it('errorResult should set isError flag', () => {
     const result = errorResult('Something went wrong');
     expect(result.isError).toBe(true);
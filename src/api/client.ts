@@ -53,10 +53,24 @@ import type {
   ApiError,
   PaginationParams,
 } from './types.js';
+import { RateLimiter, type RateLimiterStats } from './rate-limiter.js';
+import { RequestCancelledError, sleep } from './cancellation.js';
+
+export { RequestCancelledError };
 
 export interface MediagraphClientConfig {
   apiUrl?: string;
   getAccessToken: () => Promise<string | null>;
+  /**
+   * Get a new token after the API rejected the given one with a 401. The
+   * request is replayed once with the new token.
+   */
+  refreshAccessToken?: (rejectedToken: string) => Promise<string | null>;
+  /**
+   * Limits on request rate and concurrency; pass one limiter to several
+   * clients to share them (default: a limiter of the client's own)
+   */
+  rateLimiter?: RateLimiter;
 }
 
 export class MediagraphApiError extends Error {
@@ -72,12 +86,49 @@ export class MediagraphApiError extends Error {
 export class MediagraphClient {
   private apiUrl: string;
   private getAccessToken: () => Promise<string | null>;
+  private refreshAccessToken?: (rejectedToken: string) => Promise<string | null>;
   private maxRetries = 3;
   private retryDelay = 1000;
+  private signal?: AbortSignal;
+  private rateLimiter: RateLimiter;
 
   constructor(config: MediagraphClientConfig) {
     this.apiUrl = config.apiUrl || 'https://api.mediagraph.io';
     this.getAccessToken = config.getAccessToken;
+    this.refreshAccessToken = config.refreshAccessToken;
+    this.rateLimiter = config.rateLimiter || new RateLimiter();
+  }
+
+  /**
+   * Request counts, waits and the API's rate limit headers, shared with the
+   * scoped views of this client
+   */
+  getStats(): RateLimiterStats {
+    return this.rateLimiter.stats();
+  }
+
+  /**
+   * Return a view of this client whose requests, uploads and retry backoffs
+   * are aborted with the given signal. The original client is unaffected.
+   */
+  withSignal(signal: AbortSignal): MediagraphClient {
+    const scoped = Object.create(this) as MediagraphClient;
+    scoped.signal = signal;
+    return scoped;
+  }
+
+  /**
+   * Return a view of this client that authenticates with different
+   * credentials (e.g. another organization's token)
+   */
+  withAccessToken(
+    getAccessToken: () => Promise<string | null>,
+    refreshAccessToken?: (rejectedToken: string) => Promise<string | null>,
+  ): MediagraphClient {
+    const scoped = Object.create(this) as MediagraphClient;
+    scoped.getAccessToken = getAccessToken;
+    scoped.refreshAccessToken = refreshAccessToken;
+    return scoped;
   }
 
   private async request<T>(
@@ -88,7 +139,7 @@ export class MediagraphClient {
       body?: unknown;
     } = {},
   ): Promise<T> {
-    const token = await this.getAccessToken();
+    let token = await this.getAccessToken();
     if (!token) {
       throw new Error('Not authenticated. Please authorize with Mediagraph first.');
     }
@@ -114,82 +165,106 @@ export class MediagraphClient {
     }
 
     let lastError: Error | null = null;
+    let refreshed = false;
 
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      this.throwIfCancelled();
       try {
-        const headers: Record<string, string> = {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-        };
-
-        const fetchOptions: RequestInit = {
-          method,
-          headers,
-        };
-
-        if (options.body && method !== 'GET') {
-          fetchOptions.body = JSON.stringify(options.body);
-        } else if (options.params && method !== 'GET') {
-          fetchOptions.body = JSON.stringify(options.params);
-        }
+        // Waits for the rate limit; the slot is given back before any retry backoff
+        const release = await this.rateLimiter.acquire(this.signal);
+        try {
+          const headers: Record<string, string> = {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+          };
+
+          const fetchOptions: RequestInit = {
+            method,
+            headers,
+            signal: this.signal,
+          };
+
+          if (options.body && method !== 'GET') {
+            fetchOptions.body = JSON.stringify(options.body);
+          } else if (options.params && method !== 'GET') {
+            fetchOptions.body = JSON.stringify(options.params);
+          }
 
-        const response = await fetch(url, fetchOptions);
+          const response = await fetch(url, fetchOptions);
+          this.rateLimiter.update(response.headers);
+
+          if (response.status === 401) {
+            // The token may have been revoked or expired early; refresh once and replay
+            if (!refreshed && this.refreshAccessToken) {
+              refreshed = true;
+              const newToken = await this.refreshAccessToken(token);
+              if (newToken && newToken !== token) {
+                token = newToken;
+                // Replaying with the new token doesn't use up a retry
+                attempt--;
+                continue;
+              }
+            }
+            throw new MediagraphApiError(401, {
+              error: 'unauthorized',
+              message: 'Access token expired or invalid. Please re-authorize.',
+            });
+          }
 
-        if (response.status === 401) {
-          throw new MediagraphApiError(401, {
-            error: 'unauthorized',
-            message: 'Access token expired or invalid. Please re-authorize.',
-          });
-        }
+          if (response.status === 403) {
+            throw new MediagraphApiError(403, {
+              error: 'forbidden',
+              message: 'You do not have permission to perform this action.',
+            });
+          }
 
-        if (response.status === 403) {
-          throw new MediagraphApiError(403, {
-            error: 'forbidden',
-            message: 'You do not have permission to perform this action.',
-          });
-        }
+          if (response.status === 404) {
+            throw new MediagraphApiError(404, {
+              error: 'not_found',
+              message: 'The requested resource was not found.',
+            });
+          }
 
-        if (response.status === 404) {
-          throw new MediagraphApiError(404, {
-            error: 'not_found',
-            message: 'The requested resource was not found.',
-          });
-        }
+          if (response.status === 429) {
+            // Every request waits, not just this one; the next attempt's acquire does the waiting
+            const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+            this.rateLimiter.throttled(Number.isNaN(retryAfter) ? this.retryDelay * Math.pow(2, attempt) : retryAfter * 1000);
+            continue;
+          }
 
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const delay = retryAfter ? parseInt(retryAfter, 10) * 1000 : this.retryDelay * Math.pow(2, attempt);
-          await this.sleep(delay);
-          continue;
-        }
+          if (!response.ok) {
+            let errorBody: ApiError;
+            try {
+              errorBody = (await response.json()) as ApiError;
+            } catch {
+              errorBody = { error: 'unknown_error', message: response.statusText };
+            }
+            throw new MediagraphApiError(response.status, errorBody);
+          }
 
-        if (!response.ok) {
-          let errorBody: ApiError;
-          try {
-            errorBody = (await response.json()) as ApiError;
-          } catch {
-            errorBody = { error: 'unknown_error', message: response.statusText };
+          const contentType = response.headers.get('Content-Type');
+          if (!contentType?.includes('application/json')) {
+            return {} as T;
           }
-          throw new MediagraphApiError(response.status, errorBody);
-        }
 
-        const contentType = response.headers.get('Content-Type');
-        if (!contentType?.includes('application/json')) {
-          return {} as T;
+          const data = await response.json();
+          return data as T;
+        } finally {
+          release();
         }
-
-        const data = await response.json();
-        return data as T;
       } catch (error) {
         lastError = error as Error;
 
+        // Never retry a cancelled request
+        this.throwIfCancelled();
+
         if (error instanceof MediagraphApiError && [401, 403, 404].includes(error.statusCode)) {
           throw error;
         }
 
         if (attempt < this.maxRetries - 1) {
-          await this.sleep(this.retryDelay * Math.pow(2, attempt));
+          await sleep(this.retryDelay * Math.pow(2, attempt), this.signal);
           continue;
         }
       }
@@ -198,8 +273,10 @@ export class MediagraphClient {
     throw lastError || new Error('Request failed after retries');
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
   }
 
   // ============================================================================
@@ -316,8 +393,11 @@ export class MediagraphClient {
     return this.request<Asset[]>('GET', '/api/assets/popular', { params });
   }
 
-  async getUpdatedAssetsSinceLastSync(params?: { since?: string }): Promise<Asset[]> {
-    return this.request<Asset[]>('GET', '/api/assets/updated_since_last_sync', { params });
+  /**
+   * IDs of assets whose updated_at is newer than their last external sync
+   */
+  async getUpdatedAssetsSinceLastSync(params?: { created_via?: string; last_sync_at?: string; any_user?: boolean }): Promise<number[]> {
+    return this.request<number[]>('GET', '/api/assets/updated_since_last_sync', { params });
   }
 
   async addTagsToAsset(id: number | string, tags: string[]): Promise<Asset> {
@@ -923,13 +1003,21 @@ export class MediagraphClient {
    * Upload file data directly to a signed S3 URL
    */
   async uploadToSignedUrl(signedUrl: string, fileData: Buffer | Uint8Array, contentType: string): Promise<void> {
-    const response = await fetch(signedUrl, {
-      method: 'PUT',
-      body: fileData,
-      headers: {
-        'Content-Type': contentType,
-      },
-    });
+    this.throwIfCancelled();
+    let response: Response;
+    try {
+      response = await fetch(signedUrl, {
+        method: 'PUT',
+        body: fileData,
+        headers: {
+          'Content-Type': contentType,
+        },
+        signal: this.signal,
+      });
+    } catch (error) {
+      this.throwIfCancelled();
+      throw error;
+    }
 
     if (!response.ok) {
       throw new Error(`Failed to upload to S3: ${response.status} ${response.statusText}`);
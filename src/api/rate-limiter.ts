@@ -0,0 +1,234 @@
+/**
+ * Client-side rate limiting for Mediagraph API requests
+ *
+ * Every request takes a token from a token bucket (requestsPerSecond, with
+ * bursts of up to one second's worth) and holds one of maxConcurrency slots
+ * while it runs. Rate limit headers and 429s from the API pause the bucket, so
+ * parallel calls from uploads and bulk tools back off together instead of
+ * each finding out on its own.
+ */
+
+import { RequestCancelledError, sleep } from './cancellation.js';
+
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+export interface RateLimiterOptions {
+  /** Requests started per second, 0 for no limit */
+  requestsPerSecond?: number;
+  /** Requests in flight at once, 0 for no limit */
+  maxConcurrency?: number;
+}
+
+/** Anything with a case-insensitive get, like fetch's Headers */
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+export interface RateLimiterStats {
+  requests_per_second: number | null;
+  max_concurrency: number | null;
+  /** Requests started, retries included */
+  requests: number;
+  /** Requests that had to wait for a token or a slot */
+  delayed: number;
+  total_wait_ms: number;
+  /** 429 responses from the API */
+  throttled: number;
+  in_flight: number;
+  max_in_flight: number;
+  queued: number;
+  paused_until?: string;
+  /** Last rate limit headers the API sent */
+  server?: { limit?: number; remaining?: number; reset_at?: string };
+}
+
+// Reset values above this are Unix timestamps rather than seconds from now
+const EPOCH_THRESHOLD = 1e9;
+
+function parseHeaderNumber(headers: HeaderSource, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== '') {
+      const parsed = Number(value);
+      if (Number.isFinite(parsed)) return parsed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Counting semaphore; a released slot goes straight to the longest waiter
+ */
+export class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(readonly limit: number) {}
+
+  get inUse(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError());
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== grant);
+        reject(new RequestCancelledError());
+      };
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Token bucket plus concurrency limit, shared by a client and its scoped views
+ */
+export class RateLimiter {
+  readonly requestsPerSecond: number;
+  readonly maxConcurrency: number;
+  private slots: Semaphore | null;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private counters = { requests: 0, delayed: 0, totalWaitMs: 0, throttled: 0, inFlight: 0, maxInFlight: 0 };
+  private server?: RateLimiterStats['server'];
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    this.maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    this.slots = this.maxConcurrency > 0 ? new Semaphore(this.maxConcurrency) : null;
+    this.tokens = this.burst;
+  }
+
+  private get burst(): number {
+    return Math.max(1, this.requestsPerSecond);
+  }
+
+  /**
+   * Milliseconds until a request may start, 0 when one may start now
+   */
+  private delay(now: number): number {
+    const paused = Math.max(0, this.pausedUntil - now);
+    if (this.requestsPerSecond <= 0) return paused;
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.requestsPerSecond);
+    this.refilledAt = now;
+    const refill = this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    return Math.max(paused, refill);
+  }
+
+  /**
+   * Wait for a slot and a token. Call the returned function when the request
+   * is done; it rejects when the signal aborts while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    const started = Date.now();
+    let delayed = this.slots !== null && this.slots.inUse >= this.slots.limit;
+    await this.slots?.acquire(signal);
+    try {
+      for (let delay = this.delay(Date.now()); delay > 0; delay = this.delay(Date.now())) {
+        delayed = true;
+        await sleep(delay, signal);
+      }
+    } catch (error) {
+      this.slots?.release();
+      throw error;
+    }
+    if (this.requestsPerSecond > 0) this.tokens -= 1;
+
+    this.counters.requests++;
+    if (delayed) {
+      this.counters.delayed++;
+      this.counters.totalWaitMs += Date.now() - started;
+    }
+    this.counters.inFlight++;
+    this.counters.maxInFlight = Math.max(this.counters.maxInFlight, this.counters.inFlight);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.counters.inFlight--;
+      this.slots?.release();
+    };
+  }
+
+  /**
+   * Hold back every request for the given time
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * The API answered 429; everyone waits before the next attempt
+   */
+  throttled(retryAfterMs: number): void {
+    this.counters.throttled++;
+    this.pause(retryAfterMs);
+  }
+
+  /**
+   * Read X-RateLimit-* (or RateLimit-*) headers, and wait for the reset once
+   * the API says nothing is left
+   */
+  update(headers: HeaderSource): void {
+    const limit = parseHeaderNumber(headers, ['X-RateLimit-Limit', 'RateLimit-Limit']);
+    const remaining = parseHeaderNumber(headers, ['X-RateLimit-Remaining', 'RateLimit-Remaining']);
+    const reset = parseHeaderNumber(headers, ['X-RateLimit-Reset', 'RateLimit-Reset']);
+    if (limit === undefined && remaining === undefined && reset === undefined) return;
+
+    const now = Date.now();
+    const resetAt = reset === undefined ? undefined : reset > EPOCH_THRESHOLD ? reset * 1000 : now + reset * 1000;
+    this.server = {
+      limit,
+      remaining,
+      reset_at: resetAt === undefined ? undefined : new Date(resetAt).toISOString(),
+    };
+    if (remaining !== undefined && remaining <= 0 && resetAt !== undefined && resetAt > now) {
+      this.pause(resetAt - now);
+    }
+  }
+
+  stats(): RateLimiterStats {
+    return {
+      requests_per_second: this.requestsPerSecond > 0 ? this.requestsPerSecond : null,
+      max_concurrency: this.slots ? this.maxConcurrency : null,
+      requests: this.counters.requests,
+      delayed: this.counters.delayed,
+      total_wait_ms: this.counters.totalWaitMs,
+      throttled: this.counters.throttled,
+      in_flight: this.counters.inFlight,
+      max_in_flight: this.counters.maxInFlight,
+      queued: this.slots?.queued ?? 0,
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined,
+      server: this.server,
+    };
+  }
+}
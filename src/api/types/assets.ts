@@ -6,6 +6,7 @@ import type { User } from './users.js';
 import type { Collection, Lightbox, StorageFolder } from './groups.js';
 import type { RightsPackage } from './rights.js';
 import type { CustomMetaValue } from './meta.js';
+import type { Tag } from './tags.js';
 
 export interface Rendition {
   name: string;
@@ -205,7 +206,8 @@ export interface Asset {
   down_votes_count?: number;
 
   // Relations
-  tags?: string[];
+  // Tag objects from the API; the visual search returns names
+  tags?: (string | Pick<Tag, 'id' | 'name'>)[];
   renditions?: Rendition[];
   download_sizes?: string[];
   custom_meta_values?: CustomMetaValue[];
@@ -75,49 +75,45 @@ export default function App() {
       return;
     }
 
-    try {
-      const textContent = result.content?.find(c => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const data = JSON.parse((textContent as { text: string }).text);
-        console.log('[Mediagraph App] Parsed data:', {
-          hasAssets: !!data.assets,
-          assetCount: data.assets?.length,
-          hasId: !!data.id,
-        });
-        if (data.assets) {
-          setState(prev => ({
-            ...prev,
-            searchResponse: data,
-            isLoading: false,
-            error: null,
-            receivedData: true,
-          }));
-          console.log('[Mediagraph App] Gallery updated with', data.assets.length, 'assets');
-          console.log('[Mediagraph App] Organization slug:', data.organization_slug);
-        } else if (data.id) {
-          // Single asset response (from get_asset or update_asset)
-          const normalizedAsset = normalizeAssetTags(data);
-          setState(prev => ({
-            ...prev,
-            selectedAsset: normalizedAsset,
-            isLoading: false,
-            receivedData: true,
-          }));
-          console.log('[Mediagraph App] Asset detail loaded:', data.id);
-        } else {
-          console.warn('[Mediagraph App] Unexpected data structure:', Object.keys(data));
-        }
-      } else {
-        console.warn('[Mediagraph App] No text content in result:', result.content);
-      }
-    } catch (err) {
-      console.error('[Mediagraph App] Failed to parse tool result:', err);
+    const data = result.structuredContent as Partial<SearchResponse & Asset> | undefined;
+    if (!data) {
+      console.warn('[Mediagraph App] No structured content in result:', result.content);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        receivedData: true,
+        error: 'Failed to load search results',
+      }));
+      return;
+    }
+
+    console.log('[Mediagraph App] Structured data:', {
+      hasAssets: !!data.assets,
+      assetCount: data.assets?.length,
+      hasId: !!data.id,
+    });
+    if (data.assets) {
+      setState(prev => ({
+        ...prev,
+        searchResponse: data as SearchResponse,
+        isLoading: false,
+        error: null,
+        receivedData: true,
+      }));
+      console.log('[Mediagraph App] Gallery updated with', data.assets.length, 'assets');
+      console.log('[Mediagraph App] Organization slug:', data.organization_slug);
+    } else if (data.id) {
+      // Single asset response (from get_asset or update_asset)
+      const normalizedAsset = normalizeAssetTags(data as Asset);
       setState(prev => ({
         ...prev,
+        selectedAsset: normalizedAsset,
         isLoading: false,
         receivedData: true,
-        error: 'Failed to parse search results',
       }));
+      console.log('[Mediagraph App] Asset detail loaded:', data.id);
+    } else {
+      console.warn('[Mediagraph App] Unexpected data structure:', Object.keys(data));
     }
   }, []);
 
@@ -200,10 +196,8 @@ export default function App() {
         return;
       }
 
-      const textContent = result.content?.find(c => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const rawAsset = JSON.parse((textContent as { text: string }).text);
-        const fullAsset = normalizeAssetTags(rawAsset);
+      if (result.structuredContent) {
+        const fullAsset = normalizeAssetTags(result.structuredContent as unknown as Asset);
         setState(prev => ({
           ...prev,
           selectedAsset: fullAsset,
@@ -228,10 +222,8 @@ export default function App() {
 
       if (result.isError) return;
 
-      const textContent = result.content?.find(c => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const rawAsset = JSON.parse((textContent as { text: string }).text);
-        const updatedAsset = normalizeAssetTags(rawAsset);
+      if (result.structuredContent) {
+        const updatedAsset = normalizeAssetTags(result.structuredContent as unknown as Asset);
         setState(prev => ({
           ...prev,
           selectedAsset: updatedAsset,
@@ -270,9 +262,8 @@ export default function App() {
         return;
       }
 
-      const textContent = result.content?.find(c => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const data = JSON.parse((textContent as { text: string }).text);
+      if (result.structuredContent) {
+        const data = result.structuredContent as unknown as SearchResponse;
         setState(prev => ({
           ...prev,
           searchResponse: data,
@@ -192,15 +192,12 @@ export function DetailPanel({
         return;
       }
 
-      const textContent = result.content?.find((c) => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const data = JSON.parse((textContent as { text: string }).text);
-        if (data.url) {
-          console.log('[DetailPanel] Opening download URL:', data.url);
-          await app.openLink({ url: data.url });
-        } else {
-          console.error('[DetailPanel] No URL in response:', data);
-        }
+      const data = result.structuredContent as { url?: string } | undefined;
+      if (data?.url) {
+        console.log('[DetailPanel] Opening download URL:', data.url);
+        await app.openLink({ url: data.url });
+      } else {
+        console.error('[DetailPanel] No URL in response:', result);
       }
     } catch (err) {
       console.error('[DetailPanel] Failed to get download URL:', err);
@@ -146,13 +146,10 @@ export function Gallery({
         return;
       }
 
-      const textContent = result.content?.find((c) => c.type === 'text');
-      if (textContent && textContent.type === 'text') {
-        const data = JSON.parse((textContent as { text: string }).text);
-        if (data.url) {
-          await app.openLink({ url: data.url });
-          handleClearSelection();
-        }
+      const data = result.structuredContent as { url?: string } | undefined;
+      if (data?.url) {
+        await app.openLink({ url: data.url });
+        handleClearSelection();
       }
     } catch (err) {
       console.error('[Gallery] Failed to get bulk download URL:', err);
@@ -37,11 +37,9 @@ export function TagList({ tags, assetId, app, onUpdate }: TagListProps) {
       if (!result.isError) {
         setNewTag('');
         setIsAdding(false);
-        // Parse the response to get updated tags
-        const textContent = result.content?.find((c) => c.type === 'text');
-        if (textContent && textContent.type === 'text') {
-          const response = JSON.parse((textContent as { text: string }).text);
-          // The response contains { tags: [...tag objects...] }
+        // The updated asset contains { tags: [...tag objects...] }
+        const response = result.structuredContent as { tags?: unknown[] } | undefined;
+        if (response) {
           // Normalize tag objects to strings
           const tagNames = (response.tags || []).map((tag: unknown) => {
             if (typeof tag === 'string') return tag;
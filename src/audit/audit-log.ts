@@ -0,0 +1,163 @@
+/**
+ * Append-only audit log of tool calls
+ *
+ * Every call that goes through handleTool is written as one JSON line: when,
+ * which profile and organization, the tool, its arguments (redacted like log
+ * output), the IDs it named, the assets it reported changing, whether it
+ * succeeded and how long it took. The
+ * `audit` command reads it back to answer "who changed this asset".
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { readFileSync, existsSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { ToolCallRecord } from '../tools/shared.js';
+import { logger, sanitize } from '../logger.js';
+
+const log = logger.child('Audit');
+
+export const DEFAULT_AUDIT_FILE = join(homedir(), '.mediagraph', 'audit.jsonl');
+
+// Error messages longer than this are cut in the log
+const MAX_ERROR_LENGTH = 500;
+
+export interface AuditEntry {
+  /** ISO 8601 time the call finished */
+  timestamp: string;
+  profile?: string;
+  organization?: string;
+  tool: string;
+  /** Arguments with credentials redacted and long values truncated */
+  args: Record<string, unknown>;
+  /** IDs named by the call, keyed by argument (id, asset_ids, collection_id, ...) */
+  affectedIds: Record<string, (number | string)[]>;
+  /** Assets the tool reported changing, including ones no argument named */
+  assetIds?: number[];
+  success: boolean;
+  error?: string;
+  durationMs: number;
+  /** A dry run, which changed nothing */
+  dryRun?: boolean;
+}
+
+export interface AuditQuery {
+  /** Only entries at or after this time */
+  since?: Date;
+  /** Only entries before this time */
+  until?: Date;
+  tool?: string;
+  /** Only calls that named this asset */
+  assetId?: string;
+  /** Only failed calls */
+  errorsOnly?: boolean;
+}
+
+// Arguments that hold resource IDs: id, ids, guid, guids, asset_id, asset_ids, ...
+const ID_ARGUMENT_PATTERN = /^(ids?|guids?|.+_ids?|.+_guids?)$/;
+// Arguments that name assets whatever the tool
+const ASSET_ID_ARGUMENTS = new Set(['asset_id', 'asset_ids']);
+// Tools whose own id/ids/guid arguments are assets (update_asset, add_tags_to_asset, ...)
+const ASSET_TOOL_PATTERN = /(^|_)assets?(_|$)/;
+
+function isId(value: unknown): value is number | string {
+  return typeof value === 'number' || (typeof value === 'string' && value !== '');
+}
+
+/**
+ * IDs named by a call's arguments, keyed by argument name
+ */
+export function affectedIds(args: Record<string, unknown>): Record<string, (number | string)[]> {
+  const ids: Record<string, (number | string)[]> = {};
+  for (const [name, value] of Object.entries(args)) {
+    if (!ID_ARGUMENT_PATTERN.test(name)) continue;
+    const values = (Array.isArray(value) ? value : [value]).filter(isId);
+    if (values.length > 0) ids[name] = values;
+  }
+  return ids;
+}
+
+/**
+ * Asset IDs of an entry: asset_id(s) arguments, the id of an asset tool, and
+ * the assets the tool reported changing
+ */
+function entryAssetIds(entry: AuditEntry): string[] {
+  return Object.entries(entry.affectedIds)
+    .filter(([name]) => ASSET_ID_ARGUMENTS.has(name) || (ASSET_TOOL_PATTERN.test(entry.tool) && /^(ids?|guids?)$/.test(name)))
+    .flatMap(([, values]) => values.map(String))
+    .concat((entry.assetIds || []).map(String));
+}
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time >= query.until.getTime()) return false;
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.errorsOnly && entry.success) return false;
+  if (query.assetId !== undefined && !entryAssetIds(entry).includes(query.assetId)) return false;
+  return true;
+}
+
+export class AuditLog {
+  constructor(
+    readonly filePath: string = DEFAULT_AUDIT_FILE,
+    private options: { profile?: string } = {},
+  ) {}
+
+  /**
+   * Build the entry for a finished tool call
+   */
+  entry(call: ToolCallRecord): AuditEntry {
+    const errorText = call.result.isError ? call.result.content.map((block) => block.text).join('\n') : undefined;
+    return {
+      timestamp: new Date().toISOString(),
+      profile: this.options.profile,
+      organization: call.organization,
+      tool: call.tool,
+      args: sanitize(call.args) as Record<string, unknown>,
+      affectedIds: affectedIds(call.args),
+      assetIds: call.assetIds,
+      success: !call.result.isError,
+      error: errorText && errorText.length > MAX_ERROR_LENGTH ? `${errorText.slice(0, MAX_ERROR_LENGTH)}...` : errorText,
+      durationMs: call.durationMs,
+      dryRun: call.dryRun,
+    };
+  }
+
+  /**
+   * Append a tool call. Failing to write is logged, never passed on: the
+   * call itself already happened.
+   */
+  async record(call: ToolCallRecord): Promise<void> {
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await appendFile(this.filePath, `${JSON.stringify(this.entry(call))}\n`, { mode: 0o600 });
+    } catch (error) {
+      log.warning(`Failed to write audit log ${this.filePath}`, error);
+    }
+  }
+
+  /**
+   * Entries in the order they were written; lines that don't parse (e.g. a
+   * write cut off by a crash) are skipped
+   */
+  read(): AuditEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        log.debug('Skipping unreadable audit log line');
+      }
+    }
+    return entries;
+  }
+
+  query(query: AuditQuery = {}): AuditEntry[] {
+    return this.read().filter((entry) => matchesAuditQuery(entry, query));
+  }
+}
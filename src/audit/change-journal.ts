@@ -0,0 +1,221 @@
+/**
+ * Undo journal for metadata edits and bulk jobs
+ *
+ * Before update_asset, add_tags_to_asset and create_bulk_job change anything,
+ * the prior values of the fields they touch are read from the API and kept
+ * here, one JSON line per change. undo_change turns an entry back into the
+ * calls that restore those values (planUndo). Undoing appends a marker line
+ * instead of rewriting the file, so several processes can share it.
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { readFileSync, existsSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { tagName, type ChangeJournal, type ChangeQuery, type NewChange, type RecordedChange } from '../tools/shared.js';
+import { logger } from '../logger.js';
+
+const log = logger.child('Changes');
+
+export const DEFAULT_CHANGE_JOURNAL_FILE = join(homedir(), '.mediagraph', 'changes.jsonl');
+
+// Line appended when a change is undone
+interface UndoMarker {
+  undone: string;
+  timestamp: string;
+  bulkJobIds?: number[];
+}
+
+/**
+ * Calls that put a change's assets back the way they were
+ */
+export interface UndoPlan {
+  /** Per-asset field updates; expected holds the values the change set, to spot later edits */
+  updates: { assetId: number; fields: Record<string, unknown>; expected?: Record<string, unknown> }[];
+  /** Compensating bulk jobs, assets that need the same restore share one */
+  bulkJobs: (Record<string, unknown> & { asset_ids: number[] })[];
+  /** Parts of the change that can't be undone */
+  skipped: string[];
+}
+
+function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Older entries kept the API's tag objects instead of names
+function tagsOf(before: Record<string, unknown>): string[] {
+  return Array.isArray(before.tags) ? (before.tags as Parameters<typeof tagName>[0][]).map(tagName) : [];
+}
+
+/**
+ * What a bulk job would need to run on one asset to reverse the given job
+ */
+function compensatingBulkParams(params: Record<string, unknown>, before: Record<string, unknown>): Record<string, unknown> {
+  const restore: Record<string, unknown> = {};
+
+  if (Array.isArray(params.tag_names)) {
+    const names = params.tag_names as string[];
+    const previous = tagsOf(before);
+    const mode = params.tag_mode || 'add';
+    if (mode === 'add') {
+      // Only take off tags the asset didn't already have
+      const added = names.filter(name => !previous.some(tag => sameTag(tag, name)));
+      if (added.length > 0) Object.assign(restore, { tag_names: added, tag_mode: 'remove' });
+    } else if (mode === 'remove') {
+      const removed = names.filter(name => previous.some(tag => sameTag(tag, name)));
+      if (removed.length > 0) Object.assign(restore, { tag_names: removed, tag_mode: 'add' });
+    } else if (previous.length > 0) {
+      Object.assign(restore, { tag_names: previous, tag_mode: 'replace' });
+    } else {
+      Object.assign(restore, { tag_names: names, tag_mode: 'remove' });
+    }
+  }
+  if (params.description !== undefined) {
+    Object.assign(restore, { description: before.description ?? '', description_mode: 'set' });
+  }
+  if (params.rating !== undefined) restore.rating = before.rating ?? 0;
+  if (params.rights_package_id !== undefined && before.rights_package_id) {
+    restore.rights_package_id = before.rights_package_id;
+  }
+  if (params.rights_status !== undefined && before.rights_status) {
+    restore.rights_status = before.rights_status;
+  }
+  if (params.add_asset_group_id !== undefined) {
+    Object.assign(restore, { remove_asset_group_id: params.add_asset_group_id, remove_asset_group_type: params.add_asset_group_type });
+  }
+  if (params.remove_asset_group_id !== undefined) {
+    Object.assign(restore, { add_asset_group_id: params.remove_asset_group_id, add_asset_group_type: params.remove_asset_group_type });
+  }
+  if (params.destroy_all) restore.restore_all = true;
+  if (params.restore_all) restore.destroy_all = true;
+  return restore;
+}
+
+/**
+ * Work out how to undo a recorded change
+ */
+export function planUndo(change: RecordedChange): UndoPlan {
+  const plan: UndoPlan = { updates: [], bulkJobs: [], skipped: [] };
+
+  if (change.tool === 'update_asset') {
+    for (const asset of change.assets) {
+      plan.updates.push({ assetId: asset.id, fields: asset.before, expected: asset.after });
+    }
+    return plan;
+  }
+
+  if (change.tool === 'add_tags_to_asset') {
+    for (const asset of change.assets) {
+      const restore = compensatingBulkParams({ tag_names: asset.after?.tags, tag_mode: 'add' }, asset.before);
+      if (restore.tag_names) plan.bulkJobs.push({ asset_ids: [asset.id], ...restore });
+    }
+    return plan;
+  }
+
+  const params = change.bulkJob?.params || {};
+  const jobs = new Map<string, Record<string, unknown> & { asset_ids: number[] }>();
+  for (const asset of change.assets) {
+    const restore = compensatingBulkParams(params, asset.before);
+    if (Object.keys(restore).length > 0) {
+      const key = JSON.stringify(restore);
+      const job = jobs.get(key) || { asset_ids: [], ...restore };
+      job.asset_ids.push(asset.id);
+      jobs.set(key, job);
+    }
+    // Bulk jobs can't set alt text, put it back asset by asset
+    if (params.generate_alt_text) {
+      plan.updates.push({ assetId: asset.id, fields: { alt_text: asset.before.alt_text ?? '' } });
+    }
+  }
+  plan.bulkJobs.push(...jobs.values());
+
+  if (params.rights_package_id !== undefined && change.assets.some(asset => !asset.before.rights_package_id)) {
+    plan.skipped.push('rights packages are not removed from assets that had none');
+  }
+  if (params.custom_meta || params.run_custom_meta_field_ids) {
+    plan.skipped.push('custom meta field values are not restored');
+  }
+  if (params.add_asset_group_id !== undefined) {
+    plan.skipped.push('assets that were already in the asset group are removed from it too');
+  }
+  return plan;
+}
+
+export class FileChangeJournal implements ChangeJournal {
+  constructor(
+    readonly filePath: string = DEFAULT_CHANGE_JOURNAL_FILE,
+    private options: { profile?: string } = {},
+  ) {}
+
+  private async append(line: object): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await appendFile(this.filePath, `${JSON.stringify(line)}\n`, { mode: 0o600 });
+  }
+
+  /**
+   * Keep a change. Failing to write is logged, never passed on: the change
+   * itself already happened.
+   */
+  async record(change: NewChange): Promise<RecordedChange | undefined> {
+    const entry: RecordedChange = {
+      id: randomBytes(4).toString('hex'),
+      timestamp: new Date().toISOString(),
+      profile: this.options.profile,
+      ...change,
+    };
+    try {
+      await this.append(entry);
+      return entry;
+    } catch (error) {
+      log.warning(`Failed to write change journal ${this.filePath}`, error);
+      return undefined;
+    }
+  }
+
+  async markUndone(id: string, bulkJobIds?: number[]): Promise<void> {
+    const marker: UndoMarker = { undone: id, timestamp: new Date().toISOString(), bulkJobIds };
+    await this.append(marker);
+  }
+
+  /**
+   * Changes in the order they were made, with undoneAt filled in from the
+   * markers; lines that don't parse are skipped
+   */
+  read(): RecordedChange[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    const changes = new Map<string, RecordedChange>();
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let parsed: RecordedChange | UndoMarker;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        log.debug('Skipping unreadable change journal line');
+        continue;
+      }
+      if ('undone' in parsed) {
+        const change = changes.get(parsed.undone);
+        if (change) Object.assign(change, { undoneAt: parsed.timestamp, undoBulkJobIds: parsed.bulkJobIds });
+      } else {
+        changes.set(parsed.id, parsed);
+      }
+    }
+    return [...changes.values()];
+  }
+
+  list(query: ChangeQuery = {}): RecordedChange[] {
+    return this.read().filter((change) => {
+      if (query.organization !== undefined && change.organization !== query.organization) return false;
+      if (query.tool && change.tool !== query.tool) return false;
+      if (query.assetId !== undefined && !change.assets.some(asset => String(asset.id) === String(query.assetId))) return false;
+      return true;
+    });
+  }
+
+  get(id: string): RecordedChange | undefined {
+    return this.read().find(change => change.id === id);
+  }
+}
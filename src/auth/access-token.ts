@@ -0,0 +1,81 @@
+/**
+ * Headless authentication with a personal access token
+ *
+ * Used when MEDIAGRAPH_ACCESS_TOKEN is set, e.g. in CI or on machines without
+ * a browser, and for each HTTP session with the token it was started with.
+ * OAuth is skipped entirely; the organization comes from whoami.
+ */
+
+import { MediagraphClient } from '../api/client.js';
+import type { RateLimiter } from '../api/rate-limiter.js';
+import type { WhoamiResponse } from '../api/types/index.js';
+import type { SessionAuth, AuthenticateResult } from '../server.js';
+import type { ReauthorizeResult } from '../tools/shared.js';
+import { logger } from '../logger.js';
+
+const log = logger.child('AccessToken');
+
+export const ACCESS_TOKEN_REAUTHORIZE_MESSAGE =
+  'This server authenticates with a personal access token from MEDIAGRAPH_ACCESS_TOKEN, so it cannot sign in through the browser. ' +
+  'To use another account or organization, create a personal access token there, set MEDIAGRAPH_ACCESS_TOKEN to it and restart the server. ' +
+  'To use OAuth instead, unset MEDIAGRAPH_ACCESS_TOKEN and run "npx @mediagraph/mcp authorize".';
+
+export interface AccessTokenAuthOptions {
+  rateLimiter?: RateLimiter;
+  /** Told to the model when it asks to reauthorize (default: ACCESS_TOKEN_REAUTHORIZE_MESSAGE) */
+  reauthorizeMessage?: string;
+}
+
+export class AccessTokenAuth implements SessionAuth {
+  client: MediagraphClient;
+  private whoami: Promise<WhoamiResponse> | null = null;
+  private reauthorizeMessage: string;
+
+  constructor(
+    private readonly accessToken: string,
+    apiUrl: string,
+    options: AccessTokenAuthOptions = {},
+  ) {
+    this.client = new MediagraphClient({
+      apiUrl,
+      getAccessToken: async () => this.accessToken,
+      rateLimiter: options.rateLimiter,
+    });
+    this.reauthorizeMessage = options.reauthorizeMessage ?? ACCESS_TOKEN_REAUTHORIZE_MESSAGE;
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    return this.accessToken;
+  }
+
+  async authenticate(): Promise<AuthenticateResult> {
+    return { success: true, token: this.accessToken };
+  }
+
+  /**
+   * User and organization the token belongs to, looked up once
+   */
+  getWhoami(): Promise<WhoamiResponse> {
+    if (!this.whoami) {
+      this.whoami = this.client.whoami();
+      // Retry on the next call rather than caching a failure
+      this.whoami.catch(() => {
+        this.whoami = null;
+      });
+    }
+    return this.whoami;
+  }
+
+  async getOrganizationSlug(): Promise<string | undefined> {
+    try {
+      return (await this.getWhoami()).organization?.slug;
+    } catch (error) {
+      log.warning('Failed to resolve organization for access token', error);
+      return undefined;
+    }
+  }
+
+  async reauthorize(): Promise<ReauthorizeResult> {
+    return { success: false, message: this.reauthorizeMessage };
+  }
+}
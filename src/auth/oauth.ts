@@ -1,18 +1,24 @@
 /**
  * OAuth Authentication for Mediagraph MCP Server
- * Implements OAuth 2.0 with PKCE for public clients
+ * Implements OAuth 2.0 with PKCE for public clients, and the device
+ * authorization grant (RFC 8628) for machines that can't receive a callback
  */
 
 import { createHash, randomBytes } from 'node:crypto';
 import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
 import { URL } from 'node:url';
+import { RequestCancelledError, sleep } from '../api/cancellation.js';
 
 export interface OAuthConfig {
   clientId: string;
   clientSecret?: string;
   oauthUrl?: string;
   redirectPort?: number;
+  /** Callback ports to try in order when one is taken (overrides redirectPort) */
+  redirectPorts?: number[];
   scopes?: string[];
+  /** How long to wait for the browser to come back (default: 5 minutes) */
+  callbackTimeoutMs?: number;
 }
 
 export interface TokenData {
@@ -29,19 +35,87 @@ export interface OAuthCallbackResult {
   state: string;
 }
 
+/**
+ * Device authorization response (RFC 8628, section 3.2)
+ */
+export interface DeviceAuthorization {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  /** Seconds to wait between token requests */
+  interval?: number;
+}
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const DEFAULT_DEVICE_POLL_INTERVAL = 5;
+
+const DEFAULT_REDIRECT_PORT = 52584;
+const DEFAULT_CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// After a timeout the callback server stays up this long to tell a late
+// browser what happened
+const TIMED_OUT_PAGE_GRACE_MS = 60 * 1000;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+}
+
+/**
+ * Page shown in the browser at the end of the OAuth redirect
+ */
+export function renderCallbackPage(title: string, message: string, success = false): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Mediagraph - ${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: sans-serif; padding: 40px; text-align: center;">
+    <h1 style="color: ${success ? '#28a745' : '#dc3545'};">${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    <p>${success ? 'You can close this window and return to your application.' : 'You can close this window and try again.'}</p>
+  </body>
+</html>
+`;
+}
+
+// Wording for the error codes of RFC 6749 section 4.1.2.1 users actually hit
+const CALLBACK_ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'Access to Mediagraph was declined.',
+  invalid_scope: 'The requested permissions are not available for this app.',
+  unauthorized_client: 'This app is not allowed to sign in to Mediagraph.',
+  server_error: 'Mediagraph could not complete the sign-in. Please try again later.',
+  temporarily_unavailable: 'Mediagraph is temporarily unavailable. Please try again later.',
+};
+
 export class OAuthHandler {
-  private config: Required<Omit<OAuthConfig, 'clientSecret'>> & { clientSecret?: string };
+  private config: {
+    clientId: string;
+    clientSecret?: string;
+    oauthUrl: string;
+    redirectPorts: number[];
+    scopes: string[];
+    callbackTimeoutMs: number;
+  };
   private codeVerifier: string | null = null;
   private state: string | null = null;
   private callbackServer: Server | null = null;
+  // Port the callback server got; the redirect URI has to match it
+  private activePort: number | null = null;
+  private stopTimer: NodeJS.Timeout | null = null;
 
   constructor(config: OAuthConfig) {
     this.config = {
       clientId: config.clientId,
       clientSecret: config.clientSecret,
       oauthUrl: config.oauthUrl || 'https://mediagraph.io',
-      redirectPort: config.redirectPort || 52584,
+      redirectPorts: config.redirectPorts?.length
+        ? config.redirectPorts
+        : [config.redirectPort || DEFAULT_REDIRECT_PORT],
       scopes: config.scopes || ['read', 'write'],
+      callbackTimeoutMs: config.callbackTimeoutMs || DEFAULT_CALLBACK_TIMEOUT_MS,
     };
   }
 
@@ -66,14 +140,15 @@ export class OAuthHandler {
   }
 
   /**
-   * Get the redirect URI
+   * Get the redirect URI for the port the callback server listens on
    */
   getRedirectUri(): string {
-    return `http://localhost:${this.config.redirectPort}/callback`;
+    return `http://localhost:${this.activePort ?? this.config.redirectPorts[0]}/callback`;
   }
 
   /**
-   * Build the authorization URL for OAuth flow
+   * Build the authorization URL for OAuth flow. Start the callback server
+   * first, the redirect URI depends on the port it got.
    */
   getAuthorizationUrl(): string {
     const { verifier, challenge } = this.generatePKCE();
@@ -96,119 +171,135 @@ export class OAuthHandler {
   private callbackPromise: {
     resolve: (result: OAuthCallbackResult) => void;
     reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
   } | null = null;
 
   /**
-   * Start the callback server and wait for it to be ready
+   * Start the callback server on the first free configured port and wait for
+   * it to be ready. Returns the port.
    */
-  async startCallbackServer(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.callbackServer = createServer((req: IncomingMessage, res: ServerResponse) => {
-        const url = new URL(req.url || '/', `http://localhost:${this.config.redirectPort}`);
-
-        if (url.pathname === '/callback') {
-          const code = url.searchParams.get('code');
-          const state = url.searchParams.get('state');
-          const error = url.searchParams.get('error');
-          const errorDescription = url.searchParams.get('error_description');
-
-          if (error) {
-            res.writeHead(400, { 'Content-Type': 'text/html' });
-            res.end(`
-              <html>
-                <body style="font-family: sans-serif; padding: 40px; text-align: center;">
-                  <h1 style="color: #dc3545;">Authorization Failed</h1>
-                  <p>${errorDescription || error}</p>
-                  <p>You can close this window.</p>
-                </body>
-              </html>
-            `);
-            this.stopCallbackServer();
-            this.callbackPromise?.reject(new Error(errorDescription || error));
-            this.callbackPromise = null;
-            return;
-          }
-
-          if (!code || !state) {
-            res.writeHead(400, { 'Content-Type': 'text/html' });
-            res.end(`
-              <html>
-                <body style="font-family: sans-serif; padding: 40px; text-align: center;">
-                  <h1 style="color: #dc3545;">Invalid Callback</h1>
-                  <p>Missing authorization code or state.</p>
-                  <p>You can close this window.</p>
-                </body>
-              </html>
-            `);
-            this.stopCallbackServer();
-            this.callbackPromise?.reject(new Error('Missing authorization code or state'));
-            this.callbackPromise = null;
-            return;
-          }
-
-          if (state !== this.state) {
-            res.writeHead(400, { 'Content-Type': 'text/html' });
-            res.end(`
-              <html>
-                <body style="font-family: sans-serif; padding: 40px; text-align: center;">
-                  <h1 style="color: #dc3545;">Security Error</h1>
-                  <p>State parameter mismatch. This could indicate a CSRF attack.</p>
-                  <p>You can close this window.</p>
-                </body>
-              </html>
-            `);
-            this.stopCallbackServer();
-            this.callbackPromise?.reject(new Error('State parameter mismatch'));
-            this.callbackPromise = null;
-            return;
-          }
-
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body style="font-family: sans-serif; padding: 40px; text-align: center;">
-                <h1 style="color: #28a745;">Authorization Successful</h1>
-                <p>You have successfully connected to Mediagraph.</p>
-                <p>You can close this window and return to your application.</p>
-              </body>
-            </html>
-          `);
-
-          this.stopCallbackServer();
-          this.callbackPromise?.resolve({ code, state });
-          this.callbackPromise = null;
-        } else {
-          res.writeHead(404);
-          res.end('Not found');
+  async startCallbackServer(): Promise<number> {
+    this.stopCallbackServer();
+
+    for (const port of this.config.redirectPorts) {
+      try {
+        await this.listen(port);
+        this.activePort = port;
+        return port;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'EADDRINUSE' && code !== 'EACCES') {
+          throw error;
         }
-      });
+      }
+    }
 
-      this.callbackServer.on('error', (err) => {
-        reject(err);
-      });
+    throw new Error(
+      `Could not start the OAuth callback server: port${this.config.redirectPorts.length > 1 ? 's' : ''} ` +
+      `${this.config.redirectPorts.join(', ')} ${this.config.redirectPorts.length > 1 ? 'are' : 'is'} in use. ` +
+      'Set MEDIAGRAPH_REDIRECT_PORT to other ports, or use MEDIAGRAPH_AUTH_FLOW=device.',
+    );
+  }
 
-      this.callbackServer.listen(this.config.redirectPort, () => {
+  private listen(port: number): Promise<void> {
+    const server = createServer((req, res) => this.handleCallback(req, res, port));
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => {
         // Server is now listening and ready
+        server.off('error', reject);
+        this.callbackServer = server;
         resolve();
       });
     });
   }
 
+  private handleCallback(req: IncomingMessage, res: ServerResponse, port: number): void {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+    if (url.pathname !== '/callback') {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    const sendPage = (status: number, html: string) => {
+      res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(html);
+    };
+
+    // Nobody is waiting: the sign-in timed out (or already finished)
+    if (!this.callbackPromise) {
+      sendPage(408, renderCallbackPage(
+        'Sign-in Timed Out',
+        'This sign-in took too long and was cancelled. Start it again from your application.',
+      ));
+      return;
+    }
+
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+    const error = url.searchParams.get('error');
+    const errorDescription = url.searchParams.get('error_description');
+
+    if (error) {
+      const message = errorDescription || CALLBACK_ERROR_MESSAGES[error] || `Mediagraph returned the error "${error}".`;
+      sendPage(400, renderCallbackPage('Authorization Failed', message));
+      this.finishCallback(new Error(errorDescription || error));
+      return;
+    }
+
+    if (!code || !state) {
+      sendPage(400, renderCallbackPage('Invalid Callback', 'Missing authorization code or state.'));
+      this.finishCallback(new Error('Missing authorization code or state'));
+      return;
+    }
+
+    if (state !== this.state) {
+      sendPage(400, renderCallbackPage(
+        'Security Error',
+        'State parameter mismatch. This could indicate a CSRF attack, or a link from an older sign-in.',
+      ));
+      this.finishCallback(new Error('State parameter mismatch'));
+      return;
+    }
+
+    sendPage(200, renderCallbackPage('Authorization Successful', 'You have successfully connected to Mediagraph.', true));
+    this.finishCallback({ code, state });
+  }
+
+  private finishCallback(result: OAuthCallbackResult | Error): void {
+    this.stopCallbackServer();
+    const pending = this.callbackPromise;
+    this.callbackPromise = null;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    if (result instanceof Error) {
+      pending.reject(result);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
   /**
-   * Wait for the OAuth callback (server must be started first)
+   * Wait for the OAuth callback (server must be started first). Rejects once
+   * the configured timeout has passed.
    */
   async waitForCallback(): Promise<OAuthCallbackResult> {
     return new Promise((resolve, reject) => {
-      this.callbackPromise = { resolve, reject };
-
-      // Timeout after 5 minutes
-      setTimeout(() => {
-        if (this.callbackPromise) {
-          this.stopCallbackServer();
-          this.callbackPromise.reject(new Error('Authorization timed out'));
-          this.callbackPromise = null;
-        }
-      }, 5 * 60 * 1000);
+      const timeoutMs = this.config.callbackTimeoutMs;
+      const timer = setTimeout(() => {
+        if (this.callbackPromise?.timer !== timer) return;
+        this.callbackPromise = null;
+        reject(new Error(`Authorization timed out after ${Math.round(timeoutMs / 1000)} seconds`));
+
+        // Keep answering for a while so a late browser gets the timeout page
+        this.stopTimer = setTimeout(() => this.stopCallbackServer(), TIMED_OUT_PAGE_GRACE_MS);
+        this.stopTimer.unref();
+      }, timeoutMs);
+
+      this.callbackPromise = { resolve, reject, timer };
     });
   }
 
@@ -224,6 +315,10 @@ export class OAuthHandler {
    * Stop the callback server
    */
   stopCallbackServer(): void {
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
     if (this.callbackServer) {
       this.callbackServer.close();
       this.callbackServer = null;
@@ -278,6 +373,106 @@ export class OAuthHandler {
     };
   }
 
+  /**
+   * Start a device authorization: returns the code the user enters at the
+   * verification URL, on any device
+   */
+  async requestDeviceAuthorization(): Promise<DeviceAuthorization> {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      scope: this.config.scopes.join(' '),
+    });
+
+    if (this.config.clientSecret) {
+      params.append('client_secret', this.config.clientSecret);
+    }
+
+    const response = await fetch(`${this.config.oauthUrl}/oauth/authorize_device`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({ error: 'unknown_error' }))) as {
+        error?: string;
+        error_description?: string;
+      };
+      throw new Error(`Device authorization failed: ${error.error_description || error.error}`);
+    }
+
+    return (await response.json()) as DeviceAuthorization;
+  }
+
+  /**
+   * Poll the token endpoint until the user approves or denies the device
+   * authorization, or the code expires
+   */
+  async pollDeviceToken(authorization: DeviceAuthorization, signal?: AbortSignal): Promise<TokenData> {
+    const expiresAt = Date.now() + authorization.expires_in * 1000;
+    let interval = authorization.interval ?? DEFAULT_DEVICE_POLL_INTERVAL;
+
+    while (Date.now() < expiresAt) {
+      try {
+        await sleep(interval * 1000, signal);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) throw new Error('Device authorization cancelled');
+        throw error;
+      }
+
+      const params = new URLSearchParams({
+        grant_type: DEVICE_CODE_GRANT_TYPE,
+        device_code: authorization.device_code,
+        client_id: this.config.clientId,
+      });
+
+      if (this.config.clientSecret) {
+        params.append('client_secret', this.config.clientSecret);
+      }
+
+      const response = await fetch(`${this.config.oauthUrl}/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+        signal,
+      });
+
+      if (response.ok) {
+        const tokenData = (await response.json()) as Omit<TokenData, 'expires_at'>;
+        return {
+          ...tokenData,
+          expires_at: Date.now() + tokenData.expires_in * 1000,
+        };
+      }
+
+      const error = (await response.json().catch(() => ({ error: 'unknown_error' }))) as {
+        error?: string;
+        error_description?: string;
+      };
+
+      switch (error.error) {
+        case 'authorization_pending':
+          continue;
+        case 'slow_down':
+          // RFC 8628 section 3.5: back off by 5 seconds for this and later requests
+          interval += 5;
+          continue;
+        case 'access_denied':
+          throw new Error('Device authorization was denied');
+        case 'expired_token':
+          throw new Error('Device code expired before it was approved');
+        default:
+          throw new Error(`Device authorization failed: ${error.error_description || error.error}`);
+      }
+    }
+
+    throw new Error('Device code expired before it was approved');
+  }
+
   /**
    * Refresh an access token using a refresh token
    */
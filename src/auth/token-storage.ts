@@ -0,0 +1,361 @@
+/**
+ * Storage backends for OAuth tokens
+ *
+ * The file backend encrypts with a key derived from MEDIAGRAPH_TOKEN_PASSPHRASE,
+ * or from a random key kept next to the token file when no passphrase is set,
+ * and a random per-file salt. It takes an advisory lock around updates so
+ * several server processes can share one token file. The memory backend keeps
+ * tokens for the life of the process (tests, ephemeral containers).
+ */
+
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  writeSync,
+  closeSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from 'node:fs';
+import { open } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { StoredOrganizations } from './token-store.js';
+import { logger } from '../logger.js';
+
+const log = logger.child('TokenStorage');
+
+export type TokenStorageType = 'file' | 'memory';
+
+export const DEFAULT_TOKEN_FILE = join(homedir(), '.mediagraph', 'tokens.enc');
+
+export interface TokenStorageBackend {
+  /** Shown by the status command */
+  readonly description: string;
+  /**
+   * Stored organizations, or null if nothing is stored. Throws when tokens are
+   * stored but can't be read (wrong passphrase, corrupted file).
+   */
+  read(): StoredOrganizations | null;
+  /**
+   * Read, change and write back without another process writing in between.
+   * Resolves to what was written; rejects like read() instead of overwriting
+   * tokens it can't read.
+   */
+  update(change: (current: StoredOrganizations | null) => StoredOrganizations): Promise<StoredOrganizations>;
+  /** Delete all stored tokens, readable or not */
+  clear(): Promise<void>;
+  /** Throw if tokens are stored but can't be read, like read() */
+  verify?(): void;
+}
+
+/**
+ * Tokens held in memory only, gone when the process exits
+ */
+export class MemoryTokenStorage implements TokenStorageBackend {
+  readonly description = 'memory (not persisted)';
+  private data: StoredOrganizations | null = null;
+
+  read(): StoredOrganizations | null {
+    return this.data && structuredClone(this.data);
+  }
+
+  async update(change: (current: StoredOrganizations | null) => StoredOrganizations): Promise<StoredOrganizations> {
+    this.data = structuredClone(change(this.read()));
+    return structuredClone(this.data);
+  }
+
+  async clear(): Promise<void> {
+    this.data = null;
+  }
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Files written since per-file salts start with this; older files don't
+const FORMAT_MAGIC = Buffer.from('MGT2');
+
+// Files before FORMAT_MAGIC used one key per machine: homedir plus a constant salt
+const LEGACY_SALT = 'mediagraph-mcp-salt';
+// Without a passphrase, keys used to be derived from the home directory too
+const LEGACY_SECRET = `${homedir()}-mediagraph-mcp`;
+const KEY_FILE_LENGTH = 32;
+
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 50;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 30000;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export interface FileTokenStorageOptions {
+  /**
+   * Passphrase the encryption key is derived from. Without one the key comes
+   * from a random key file that only the user can read.
+   */
+  passphrase?: string;
+  /** Random key used without a passphrase (default: <token file>.key) */
+  keyFile?: string;
+  /** How long to wait for another process's lock (default: 10 seconds) */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Encrypted token file
+ *
+ * Format: "MGT2" + salt (16) + iv (12) + tag (16) + encrypted JSON
+ */
+export class FileTokenStorage implements TokenStorageBackend {
+  readonly description: string;
+  private passphrase?: string;
+  private keyFile: string;
+  private lockTimeoutMs: number;
+  // scrypt is slow on purpose; the key is reused while the file keeps its salt
+  private derivedKey: { secret: string; salt: Buffer; key: Buffer } | null = null;
+
+  constructor(
+    private filePath: string,
+    options: FileTokenStorageOptions = {},
+  ) {
+    this.passphrase = options.passphrase || undefined;
+    this.keyFile = options.keyFile || `${filePath}.key`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? LOCK_TIMEOUT_MS;
+    this.description = `${filePath} (${this.passphrase ? 'passphrase' : `key file ${this.keyFile}`})`;
+  }
+
+  /**
+   * The passphrase, or the contents of the key file. The key file is only
+   * created for writing; undefined when there is none yet.
+   */
+  private secret(create: boolean): string | undefined {
+    if (this.passphrase) return this.passphrase;
+    if (existsSync(this.keyFile)) return readFileSync(this.keyFile, 'utf-8').trim();
+    if (!create) return undefined;
+
+    const secret = randomBytes(KEY_FILE_LENGTH).toString('hex');
+    try {
+      const fd = openSync(this.keyFile, 'wx', 0o600);
+      writeSync(fd, secret);
+      closeSync(fd);
+      log.info(`Created token key file: ${this.keyFile}`);
+      return secret;
+    } catch (error) {
+      // Another process created it first
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      return readFileSync(this.keyFile, 'utf-8').trim();
+    }
+  }
+
+  private getKey(secret: string, salt: Buffer): Buffer {
+    if (!this.derivedKey || this.derivedKey.secret !== secret || !this.derivedKey.salt.equals(salt)) {
+      this.derivedKey = { secret, salt, key: scryptSync(secret, salt, 32) };
+    }
+    return this.derivedKey.key;
+  }
+
+  private encrypt(data: string): Buffer {
+    // New files get a random salt, existing ones keep theirs
+    const salt = this.derivedKey?.salt ?? randomBytes(SALT_LENGTH);
+    const key = this.getKey(this.secret(true)!, salt);
+    const iv = randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return Buffer.concat([FORMAT_MAGIC, salt, iv, tag, encrypted]);
+  }
+
+  private decryptWith(key: Buffer, payload: Buffer): string {
+    const iv = payload.subarray(0, IV_LENGTH);
+    const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const encrypted = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+
+    return decipher.update(encrypted) + decipher.final('utf8');
+  }
+
+  /**
+   * Decrypt the file contents; legacy is true when it still has to be
+   * rewritten with the current key and format
+   */
+  private decrypt(buffer: Buffer): { json: string; legacy: boolean } {
+    if (buffer.subarray(0, FORMAT_MAGIC.length).equals(FORMAT_MAGIC)) {
+      const salt = Buffer.from(buffer.subarray(FORMAT_MAGIC.length, FORMAT_MAGIC.length + SALT_LENGTH));
+      const payload = buffer.subarray(FORMAT_MAGIC.length + SALT_LENGTH);
+      const secret = this.secret(false);
+      if (secret) {
+        try {
+          return { json: this.decryptWith(this.getKey(secret, salt), payload), legacy: false };
+        } catch (error) {
+          if (this.passphrase) throw error;
+        }
+      }
+      // Written without a passphrase before there were key files
+      return { json: this.decryptWith(this.getKey(LEGACY_SECRET, salt), payload), legacy: true };
+    }
+
+    // Legacy layout: unused salt (16) + iv + tag + data, machine key
+    const legacyKey = scryptSync(LEGACY_SECRET, LEGACY_SALT, 32);
+    return { json: this.decryptWith(legacyKey, buffer.subarray(SALT_LENGTH)), legacy: true };
+  }
+
+  verify(): void {
+    this.readFile();
+  }
+
+  private readFile(): { data: StoredOrganizations | null; legacy: boolean } {
+    log.debug(`Loading tokens from: ${this.filePath}`);
+    if (!existsSync(this.filePath)) {
+      log.debug('Token file does not exist');
+      return { data: null, legacy: false };
+    }
+
+    const buffer = readFileSync(this.filePath);
+    if (buffer.length === 0) {
+      // Cleared by logout
+      return { data: null, legacy: false };
+    }
+
+    try {
+      const { json, legacy } = this.decrypt(buffer);
+      return { data: JSON.parse(json) as StoredOrganizations, legacy };
+    } catch (error) {
+      // Wrong passphrase, missing key file, or the file is corrupted
+      throw new Error(
+        `Could not decrypt ${this.filePath}: ${error instanceof Error ? error.message : error}. ` +
+        'Check MEDIAGRAPH_TOKEN_PASSPHRASE, or run logout and then authorize again.',
+      );
+    }
+  }
+
+  private writeFile(data: StoredOrganizations): void {
+    const dir = dirname(this.filePath);
+    log.debug(`Saving tokens to: ${this.filePath}`);
+    if (!existsSync(dir)) {
+      log.debug(`Creating directory: ${dir}`);
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    // Write then rename, so readers that don't take the lock never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, this.encrypt(JSON.stringify(data)), { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+    log.debug('Tokens saved successfully');
+  }
+
+  /**
+   * Run a read-modify-write while holding <file>.lock
+   */
+  private async withLock<T>(fn: () => T): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    for (;;) {
+      try {
+        const handle = await open(lockPath, 'wx', 0o600);
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (this.isStaleLock(lockPath)) {
+          log.warning(`Removing stale token file lock: ${lockPath}`);
+          rmSync(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for the token file lock ${lockPath}. If no other Mediagraph MCP process is running, delete it.`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      rmSync(lockPath, { force: true });
+    }
+  }
+
+  private isStaleLock(lockPath: string): boolean {
+    try {
+      const pid = parseInt(readFileSync(lockPath, 'utf-8'), 10);
+      if (pid && !isProcessAlive(pid)) {
+        return true;
+      }
+      return Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+      // Released while we looked
+      return false;
+    }
+  }
+
+  read(): StoredOrganizations | null {
+    const { data, legacy } = this.readFile();
+    if (data && legacy) {
+      log.info(`Migrating token file to ${this.passphrase ? 'passphrase-derived encryption' : `the key in ${this.keyFile}`}`);
+      this.update((current) => current ?? data).catch((error) => {
+        log.warning('Failed to migrate token file, will retry on the next write', error);
+      });
+    }
+    return data;
+  }
+
+  update(change: (current: StoredOrganizations | null) => StoredOrganizations): Promise<StoredOrganizations> {
+    return this.withLock(() => {
+      const next = change(this.readFile().data);
+      this.writeFile(next);
+      return next;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.withLock(() => {
+      if (existsSync(this.filePath)) {
+        writeFileSync(this.filePath, '', { mode: 0o600 });
+      }
+    });
+  }
+}
+
+export interface TokenStorageConfig {
+  type: TokenStorageType;
+  /** Token file, or undefined for the default location */
+  filePath?: string;
+  passphrase?: string;
+}
+
+/**
+ * Create the backend selected by the configuration
+ */
+export function createTokenStorage(config: TokenStorageConfig): TokenStorageBackend {
+  if (config.type === 'memory') {
+    return new MemoryTokenStorage();
+  }
+  return new FileTokenStorage(config.filePath || DEFAULT_TOKEN_FILE, { passphrase: config.passphrase });
+}
@@ -1,13 +1,14 @@
 /**
  * Secure Token Storage for Mediagraph MCP Server
- * Stores tokens encrypted in a local file
+ * Stores tokens one entry per organization, by default encrypted in a local
+ * file (see token-storage.ts for the backends)
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
-import { homedir } from 'node:os';
-import { join, dirname } from 'node:path';
 import type { TokenData } from './oauth.js';
+import { FileTokenStorage, DEFAULT_TOKEN_FILE, type TokenStorageBackend } from './token-storage.js';
+import { logger } from '../logger.js';
+
+const log = logger.child('TokenStore');
 
 export interface StoredTokens {
   tokens: TokenData;
@@ -18,125 +19,156 @@ export interface StoredTokens {
   userEmail?: string;
 }
 
-const ALGORITHM = 'aes-256-gcm';
-const SALT_LENGTH = 16;
-const IV_LENGTH = 12;
-const TAG_LENGTH = 16;
+export interface StoredOrganizations {
+  /** Slug of the organization used when a call doesn't name one */
+  activeOrganization?: string;
+  organizations: Record<string, StoredTokens>;
+}
 
-export class TokenStore {
-  private filePath: string;
-  private encryptionKey: Buffer | null = null;
+// Key for tokens saved before whoami told us the organization
+const UNKNOWN_ORGANIZATION = 'default';
+
+function organizationKey(data: StoredTokens): string {
+  return data.organizationSlug || UNKNOWN_ORGANIZATION;
+}
 
-  constructor(filePath?: string) {
-    this.filePath = filePath || join(homedir(), '.mediagraph', 'tokens.enc');
+/**
+ * Normalize what the backend holds; files written before multi-organization
+ * support contain a single StoredTokens
+ */
+function migrate(data: StoredOrganizations | StoredTokens | null): StoredOrganizations | null {
+  if (data && 'tokens' in data) {
+    const key = organizationKey(data);
+    return { activeOrganization: key, organizations: { [key]: data } };
   }
+  return data;
+}
+
+export class TokenStore {
+  private storage: TokenStorageBackend;
 
   /**
-   * Derive encryption key from a passphrase
-   * In production, this should use system keychain or secure enclave
+   * @param storage Backend, or the path of an encrypted token file
    */
-  private getEncryptionKey(): Buffer {
-    if (this.encryptionKey) {
-      return this.encryptionKey;
-    }
+  constructor(storage: TokenStorageBackend | string = DEFAULT_TOKEN_FILE) {
+    this.storage = typeof storage === 'string' ? new FileTokenStorage(storage) : storage;
+  }
 
-    // Use a machine-specific key derived from hostname and user
-    const machineId = `${homedir()}-mediagraph-mcp`;
-    this.encryptionKey = scryptSync(machineId, 'mediagraph-mcp-salt', 32);
-    return this.encryptionKey;
+  /**
+   * Where tokens are kept, for status output
+   */
+  get description(): string {
+    return this.storage.description;
   }
 
   /**
-   * Encrypt data
+   * Throw if stored tokens can't be decrypted, see TokenStorageBackend.verify
    */
-  private encrypt(data: string): Buffer {
-    const key = this.getEncryptionKey();
-    const iv = randomBytes(IV_LENGTH);
-    const salt = randomBytes(SALT_LENGTH);
+  verify(): void {
+    this.storage.verify?.();
+  }
 
-    const cipher = createCipheriv(ALGORITHM, key, iv);
-    const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
-    const tag = cipher.getAuthTag();
+  private read(): StoredOrganizations | null {
+    return migrate(this.storage.read());
+  }
 
-    // Format: salt (16) + iv (12) + tag (16) + encrypted data
-    return Buffer.concat([salt, iv, tag, encrypted]);
+  /**
+   * Change the stored organizations while holding the storage lock
+   */
+  private async update(change: (stored: StoredOrganizations) => void): Promise<void> {
+    await this.storage.update((current) => {
+      const stored = migrate(current) || { organizations: {} };
+      change(stored);
+      return stored;
+    });
   }
 
   /**
-   * Decrypt data
+   * Save tokens for an organization, replacing its previous tokens. The
+   * organization becomes the active one unless activate is false (e.g. when
+   * refreshing another organization's token).
    */
-  private decrypt(encryptedBuffer: Buffer): string {
-    const key = this.getEncryptionKey();
+  async save(data: StoredTokens, options: { activate?: boolean } = {}): Promise<void> {
+    const key = organizationKey(data);
+
+    await this.update((stored) => {
+      // Tokens saved before the organization was known are replaced once it is
+      for (const [otherKey, other] of Object.entries(stored.organizations)) {
+        if (otherKey !== key && other.tokens?.access_token === data.tokens.access_token) {
+          delete stored.organizations[otherKey];
+          if (stored.activeOrganization === otherKey) stored.activeOrganization = key;
+        }
+      }
 
-    const salt = encryptedBuffer.subarray(0, SALT_LENGTH);
-    const iv = encryptedBuffer.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = encryptedBuffer.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    const encrypted = encryptedBuffer.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+      stored.organizations[key] = data;
+      if (options.activate !== false || !stored.activeOrganization) {
+        stored.activeOrganization = key;
+      }
+    });
+  }
 
-    const decipher = createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(tag);
+  /**
+   * Load tokens for an organization, or for the active one
+   */
+  load(organizationSlug?: string): StoredTokens | null {
+    const stored = this.read();
+    if (!stored) return null;
+
+    const key = organizationSlug ?? stored.activeOrganization;
+    const data = key !== undefined ? stored.organizations[key] : undefined;
+    if (!data) return null;
+    log.debug(`Tokens loaded for: ${data.userEmail || 'unknown'} in ${key}`);
+    return data;
+  }
 
-    return decipher.update(encrypted) + decipher.final('utf8');
+  /**
+   * All organizations with stored tokens
+   */
+  loadAll(): StoredOrganizations | null {
+    return this.read();
   }
 
   /**
-   * Save tokens to encrypted file
+   * Make a stored organization the active one
    */
-  save(data: StoredTokens): void {
-    try {
-      const dir = dirname(this.filePath);
-      console.error(`[TokenStore] Saving tokens to: ${this.filePath}`);
-      if (!existsSync(dir)) {
-        console.error(`[TokenStore] Creating directory: ${dir}`);
-        mkdirSync(dir, { recursive: true, mode: 0o700 });
+  async setActive(organizationSlug: string): Promise<StoredTokens> {
+    let data: StoredTokens | undefined;
+    await this.update((stored) => {
+      data = stored.organizations[organizationSlug];
+      if (!data) {
+        throw new Error(`No stored credentials for organization "${organizationSlug}"`);
       }
-
-      const encrypted = this.encrypt(JSON.stringify(data));
-      writeFileSync(this.filePath, encrypted, { mode: 0o600 });
-      console.error(`[TokenStore] Tokens saved successfully`);
-    } catch (error) {
-      console.error(`[TokenStore] Failed to save tokens:`, error);
-      throw error;
-    }
+      stored.activeOrganization = organizationSlug;
+    });
+    return data!;
   }
 
   /**
-   * Load tokens from encrypted file
+   * Forget one organization's tokens
    */
-  load(): StoredTokens | null {
-    console.error(`[TokenStore] Loading tokens from: ${this.filePath}`);
-    if (!existsSync(this.filePath)) {
-      console.error(`[TokenStore] Token file does not exist`);
-      return null;
-    }
+  async remove(organizationSlug: string): Promise<void> {
+    if (!this.read()?.organizations[organizationSlug]) return;
 
-    try {
-      const encrypted = readFileSync(this.filePath);
-      const decrypted = this.decrypt(encrypted);
-      const data = JSON.parse(decrypted) as StoredTokens;
-      console.error(`[TokenStore] Tokens loaded for: ${data.userEmail || 'unknown'}`);
-      return data;
-    } catch (error) {
-      // If decryption fails, the file might be corrupted
-      console.error('[TokenStore] Failed to load tokens:', error);
-      return null;
-    }
+    await this.update((stored) => {
+      delete stored.organizations[organizationSlug];
+      if (stored.activeOrganization === organizationSlug) {
+        stored.activeOrganization = Object.keys(stored.organizations)[0];
+      }
+    });
   }
 
   /**
-   * Delete stored tokens
+   * Delete stored tokens for all organizations
    */
-  clear(): void {
-    if (existsSync(this.filePath)) {
-      writeFileSync(this.filePath, '', { mode: 0o600 });
-    }
+  clear(): Promise<void> {
+    return this.storage.clear();
   }
 
   /**
    * Check if tokens exist
    */
   hasTokens(): boolean {
-    return existsSync(this.filePath) && this.load() !== null;
+    return this.load() !== null;
   }
 
   /**
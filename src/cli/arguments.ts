@@ -0,0 +1,237 @@
+/**
+ * Tool arguments from the command line
+ *
+ * `--name value` flags are converted to the types in the tool's inputSchema
+ * and merged over `--json '{...}'`. The result is checked against the schema
+ * before the tool runs, so typos fail fast instead of reaching the API.
+ */
+
+import type { ToolDefinition } from '../tools/shared.js';
+
+interface PropertySchema {
+  // A list for unions such as IDs: ['number', 'string']
+  type?: string | string[];
+  enum?: unknown[];
+  items?: PropertySchema;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+  description?: string;
+}
+
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+function propertySchema(definition: ToolDefinition, name: string): PropertySchema | undefined {
+  return definition.inputSchema.properties[name] as PropertySchema | undefined;
+}
+
+/**
+ * Convert a flag value to the type the schema asks for. Values that don't
+ * convert are kept as strings so validation can report them.
+ */
+function convertValue(raw: string, schema: PropertySchema | undefined): unknown {
+  if (Array.isArray(schema?.type)) {
+    // Prefer the first type the value converts to, e.g. 123 as a number, abc as a string
+    for (const type of schema.type) {
+      const value = convertValue(raw, { ...schema, type });
+      if (typeMatches(value, type)) return value;
+    }
+    return raw;
+  }
+  switch (schema?.type) {
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : raw;
+    }
+    case 'boolean':
+      if (raw === 'true') return true;
+      if (raw === 'false') return false;
+      return raw;
+    case 'array':
+      if (raw.trim().startsWith('[')) {
+        return parseJson(raw, 'array');
+      }
+      return raw.split(',').map((item) => convertValue(item.trim(), schema.items));
+    case 'object':
+      return parseJson(raw, 'object');
+    default:
+      return raw;
+  }
+}
+
+function parseJson(raw: string, what: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new ToolArgumentError(`Invalid JSON ${what}: ${error instanceof Error ? error.message : raw}`);
+  }
+}
+
+export interface ParsedCallArguments {
+  args: Record<string, unknown>;
+  /** Output format from --format */
+  format?: string;
+}
+
+/**
+ * Build tool arguments from `--json '{...}'` and `--name value` flags.
+ * Flag names may use dashes for underscores (--per-page for per_page).
+ */
+export function parseToolArguments(definition: ToolDefinition, argv: string[]): ParsedCallArguments {
+  let base: Record<string, unknown> = {};
+  const flags: Record<string, unknown> = {};
+  let format: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (!token.startsWith('--') || token === '--') {
+      throw new ToolArgumentError(`Unexpected argument "${token}". Pass tool arguments as --name value.`);
+    }
+
+    const equals = token.indexOf('=');
+    const flag = token.slice(2, equals > 0 ? equals : undefined);
+    const inlineValue = equals > 0 ? token.slice(equals + 1) : undefined;
+    const next = argv[i + 1];
+    const hasNext = next !== undefined && !next.startsWith('--');
+
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue;
+      if (!hasNext) {
+        throw new ToolArgumentError(`--${flag} needs a value`);
+      }
+      i++;
+      return next;
+    };
+
+    if (flag === 'json') {
+      const json = parseJson(takeValue(), 'for --json');
+      if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new ToolArgumentError('--json must be a JSON object');
+      }
+      base = json as Record<string, unknown>;
+      continue;
+    }
+    if (flag === 'format') {
+      format = takeValue();
+      continue;
+    }
+
+    let name = flag.replace(/-/g, '_');
+    const schema = propertySchema(definition, name);
+
+    // --no-watermarked for booleans
+    if (!schema && name.startsWith('no_') && propertySchema(definition, name.slice(3))?.type === 'boolean') {
+      name = name.slice(3);
+      flags[name] = false;
+      continue;
+    }
+
+    if (schema?.type === 'boolean' && inlineValue === undefined && (!hasNext || (next !== 'true' && next !== 'false'))) {
+      flags[name] = true;
+      continue;
+    }
+
+    // Unknown flags keep the spelling used, so validation names them as typed
+    if (!schema) name = flag;
+    const value = convertValue(takeValue(), schema);
+
+    // Repeating an array flag adds items
+    if (schema?.type === 'array' && Array.isArray(flags[name]) && Array.isArray(value)) {
+      flags[name] = [...(flags[name] as unknown[]), ...value];
+    } else {
+      flags[name] = value;
+    }
+  }
+
+  return { args: { ...base, ...flags }, format };
+}
+
+function typeMatches(value: unknown, type: string | string[] | undefined): boolean {
+  if (Array.isArray(type)) {
+    return type.some((option) => typeMatches(value, option));
+  }
+  switch (type) {
+    case undefined:
+      return true;
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function checkValue(value: unknown, schema: PropertySchema, path: string, errors: string[]): void {
+  if (!typeMatches(value, schema.type)) {
+    const types = ([] as string[]).concat(schema.type ?? []);
+    const article = types[0] === 'array' || types[0] === 'object' || types[0] === 'integer' ? 'an' : 'a';
+    errors.push(`${path} must be ${article} ${types.join(' or ')}, got ${JSON.stringify(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => checkValue(item, schema.items!, `${path}[${index}]`, errors));
+  }
+  if (schema.type === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (object[name] === undefined) errors.push(`${path}.${name} is required`);
+    }
+    for (const [name, property] of Object.entries(schema.properties)) {
+      if (object[name] !== undefined) checkValue(object[name], property, `${path}.${name}`, errors);
+    }
+  }
+}
+
+/**
+ * Check arguments against a tool's inputSchema; returns one message per problem
+ */
+export function validateToolArguments(definition: ToolDefinition, args: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const { properties, required } = definition.inputSchema;
+
+  for (const name of required) {
+    if (args[name] === undefined) errors.push(`--${name} is required`);
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const schema = properties[name] as PropertySchema | undefined;
+    if (!schema) {
+      errors.push(`Unknown argument --${name}`);
+      continue;
+    }
+    checkValue(value, schema, `--${name}`, errors);
+  }
+  return errors;
+}
+
+/**
+ * One line per argument for `tools <name>`, e.g. "--id <number> (required)  Asset ID"
+ */
+export function describeToolArguments(definition: ToolDefinition): string[] {
+  const { properties, required } = definition.inputSchema;
+  return Object.entries(properties).map(([name, raw]) => {
+    const schema = raw as PropertySchema;
+    const type = schema.enum
+      ? schema.enum.join('|')
+      : schema.type === 'array' ? `${schema.items?.type || 'value'},...` : ([] as string[]).concat(schema.type ?? 'value').join('|');
+    const usage = `--${name} <${type}>${required.includes(name) ? ' (required)' : ''}`;
+    return schema.description ? `${usage.padEnd(40)} ${schema.description}` : usage;
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * `audit` command: query the audit log by date, tool or asset
+ */
+
+import type { AuditEntry, AuditLog, AuditQuery } from '../audit/audit-log.js';
+import { consoleOutput, formatTable, EXIT_TOOL_ERROR, EXIT_USAGE, type CliOutput } from './output.js';
+import { ToolArgumentError } from './arguments.js';
+
+const AUDIT_USAGE = 'Usage: npx @mediagraph/mcp audit [--since <time>] [--until <time>] [--tool <name>] [--asset <id>] [--errors] [--limit <n>] [--json]';
+
+// Most recent entries shown when --limit isn't given
+const DEFAULT_LIMIT = 50;
+
+const RELATIVE_UNITS: Record<string, number> = { m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * A time for --since and --until: 2026-03-01, an ISO 8601 date and time, or a
+ * duration before now such as 30m, 12h or 7d. A bare date used as --until
+ * includes that whole day.
+ */
+export function parseAuditTime(value: string, flag: string, now = new Date()): Date {
+  const relative = /^(\d+)([mhd])$/.exec(value);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2]]);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    // Local midnight, like the dates people think in
+    const date = new Date(`${value}T00:00:00`);
+    if (flag === '--until') date.setDate(date.getDate() + 1);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ToolArgumentError(`${flag} must be a date (2026-03-01), a date and time, or a duration like 12h or 7d`);
+  }
+  return new Date(time);
+}
+
+function parseAuditArguments(argv: string[]): { query: AuditQuery; limit: number; json: boolean } {
+  const query: AuditQuery = {};
+  let limit = DEFAULT_LIMIT;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined || next.startsWith('--')) {
+        throw new ToolArgumentError(`${flag} needs a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--since':
+        query.since = parseAuditTime(value(), flag);
+        break;
+      case '--until':
+        query.until = parseAuditTime(value(), flag);
+        break;
+      case '--tool':
+        query.tool = value();
+        break;
+      case '--asset':
+        query.assetId = value();
+        break;
+      case '--errors':
+        query.errorsOnly = true;
+        break;
+      case '--limit':
+        limit = parseInt(value(), 10);
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new ToolArgumentError('--limit must be a positive number');
+        }
+        break;
+      case '--json':
+        json = true;
+        break;
+      default:
+        throw new ToolArgumentError(`Unknown option ${flag}`);
+    }
+  }
+  return { query, limit, json };
+}
+
+function formatIds(entry: AuditEntry): string {
+  const ids = Object.entries(entry.affectedIds).map(([name, values]) => `${name}=${values.join(',')}`);
+  if (entry.assetIds) ids.push(`assets=${entry.assetIds.join(',')}`);
+  return ids.join(' ');
+}
+
+/**
+ * audit [filters]; prints the most recent matching entries, oldest first
+ */
+export function runAuditCommand(argv: string[], options: { auditLog: AuditLog | null; output?: CliOutput }): number {
+  const output = options.output || consoleOutput;
+  if (!options.auditLog) {
+    output.err('The audit log is turned off. Set MEDIAGRAPH_AUDIT_LOG to a file (or remove "auditLog": false from the profile) to record tool calls.');
+    return EXIT_TOOL_ERROR;
+  }
+
+  let parsed: ReturnType<typeof parseAuditArguments>;
+  try {
+    parsed = parseAuditArguments(argv);
+  } catch (error) {
+    if (!(error instanceof ToolArgumentError)) throw error;
+    output.err(error.message);
+    output.err(AUDIT_USAGE);
+    return EXIT_USAGE;
+  }
+
+  const entries = options.auditLog.query(parsed.query).slice(-parsed.limit);
+  if (parsed.json) {
+    output.out(JSON.stringify(entries, null, 2));
+    return 0;
+  }
+  if (entries.length === 0) {
+    output.out(`No matching tool calls in ${options.auditLog.filePath}`);
+    return 0;
+  }
+
+  output.out(formatTable(entries.map((entry) => ({
+    time: entry.timestamp,
+    profile: entry.profile,
+    organization: entry.organization,
+    tool: entry.tool,
+    ids: formatIds(entry),
+    result: `${entry.success ? 'ok' : `error: ${entry.error || ''}`}${entry.dryRun ? ' (dry run)' : ''}`,
+    ms: entry.durationMs,
+  }))));
+  return 0;
+}
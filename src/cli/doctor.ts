@@ -0,0 +1,335 @@
+/**
+ * `doctor` command: check the pieces the server depends on
+ *
+ * Each check reports ok, warning, error or skipped with a hint on how to fix
+ * it, so a server that misbehaves in a desktop host can be narrowed down to
+ * the token, the network, the callback port or the install.
+ */
+
+import { createServer } from 'node:net';
+import { existsSync } from 'node:fs';
+import { MediagraphApiError, type MediagraphClient } from '../api/client.js';
+import type { TokenData } from '../auth/oauth.js';
+import type { TokenStore, StoredTokens } from '../auth/token-store.js';
+import { checkToolDefinitions, getToolDefinitions, toolDefinitions, validateToolPolicy, type ToolPolicy } from '../tools/index.js';
+import { consoleOutput, type CliOutput } from './output.js';
+
+export type CheckStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or error */
+  hint?: string;
+}
+
+export interface CheckResult extends CheckOutcome {
+  name: string;
+}
+
+export interface DoctorCheck {
+  name: string;
+  run(): Promise<CheckOutcome> | CheckOutcome;
+}
+
+const AUTHORIZE_HINT = 'Run "npx @mediagraph/mcp authorize" to sign in.';
+
+// Tokens this close to expiry are refreshed before use, same as the server
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const DEFAULT_REACH_TIMEOUT_MS = 10000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * A check that doesn't apply to this setup
+ */
+export function skippedCheck(name: string, message: string): DoctorCheck {
+  return { name, run: () => ({ status: 'skipped', message }) };
+}
+
+/**
+ * The token file can be decrypted and holds a sign-in
+ */
+export function tokenFileCheck(tokenStore: TokenStore): DoctorCheck {
+  return {
+    name: 'Token storage',
+    run() {
+      try {
+        tokenStore.verify();
+      } catch (error) {
+        return {
+          status: 'error',
+          message: errorMessage(error),
+          hint: 'Set MEDIAGRAPH_TOKEN_PASSPHRASE to the passphrase used when signing in, or run "npx @mediagraph/mcp logout" and then "npx @mediagraph/mcp authorize" to replace the file.',
+        };
+      }
+
+      const organizations = Object.keys(tokenStore.loadAll()?.organizations || {});
+      if (organizations.length === 0) {
+        return { status: 'warning', message: `${tokenStore.description}: no stored sign-in`, hint: AUTHORIZE_HINT };
+      }
+      return {
+        status: 'ok',
+        message: `${tokenStore.description}: ${organizations.length} organization${organizations.length === 1 ? '' : 's'} (${organizations.join(', ')})`,
+      };
+    },
+  };
+}
+
+function minutesLeft(tokens: TokenData): number {
+  return Math.round((tokens.expires_at - Date.now()) / 60000);
+}
+
+/**
+ * The active organization's access token is valid, or can be refreshed
+ */
+export function tokenExpiryCheck(options: {
+  load(): StoredTokens | null;
+  /** Refresh and save the tokens; throws when the server refuses */
+  refresh(stored: StoredTokens): Promise<TokenData>;
+}): DoctorCheck {
+  return {
+    name: 'Access token',
+    async run() {
+      const stored = options.load();
+      if (!stored?.tokens) {
+        return { status: 'skipped', message: 'Not signed in' };
+      }
+
+      const { tokens } = stored;
+      if (Date.now() < tokens.expires_at - REFRESH_MARGIN_MS) {
+        return tokens.refresh_token
+          ? { status: 'ok', message: `Valid for ${minutesLeft(tokens)} minutes, refresh token available` }
+          : {
+            status: 'warning',
+            message: `Valid for ${minutesLeft(tokens)} minutes, but there is no refresh token`,
+            hint: `You will have to sign in again when it expires. ${AUTHORIZE_HINT}`,
+          };
+      }
+
+      if (!tokens.refresh_token) {
+        return { status: 'error', message: 'Expired and there is no refresh token', hint: AUTHORIZE_HINT };
+      }
+      try {
+        const refreshed = await options.refresh(stored);
+        return { status: 'ok', message: `Expired, refreshed (valid for ${minutesLeft(refreshed)} minutes)` };
+      } catch (error) {
+        return { status: 'error', message: `Expired and the refresh failed: ${errorMessage(error)}`, hint: AUTHORIZE_HINT };
+      }
+    },
+  };
+}
+
+/**
+ * Any HTTP response from the URL counts as reachable
+ */
+export function reachabilityCheck(name: string, url: string, options: {
+  /** Setting that changes the URL, named in the hint */
+  setting: string;
+  timeoutMs?: number;
+}): DoctorCheck {
+  return {
+    name,
+    async run() {
+      const started = Date.now();
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          redirect: 'manual',
+          signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_REACH_TIMEOUT_MS),
+        });
+        await response.body?.cancel();
+      } catch (error) {
+        const cause = (error as { cause?: unknown }).cause;
+        return {
+          status: 'error',
+          message: `${url} is unreachable: ${cause ? errorMessage(cause) : errorMessage(error)}`,
+          hint: `Check the network connection, proxy and firewall, and that ${options.setting} is correct.`,
+        };
+      }
+
+      const message = `${url} responded with HTTP ${response.status} in ${Date.now() - started} ms`;
+      if (response.status >= 500) {
+        return { status: 'warning', message, hint: 'Mediagraph may be having problems, try again later.' };
+      }
+      return { status: 'ok', message };
+    },
+  };
+}
+
+function canListen(port: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'EADDRINUSE' || error.code === 'EACCES') {
+        resolve(false);
+      } else {
+        reject(error);
+      }
+    });
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * A sign-in callback port can be bound, the same way the OAuth handler tries them
+ */
+export function redirectPortCheck(ports: number[]): DoctorCheck {
+  return {
+    name: 'Callback port',
+    async run() {
+      for (const [index, port] of ports.entries()) {
+        if (!(await canListen(port))) continue;
+        if (index === 0) {
+          return { status: 'ok', message: `Port ${port} is free` };
+        }
+        return {
+          status: 'warning',
+          message: `Port ${ports.slice(0, index).join(', ')} in use, sign-in will use port ${port}`,
+          hint: 'Make sure the OAuth client allows this redirect port, or stop the program using the first one.',
+        };
+      }
+      return {
+        status: 'error',
+        message: `Port${ports.length > 1 ? 's' : ''} ${ports.join(', ')} in use`,
+        hint: 'Set MEDIAGRAPH_REDIRECT_PORT to a free port or range (e.g. 52584-52590), or use MEDIAGRAPH_AUTH_FLOW=device.',
+      };
+    },
+  };
+}
+
+/**
+ * The API accepts the token and says who it belongs to
+ */
+export function whoamiCheck(client: MediagraphClient, getAccessToken: () => Promise<string | null>): DoctorCheck {
+  return {
+    name: 'Whoami',
+    async run() {
+      if (!(await getAccessToken())) {
+        return { status: 'skipped', message: 'No usable access token' };
+      }
+      try {
+        const whoami = await client.whoami();
+        const organization = whoami.organization?.title || whoami.organization?.name || 'Unknown organization';
+        const role = whoami.membership?.role ? `, ${whoami.membership.role}` : '';
+        return {
+          status: 'ok',
+          message: `${whoami.user?.email || 'Unknown user'} in ${organization} (${whoami.organization?.slug}${role})`,
+        };
+      } catch (error) {
+        const rejected = error instanceof MediagraphApiError && (error.statusCode === 401 || error.statusCode === 403);
+        return {
+          status: 'error',
+          message: errorMessage(error),
+          hint: rejected ? AUTHORIZE_HINT : 'Check the API URL and the network checks above.',
+        };
+      }
+    },
+  };
+}
+
+/**
+ * The bundled MCP App UI the visual tools show
+ */
+export function appBundleCheck(path: string): DoctorCheck {
+  return {
+    name: 'App bundle',
+    run() {
+      return existsSync(path)
+        ? { status: 'ok', message: path }
+        : {
+          status: 'warning',
+          message: `${path} is missing, visual tools will show a placeholder`,
+          hint: 'Rebuild with "npm run build", or reinstall @mediagraph/mcp.',
+        };
+    },
+  };
+}
+
+/**
+ * Tool definitions are consistent and the tool policy names real tools
+ */
+export function toolDefinitionsCheck(policy: ToolPolicy): DoctorCheck {
+  return {
+    name: 'Tools',
+    run() {
+      const problems = checkToolDefinitions();
+      if (problems.length > 0) {
+        return { status: 'error', message: problems.join('; '), hint: 'This is a bug in this build, please report it.' };
+      }
+      try {
+        validateToolPolicy(policy);
+      } catch (error) {
+        return {
+          status: 'error',
+          message: errorMessage(error),
+          hint: 'Fix MEDIAGRAPH_TOOL_MODULES, MEDIAGRAPH_DENY_TOOLS or the tool policy file.',
+        };
+      }
+      return { status: 'ok', message: `${getToolDefinitions(policy).length} of ${toolDefinitions.length} tools enabled` };
+    },
+  };
+}
+
+/**
+ * Run checks in order; a check that throws counts as an error
+ */
+export async function runChecks(checks: DoctorCheck[]): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const check of checks) {
+    try {
+      results.push({ name: check.name, ...(await check.run()) });
+    } catch (error) {
+      results.push({ name: check.name, status: 'error', message: errorMessage(error) });
+    }
+  }
+  return results;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  ok: '[ok]  ',
+  warning: '[warn]',
+  error: '[fail]',
+  skipped: '[skip]',
+};
+
+/**
+ * Text report, one line per check with hints indented below
+ */
+export function formatDoctorReport(results: CheckResult[]): string {
+  const width = Math.max(...results.map((result) => result.name.length));
+  const lines = results.flatMap((result) => [
+    `${STATUS_LABELS[result.status]} ${result.name.padEnd(width)}  ${result.message}`,
+    ...(result.hint && result.status !== 'ok' ? [`       ${' '.repeat(width)}  ${result.hint}`] : []),
+  ]);
+
+  const errors = results.filter((result) => result.status === 'error').length;
+  const warnings = results.filter((result) => result.status === 'warning').length;
+  lines.push('');
+  lines.push(errors || warnings
+    ? `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`
+    : 'All checks passed');
+  return lines.join('\n');
+}
+
+/**
+ * doctor [--json]; resolves to 1 when a check failed, 0 otherwise
+ */
+export async function runDoctorCommand(
+  argv: string[],
+  checks: DoctorCheck[],
+  output: CliOutput = consoleOutput,
+): Promise<number> {
+  const results = await runChecks(checks);
+  const ok = results.every((result) => result.status !== 'error');
+
+  if (argv.includes('--json')) {
+    output.out(JSON.stringify({ ok, checks: results }, null, 2));
+  } else {
+    output.out(formatDoctorReport(results));
+  }
+  return ok ? 0 : 1;
+}
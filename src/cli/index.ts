@@ -0,0 +1,191 @@
+/**
+ * `call` and `tools` commands: run the MCP tools from a terminal or script
+ *
+ * Tools go through the same definitions, policy and handleTool as MCP calls,
+ * so scripts get the same validation, confirmation and results.
+ */
+
+import { createInterface } from 'node:readline/promises';
+import { getToolDefinitions, handleTool, toolDefinitions, type ToolContext, type ToolPolicy } from '../tools/index.js';
+import type { ToolDefinition } from '../tools/shared.js';
+import { parseToolArguments, validateToolArguments, describeToolArguments, ToolArgumentError } from './arguments.js';
+import {
+  formatToolResult,
+  consoleOutput,
+  OUTPUT_FORMATS,
+  EXIT_TOOL_ERROR,
+  EXIT_USAGE,
+  type CliOutput,
+  type OutputFormat,
+} from './output.js';
+
+export { parseToolArguments, validateToolArguments, describeToolArguments, ToolArgumentError } from './arguments.js';
+export {
+  formatToolResult,
+  formatTable,
+  resultData,
+  EXIT_TOOL_ERROR,
+  EXIT_USAGE,
+  type CliOutput,
+  type OutputFormat,
+} from './output.js';
+export { runAuditCommand, parseAuditTime } from './audit.js';
+export {
+  runDoctorCommand,
+  runChecks,
+  formatDoctorReport,
+  skippedCheck,
+  tokenFileCheck,
+  tokenExpiryCheck,
+  reachabilityCheck,
+  redirectPortCheck,
+  whoamiCheck,
+  appBundleCheck,
+  toolDefinitionsCheck,
+  type DoctorCheck,
+  type CheckResult,
+} from './doctor.js';
+
+const CALL_USAGE = "Usage: npx @mediagraph/mcp call <tool> [--name value ...] [--json '{...}'] [--format json|table]";
+
+export interface CallCommandOptions {
+  /** Context for the signed-in user; throws with a message when there is none */
+  createContext(args: Record<string, unknown>): Promise<ToolContext>;
+  policy?: ToolPolicy;
+  output?: CliOutput;
+}
+
+/**
+ * Ask on the terminal before destructive tools run
+ */
+export async function confirmInTerminal(message: string): Promise<boolean> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await prompt.question(`${message} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+function findTool(name: string, policy: ToolPolicy | undefined, output: CliOutput): ToolDefinition | null {
+  const definition = getToolDefinitions(policy).find((tool) => tool.name === name);
+  if (definition) {
+    return definition;
+  }
+  if (toolDefinitions.some((tool) => tool.name === name)) {
+    output.err(`Tool ${name} is disabled by this server's tool policy`);
+  } else {
+    output.err(`Unknown tool: ${name}. Run "npx @mediagraph/mcp tools" to list the available tools.`);
+  }
+  return null;
+}
+
+/**
+ * call <tool> [--name value ...]; resolves to the process exit code
+ */
+export async function runCallCommand(argv: string[], options: CallCommandOptions): Promise<number> {
+  const output = options.output || consoleOutput;
+  const [name, ...rest] = argv;
+  if (!name || name.startsWith('--')) {
+    output.err(CALL_USAGE);
+    return EXIT_USAGE;
+  }
+
+  const definition = findTool(name, options.policy, output);
+  if (!definition) {
+    return EXIT_USAGE;
+  }
+
+  let args: Record<string, unknown>;
+  let format: OutputFormat = 'json';
+  try {
+    const parsed = parseToolArguments(definition, rest);
+    args = parsed.args;
+    if (parsed.format !== undefined) {
+      if (!OUTPUT_FORMATS.includes(parsed.format as OutputFormat)) {
+        throw new ToolArgumentError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+      }
+      format = parsed.format as OutputFormat;
+    }
+  } catch (error) {
+    if (!(error instanceof ToolArgumentError)) throw error;
+    output.err(error.message);
+    return EXIT_USAGE;
+  }
+
+  const problems = validateToolArguments(definition, args);
+  if (problems.length > 0) {
+    output.err(`Invalid arguments for ${name}:`);
+    problems.forEach((problem) => output.err(`  ${problem}`));
+    output.err(`Run "npx @mediagraph/mcp tools ${name}" to see its arguments.`);
+    return EXIT_USAGE;
+  }
+
+  let context: ToolContext;
+  try {
+    context = await options.createContext(args);
+  } catch (error) {
+    output.err(error instanceof Error ? error.message : String(error));
+    return EXIT_TOOL_ERROR;
+  }
+
+  const result = await handleTool(name, args, context);
+  const text = formatToolResult(result, format);
+  if (result.isError) {
+    output.err(text);
+    return EXIT_TOOL_ERROR;
+  }
+  output.out(text);
+  return 0;
+}
+
+function firstSentence(text: string): string {
+  const match = /^.*?[.!?](\s|$)/.exec(text);
+  return (match ? match[0] : text).trim();
+}
+
+/**
+ * tools [name] [--json]: list tools, or show one tool's arguments
+ */
+export function runToolsCommand(argv: string[], options: { policy?: ToolPolicy; output?: CliOutput } = {}): number {
+  const output = options.output || consoleOutput;
+  const json = argv.includes('--json');
+  const name = argv.find((arg) => !arg.startsWith('--'));
+
+  if (name) {
+    const definition = findTool(name, options.policy, output);
+    if (!definition) {
+      return EXIT_USAGE;
+    }
+    if (json) {
+      output.out(JSON.stringify(definition, null, 2));
+      return 0;
+    }
+    output.out(`${definition.name}${definition.annotations.readOnlyHint ? ' (read-only)' : ''}`);
+    output.out('');
+    output.out(definition.description);
+    output.out('');
+    output.out('Arguments:');
+    const lines = describeToolArguments(definition);
+    output.out(lines.length > 0 ? lines.map((line) => `  ${line}`).join('\n') : '  (none)');
+    return 0;
+  }
+
+  const definitions = getToolDefinitions(options.policy);
+  if (json) {
+    output.out(JSON.stringify(definitions.map(({ name, description, annotations, inputSchema }) => ({
+      name,
+      description,
+      annotations,
+      inputSchema,
+    })), null, 2));
+    return 0;
+  }
+
+  const width = Math.max(...definitions.map((definition) => definition.name.length));
+  for (const definition of definitions) {
+    output.out(`${definition.name.padEnd(width)}  ${firstSentence(definition.description)}`);
+  }
+  return 0;
+}
@@ -0,0 +1,127 @@
+/**
+ * Printing tool results on the command line, as JSON or as a table
+ */
+
+import type { ToolResult } from '../tools/shared.js';
+
+export type OutputFormat = 'json' | 'table';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table'];
+
+/**
+ * Where commands print; tests capture it instead of the console
+ */
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+export const consoleOutput: CliOutput = {
+  out: (text) => console.log(text),
+  err: (text) => console.error(text),
+};
+
+// Exit codes: 1 when the tool reports an error, 2 for a bad command line
+export const EXIT_TOOL_ERROR = 1;
+export const EXIT_USAGE = 2;
+
+// Longest cell before it is cut off with an ellipsis
+const MAX_CELL_WIDTH = 60;
+
+function tryParseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The machine-readable part of a result: its structuredContent, or the one
+ * text block holding JSON (others are notes like "Organization: acme")
+ */
+export function resultData(result: ToolResult): unknown {
+  if (result.structuredContent) {
+    return result.structuredContent;
+  }
+  const parsed = result.content.map((block) => tryParseJson(block.text)).filter((data) => data !== undefined);
+  return parsed.length === 1 ? parsed[0] : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const line = text.replace(/\s+/g, ' ');
+  return line.length > MAX_CELL_WIDTH ? `${line.slice(0, MAX_CELL_WIDTH - 1)}…` : line;
+}
+
+/**
+ * Render rows as an aligned text table with a header
+ */
+export function formatTable(rows: Record<string, unknown>[], columns?: string[]): string {
+  const keys = columns || [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = rows.map((row) => keys.map((key) => cell(row[key])));
+  const widths = keys.map((key, index) => Math.max(key.length, ...cells.map((row) => row[index].length)));
+
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+  return [
+    line(keys),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+/**
+ * Rows for a table: a list itself, the one list inside an object such as
+ * { assets: [...], total: 3 }, or the fields of a single object
+ */
+function tableRows(data: unknown): { rows: Record<string, unknown>[]; columns?: string[] } | null {
+  if (Array.isArray(data)) {
+    return data.every(isRecord)
+      ? { rows: data }
+      : { rows: data.map((value) => ({ value })) };
+  }
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  const lists = Object.values(data).filter((value) => Array.isArray(value) && value.every(isRecord));
+  if (lists.length === 1) {
+    return { rows: lists[0] as Record<string, unknown>[] };
+  }
+  return {
+    rows: Object.entries(data).map(([field, value]) => ({ field, value })),
+    columns: ['field', 'value'],
+  };
+}
+
+/**
+ * Text to print for a result. Results without JSON data (summaries, errors)
+ * are printed as they are in either format.
+ */
+export function formatToolResult(result: ToolResult, format: OutputFormat): string {
+  const text = result.content.map((block) => block.text).join('\n');
+  const data = resultData(result);
+  if (data === undefined || result.isError) {
+    return text;
+  }
+
+  if (format === 'table') {
+    const table = tableRows(data);
+    if (table && table.rows.length > 0) {
+      return formatTable(table.rows, table.columns);
+    }
+    if (table) {
+      return '(no results)';
+    }
+  }
+  return JSON.stringify(data, null, 2);
+}
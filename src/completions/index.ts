@@ -0,0 +1,218 @@
+/**
+ * Argument completion for Mediagraph resource templates and prompts
+ *
+ * Resolves completion/complete requests for collection and lightbox IDs and
+ * tag names. Lookups are cached for a short time so autocomplete stays
+ * responsive while the user types.
+ */
+
+import type { MediagraphClient } from '../api/client.js';
+import type { AssetGroupTree } from '../api/types/index.js';
+import { parseUri } from '../resources/index.js';
+import { logger as defaultLogger, type Logger } from '../logger.js';
+
+export type CompletionKind = 'collection' | 'lightbox' | 'tag';
+
+export type CompletionReference =
+  | { type: 'ref/resource'; uri: string }
+  | { type: 'ref/prompt'; name: string };
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ArgumentCompletionsConfig {
+  client: MediagraphClient;
+  cacheTtlMs?: number;
+  logger?: Logger;
+}
+
+interface CompletionCandidate {
+  value: string;
+  label: string;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  candidates: Promise<CompletionCandidate[]>;
+}
+
+// The MCP spec caps a completion response at 100 values
+const MAX_VALUES = 100;
+const DEFAULT_CACHE_TTL_MS = 30000;
+
+// Argument names that complete the same way wherever they appear
+const argumentKinds: Record<string, CompletionKind> = {
+  collection_id: 'collection',
+  lightbox_id: 'lightbox',
+};
+
+// Prompt arguments whose generic names need a specific meaning
+const promptArgumentKinds: Record<string, Record<string, CompletionKind>> = {
+  clean_up_duplicate_tags: { q: 'tag' },
+};
+
+// Resource templates complete their {id} by resource type
+const resourceKinds: Record<string, CompletionKind> = {
+  collection: 'collection',
+  lightbox: 'lightbox',
+};
+
+const EMPTY_RESULT: CompletionResult = { values: [], total: 0, hasMore: false };
+
+/**
+ * Work out what an argument refers to, or undefined if it has no completions
+ */
+export function getCompletionKind(ref: CompletionReference, argumentName: string): CompletionKind | undefined {
+  if (ref.type === 'ref/prompt') {
+    return promptArgumentKinds[ref.name]?.[argumentName] ?? argumentKinds[argumentName];
+  }
+
+  if (argumentName !== 'id') {
+    return argumentKinds[argumentName];
+  }
+  try {
+    return resourceKinds[parseUri(ref.uri).type];
+  } catch {
+    return undefined;
+  }
+}
+
+function flattenTree(nodes: AssetGroupTree[], parentPath = ''): CompletionCandidate[] {
+  return nodes.flatMap((node) => {
+    const path = parentPath ? `${parentPath} / ${node.name}` : node.name;
+    return [
+      { value: String(node.id), label: path },
+      ...flattenTree(node.children || [], path),
+    ];
+  });
+}
+
+/**
+ * Rank candidates matching the typed value: exact ID, then name prefix, then substring
+ */
+function match(candidates: CompletionCandidate[], typed: string): string[] {
+  const needle = typed.trim().toLowerCase();
+  if (!needle) {
+    return candidates.map(c => c.value);
+  }
+
+  const ranked: { value: string; rank: number }[] = [];
+  for (const candidate of candidates) {
+    const label = candidate.label.toLowerCase();
+    const name = label.split(' / ').pop() || label;
+    let rank: number;
+    if (candidate.value.startsWith(needle)) {
+      rank = 0;
+    } else if (name.startsWith(needle)) {
+      rank = 1;
+    } else if (label.includes(needle)) {
+      rank = 2;
+    } else {
+      continue;
+    }
+    ranked.push({ value: candidate.value, rank });
+  }
+
+  return ranked.sort((a, b) => a.rank - b.rank).map(r => r.value);
+}
+
+export class ArgumentCompletions {
+  private client: MediagraphClient;
+  private cacheTtlMs: number;
+  private log: Logger;
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(config: ArgumentCompletionsConfig) {
+    this.client = config.client;
+    this.cacheTtlMs = config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.log = config.logger || defaultLogger.child('Completions');
+  }
+
+  /**
+   * Complete an argument value for a resource template or prompt
+   */
+  async complete(ref: CompletionReference, argument: { name: string; value: string }): Promise<CompletionResult> {
+    const kind = getCompletionKind(ref, argument.name);
+    if (!kind) {
+      return EMPTY_RESULT;
+    }
+
+    try {
+      const candidates = await this.getCandidates(kind, argument.value);
+      const values = [...new Set(match(candidates, argument.value))];
+      return {
+        values: values.slice(0, MAX_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_VALUES,
+      };
+    } catch (error) {
+      this.log.warning(`Failed to complete ${kind}`, error);
+      return EMPTY_RESULT;
+    }
+  }
+
+  /**
+   * Drop all cached lookups (e.g. after switching organizations)
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private getCandidates(kind: CompletionKind, typed: string): Promise<CompletionCandidate[]> {
+    // Tags are searched server-side, everything else is filtered locally
+    if (kind === 'tag') {
+      const q = typed.trim().toLowerCase();
+      return this.cached(`tag:${q}`, async () => {
+        const tags = await this.client.listTags({ q: q || undefined, per_page: MAX_VALUES });
+        return tags.map(tag => ({ value: tag.name, label: tag.name }));
+      });
+    }
+
+    return this.cached(kind, () => this.loadCandidates(kind));
+  }
+
+  private async loadCandidates(kind: Exclude<CompletionKind, 'tag'>): Promise<CompletionCandidate[]> {
+    // Trees include nested groups; fall back to the flat list if unavailable
+    try {
+      const tree = kind === 'collection'
+        ? await this.client.getCollectionsTree()
+        : await this.client.getLightboxesTree();
+      return flattenTree(tree);
+    } catch (error) {
+      this.log.debug(`Failed to load ${kind} tree, using list instead`, error);
+      const params = { per_page: MAX_VALUES };
+      const groups = kind === 'collection'
+        ? await this.client.listCollections(params)
+        : await this.client.listLightboxes(params);
+      return groups.map(g => ({ value: String(g.id), label: g.name }));
+    }
+  }
+
+  private cached(key: string, load: () => Promise<CompletionCandidate[]>): Promise<CompletionCandidate[]> {
+    const now = Date.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.candidates;
+    }
+
+    // Drop expired lookups so per-keystroke tag queries don't pile up
+    for (const [cachedKey, cachedEntry] of this.cache) {
+      if (cachedEntry.expiresAt <= now) {
+        this.cache.delete(cachedKey);
+      }
+    }
+
+    const candidates = load();
+    this.cache.set(key, { expiresAt: now + this.cacheTtlMs, candidates });
+    // Never cache failures
+    candidates.catch(() => {
+      if (this.cache.get(key)?.candidates === candidates) {
+        this.cache.delete(key);
+      }
+    });
+    return candidates;
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Configuration for the Mediagraph MCP Server
+ *
+ * Settings come from, in order of precedence: MEDIAGRAPH_* environment
+ * variables, the selected profile in ~/.mediagraph/config.json, and built-in
+ * defaults. A profile is selected with --profile, MEDIAGRAPH_PROFILE or the
+ * file's defaultProfile.
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, dirname, resolve } from 'node:path';
+import { loadToolPolicy, parseBoolean, type ToolPolicy } from './tools/policy.js';
+import type { ToolDefaults } from './tools/shared.js';
+import type { TokenStorageType } from './auth/token-storage.js';
+import { DEFAULT_AUDIT_FILE } from './audit/audit-log.js';
+import { DEFAULT_CHANGE_JOURNAL_FILE } from './audit/change-journal.js';
+import { DEFAULT_REQUESTS_PER_SECOND, DEFAULT_MAX_CONCURRENCY } from './api/rate-limiter.js';
+
+// Default OAuth client ID for the official Mediagraph MCP Server
+const DEFAULT_CLIENT_ID = '7Y8rlAetr9IK2N91X4wCvVlo2hQLX6nJvFY1N8CY0GI';
+
+/** How the server signs in when there is no stored token */
+export type AuthFlow = 'browser' | 'device';
+
+export const DEFAULT_CONFIG_FILE = join(homedir(), '.mediagraph', 'config.json');
+
+export interface Profile {
+  apiUrl?: string;
+  oauthUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Callback port, or ports to try in order: 52584, "52584,52590" or "52584-52590" */
+  redirectPort?: number | string | number[];
+  authFlow?: AuthFlow;
+  /** Seconds to wait for a browser sign-in */
+  authTimeout?: number;
+  /** Token file for this profile (default: ~/.mediagraph/tokens-<profile>.enc) */
+  tokenFile?: string;
+  tokenStorage?: TokenStorageType;
+  /** Audit log file, or false to turn it off (default: ~/.mediagraph/audit.jsonl) */
+  auditLog?: string | false;
+  /** Undo journal file, or false to turn it off (default: ~/.mediagraph/changes.jsonl) */
+  changeJournal?: string | false;
+  /** Tool modules to enable, see the tool policy */
+  modules?: string[];
+  readOnly?: boolean;
+  denyTools?: string[];
+  defaults?: ToolDefaults;
+  /** Describe changes instead of making them */
+  dryRun?: boolean;
+  /** API requests started per second, 0 for no limit */
+  rateLimit?: number;
+  /** API requests in flight at once, 0 for no limit */
+  maxConcurrency?: number;
+}
+
+export interface ConfigFile {
+  defaultProfile?: string;
+  profiles?: Record<string, Profile>;
+}
+
+export interface ServerConfig {
+  /** Name of the active profile, if any */
+  profile?: string;
+  /** Config file the profile was read from */
+  configFile?: string;
+  clientId: string;
+  clientSecret?: string;
+  apiUrl: string;
+  oauthUrl: string;
+  /** Callback ports to try in order when one is taken */
+  redirectPorts: number[];
+  /** Seconds to wait for a browser sign-in before giving up */
+  authTimeout: number;
+  /** Browser callback, or device code (RFC 8628) for SSH and containers */
+  authFlow: AuthFlow;
+  httpHost: string;
+  httpPort: number;
+  /** Seconds an HTTP session may sit idle before it is closed */
+  httpSessionTimeout: number;
+  subscriptionPollInterval: number;
+  /** Personal access token that replaces OAuth (MEDIAGRAPH_ACCESS_TOKEN) */
+  accessToken?: string;
+  /** Token file, or undefined for the default location. Profiles never share one. */
+  tokenFile?: string;
+  /** Encrypted file, or memory for ephemeral containers */
+  tokenStorage: TokenStorageType;
+  /** Passphrase the token file key is derived from (MEDIAGRAPH_TOKEN_PASSPHRASE) */
+  tokenPassphrase?: string;
+  /** JSONL file every tool call is appended to, or undefined when turned off */
+  auditLog?: string;
+  /** JSONL file prior values are kept in for undo_change, or undefined when turned off */
+  changeJournal?: string;
+  toolPolicy: ToolPolicy;
+  toolDefaults: ToolDefaults;
+  /** Tools that change something only describe the change (MEDIAGRAPH_DRY_RUN) */
+  dryRun: boolean;
+  /** Requests per second the client starts (MEDIAGRAPH_RATE_LIMIT), 0 for no limit */
+  rateLimit: number;
+  /** Requests the client runs at once (MEDIAGRAPH_MAX_CONCURRENCY), 0 for no limit */
+  maxConcurrency: number;
+}
+
+function expandPath(path: string, baseDir: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(baseDir, path);
+}
+
+/**
+ * Read and check a config file
+ */
+export function parseConfigFile(json: string, source = 'config file'): ConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : 'not JSON'}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${source}: expected a JSON object`);
+  }
+
+  const config = raw as ConfigFile;
+  if (config.profiles !== undefined && (typeof config.profiles !== 'object' || Array.isArray(config.profiles))) {
+    throw new Error(`Invalid ${source}: "profiles" must be an object keyed by profile name`);
+  }
+  for (const [name, profile] of Object.entries(config.profiles || {})) {
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      throw new Error(`Invalid ${source}: profile "${name}" must be an object`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Remove --profile <name> from CLI arguments
+ */
+export function extractProfileFlag(args: string[]): { profile?: string; args: string[] } {
+  const index = args.indexOf('--profile');
+  if (index < 0) {
+    return { args };
+  }
+  const profile = args[index + 1];
+  if (!profile || profile.startsWith('--')) {
+    throw new Error('--profile requires a profile name');
+  }
+  return { profile, args: [...args.slice(0, index), ...args.slice(index + 2)] };
+}
+
+function parseAuthFlow(value: string | undefined, source: string): AuthFlow | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value !== 'browser' && value !== 'device') {
+    throw new Error(`Invalid ${source}: expected "browser" or "device", got "${value}"`);
+  }
+  return value;
+}
+
+function parseTokenStorage(value: string | undefined, source: string): TokenStorageType | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value !== 'file' && value !== 'memory') {
+    throw new Error(`Invalid ${source}: expected "file" or "memory", got "${value}"`);
+  }
+  return value;
+}
+
+// Keeps a typo like 1-65535 from binding thousands of ports
+const MAX_REDIRECT_PORTS = 100;
+
+/**
+ * Parse a callback port, a comma-separated list, a range like 52584-52590,
+ * or a mix of them
+ */
+export function parsePorts(value: number | string | number[] | undefined, source: string): number[] | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const parts = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const ports = new Set<number>();
+  for (const part of parts.map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    const first = match ? parseInt(match[1], 10) : NaN;
+    const last = match?.[2] ? parseInt(match[2], 10) : first;
+    if (!match || first < 1 || last > 65535 || last < first) {
+      throw new Error(`Invalid ${source}: "${part}" is not a port or port range`);
+    }
+    if (ports.size + last - first + 1 > MAX_REDIRECT_PORTS) {
+      throw new Error(`Invalid ${source}: at most ${MAX_REDIRECT_PORTS} ports can be tried`);
+    }
+    for (let port = first; port <= last; port++) {
+      ports.add(port);
+    }
+  }
+
+  if (ports.size === 0) {
+    throw new Error(`Invalid ${source}: no ports given`);
+  }
+  return [...ports];
+}
+
+const OFF_VALUES = new Set(['off', 'false', '0', 'none']);
+
+/**
+ * Audit log or change journal path from the environment or the profile: a
+ * path, "off" or false to turn it off, or undefined to use the default
+ */
+function parseLogPath(value: string | false | undefined, baseDir: string): string | false | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value === false || OFF_VALUES.has(value.toLowerCase())) return false;
+  return expandPath(value, baseDir);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  return value ? parseInt(value, 10) : undefined;
+}
+
+function parseLimit(value: number | string | undefined, source: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const limit = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`Invalid ${source}: expected a number of 0 or more (0 for no limit), got "${value}"`);
+  }
+  return limit;
+}
+
+/**
+ * Build the configuration from the environment, the config file and the
+ * requested profile
+ */
+export function loadConfig(options: { profile?: string; env?: NodeJS.ProcessEnv } = {}): ServerConfig {
+  const env = options.env || process.env;
+  const configFile = env.MEDIAGRAPH_CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  const requestedProfile = options.profile || env.MEDIAGRAPH_PROFILE;
+
+  let file: ConfigFile = {};
+  if (existsSync(configFile)) {
+    file = parseConfigFile(readFileSync(configFile, 'utf-8'), `config file ${configFile}`);
+  } else if (requestedProfile) {
+    throw new Error(`Profile "${requestedProfile}" requested but ${configFile} does not exist`);
+  }
+
+  const profileName = requestedProfile || file.defaultProfile;
+  let profile: Profile = {};
+  if (profileName) {
+    const found = file.profiles?.[profileName];
+    if (!found) {
+      const available = Object.keys(file.profiles || {});
+      throw new Error(`Unknown profile "${profileName}" in ${configFile}. Available profiles: ${available.join(', ') || 'none'}`);
+    }
+    profile = found;
+  }
+
+  // The policy from environment variables or MEDIAGRAPH_TOOL_POLICY_FILE wins over the profile
+  const envPolicy = loadToolPolicy(env);
+
+  return {
+    profile: profileName,
+    configFile: profileName ? configFile : undefined,
+    clientId: env.MEDIAGRAPH_CLIENT_ID || profile.clientId || DEFAULT_CLIENT_ID,
+    clientSecret: env.MEDIAGRAPH_CLIENT_SECRET || profile.clientSecret,
+    apiUrl: env.MEDIAGRAPH_API_URL || profile.apiUrl || 'https://api.mediagraph.io',
+    oauthUrl: env.MEDIAGRAPH_OAUTH_URL || profile.oauthUrl || 'https://mediagraph.io',
+    redirectPorts: parsePorts(env.MEDIAGRAPH_REDIRECT_PORT, 'MEDIAGRAPH_REDIRECT_PORT')
+      ?? parsePorts(profile.redirectPort, `redirectPort in profile "${profileName}"`)
+      ?? [52584],
+    authTimeout: parseNumber(env.MEDIAGRAPH_AUTH_TIMEOUT) ?? profile.authTimeout ?? 300,
+    authFlow: parseAuthFlow(env.MEDIAGRAPH_AUTH_FLOW, 'MEDIAGRAPH_AUTH_FLOW')
+      ?? parseAuthFlow(profile.authFlow, `authFlow in profile "${profileName}"`)
+      ?? 'browser',
+    httpHost: env.MEDIAGRAPH_HTTP_HOST || '127.0.0.1',
+    httpPort: parseNumber(env.MEDIAGRAPH_HTTP_PORT) ?? 3000,
+    httpSessionTimeout: parseNumber(env.MEDIAGRAPH_HTTP_SESSION_TIMEOUT) ?? 1800,
+    subscriptionPollInterval: parseNumber(env.MEDIAGRAPH_SUBSCRIPTION_POLL_INTERVAL) ?? 60,
+    accessToken: env.MEDIAGRAPH_ACCESS_TOKEN?.trim() || undefined,
+    tokenFile: profile.tokenFile
+      ? expandPath(profile.tokenFile, dirname(configFile))
+      : profileName ? join(homedir(), '.mediagraph', `tokens-${profileName}.enc`) : undefined,
+    tokenStorage: parseTokenStorage(env.MEDIAGRAPH_TOKEN_STORAGE, 'MEDIAGRAPH_TOKEN_STORAGE')
+      ?? parseTokenStorage(profile.tokenStorage, `tokenStorage in profile "${profileName}"`)
+      ?? 'file',
+    // Only from the environment, a passphrase next to the token file would defeat it
+    tokenPassphrase: env.MEDIAGRAPH_TOKEN_PASSPHRASE || undefined,
+    auditLog: (parseLogPath(env.MEDIAGRAPH_AUDIT_LOG, process.cwd())
+      ?? parseLogPath(profile.auditLog, dirname(configFile))
+      ?? DEFAULT_AUDIT_FILE) || undefined,
+    changeJournal: (parseLogPath(env.MEDIAGRAPH_CHANGE_JOURNAL, process.cwd())
+      ?? parseLogPath(profile.changeJournal, dirname(configFile))
+      ?? DEFAULT_CHANGE_JOURNAL_FILE) || undefined,
+    toolPolicy: {
+      modules: envPolicy.modules ?? profile.modules,
+      readOnly: envPolicy.readOnly ?? profile.readOnly,
+      denyTools: envPolicy.denyTools ?? profile.denyTools,
+    },
+    toolDefaults: { ...profile.defaults },
+    dryRun: parseBoolean(env.MEDIAGRAPH_DRY_RUN) ?? profile.dryRun ?? false,
+    rateLimit: parseLimit(env.MEDIAGRAPH_RATE_LIMIT, 'MEDIAGRAPH_RATE_LIMIT')
+      ?? parseLimit(profile.rateLimit, `rateLimit in profile "${profileName}"`)
+      ?? DEFAULT_REQUESTS_PER_SECOND,
+    maxConcurrency: parseLimit(env.MEDIAGRAPH_MAX_CONCURRENCY, 'MEDIAGRAPH_MAX_CONCURRENCY')
+      ?? parseLimit(profile.maxConcurrency, `maxConcurrency in profile "${profileName}"`)
+      ?? DEFAULT_MAX_CONCURRENCY,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Streamable HTTP transport for the Mediagraph MCP Server
+ *
+ * Lets one deployment serve many users. Every MCP session gets its own
+ * MediagraphClient, bound to the Mediagraph access token in the Authorization
+ * header of the request that initialized it. Later requests must send the
+ * same token, so sessions never share credentials or organization access.
+ * Sessions with the same token share a rate limiter.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID, createHash, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { RateLimiter, type RateLimiterOptions } from './api/rate-limiter.js';
+import { AccessTokenAuth } from './auth/access-token.js';
+import { createMediagraphServer } from './server.js';
+import type { ToolPolicy, ToolDefaults, ToolCallRecorder, ChangeJournal } from './tools/index.js';
+import { logger } from './logger.js';
+
+const log = logger.child('HTTP');
+
+export interface HttpServerConfig {
+  apiUrl: string;
+  host: string;
+  port: number;
+  path?: string;
+  subscriptionPollIntervalMs?: number;
+  /** Sessions without requests for this long are closed (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  toolPolicy?: ToolPolicy;
+  toolDefaults?: ToolDefaults;
+  audit?: ToolCallRecorder;
+  dryRun?: boolean;
+  changes?: ChangeJournal;
+  /**
+   * Limits for each access token; its sessions share one limiter, while one
+   * user's throttling doesn't hold up other tokens' sessions
+   */
+  rateLimits?: RateLimiterOptions;
+}
+
+interface HttpSession {
+  auth: AccessTokenAuth;
+  transport: StreamableHTTPServerTransport;
+  /** SHA-256 of the token that initialized the session */
+  tokenFingerprint: Buffer;
+  /** When the session last received a request */
+  lastActiveAt: number;
+}
+
+interface SharedLimiter {
+  limiter: RateLimiter;
+  /** Open sessions using it; dropped with the last one */
+  sessions: number;
+}
+
+// Upper bound for a JSON-RPC request body (base64 uploads can be large)
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Idle sessions are looked for at most this often
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// HTTP sessions can't sign in interactively, a new token means a new session
+const HTTP_REAUTHORIZE_MESSAGE =
+  'This session authenticates with the access token in the Authorization header, so it cannot sign in through the browser. ' +
+  'To use another account or organization, connect again with an access token from there.';
+
+function fingerprint(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function getBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : null;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start the Streamable HTTP server; resolves once it is listening
+ */
+export async function runHttpServer(config: HttpServerConfig): Promise<Server> {
+  const endpoint = config.path || '/mcp';
+  const sessions = new Map<string, HttpSession>();
+  // Keyed by token fingerprint, so reconnecting clients don't multiply the rate
+  const limiters = new Map<string, SharedLimiter>();
+
+  function acquireLimiter(key: string): RateLimiter {
+    const shared = limiters.get(key) ?? { limiter: new RateLimiter(config.rateLimits), sessions: 0 };
+    shared.sessions++;
+    limiters.set(key, shared);
+    return shared.limiter;
+  }
+
+  function releaseLimiter(key: string): void {
+    const shared = limiters.get(key);
+    if (shared && --shared.sessions <= 0) limiters.delete(key);
+  }
+
+  async function createSession(token: string): Promise<HttpSession> {
+    const tokenFingerprint = fingerprint(token);
+    const limiterKey = tokenFingerprint.toString('hex');
+    const auth = new AccessTokenAuth(token, config.apiUrl, {
+      rateLimiter: acquireLimiter(limiterKey),
+      reauthorizeMessage: HTTP_REAUTHORIZE_MESSAGE,
+    });
+    const server = createMediagraphServer({
+      client: auth.client,
+      auth,
+      subscriptionPollIntervalMs: config.subscriptionPollIntervalMs,
+      toolPolicy: config.toolPolicy,
+      toolDefaults: config.toolDefaults,
+      audit: config.audit,
+      dryRun: config.dryRun,
+      changes: config.changes,
+    });
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+        log.info(`Session started: ${sessionId}`);
+      },
+    });
+    let closed = false;
+    transport.onclose = () => {
+      if (closed) return;
+      closed = true;
+      releaseLimiter(limiterKey);
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        log.info(`Session closed: ${transport.sessionId}`);
+      }
+    };
+
+    const session: HttpSession = { auth, transport, tokenFingerprint, lastActiveAt: Date.now() };
+    await server.connect(transport);
+    return session;
+  }
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      if (url.pathname !== endpoint) {
+        res.writeHead(404);
+        res.end('Not found');
+        return;
+      }
+
+      const token = getBearerToken(req);
+      if (!token) {
+        sendJsonRpcError(res, 401, -32001, 'Missing Mediagraph access token. Send it as "Authorization: Bearer <token>".', {
+          'WWW-Authenticate': 'Bearer',
+        });
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      let session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      if (sessionId && !session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (session && !timingSafeEqual(session.tokenFingerprint, fingerprint(token))) {
+        sendJsonRpcError(res, 403, -32001, 'This session belongs to another access token. Initialize a new session.');
+        return;
+      }
+
+      let body: unknown;
+      if (req.method === 'POST') {
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          const tooLarge = error instanceof Error && error.message === 'Request body too large';
+          sendJsonRpcError(res, tooLarge ? 413 : 400, -32700, tooLarge ? 'Request body too large' : 'Parse error');
+          return;
+        }
+      }
+
+      if (!session) {
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+          return;
+        }
+        session = await createSession(token);
+      }
+
+      session.lastActiveAt = Date.now();
+      await session.transport.handleRequest(req, res, body);
+    } catch (error) {
+      log.error('Failed to handle request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // Clients that go away without a DELETE would otherwise keep their session forever
+  const idleTimeoutMs = config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sweep = setInterval(() => {
+    const idleSince = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActiveAt > idleSince) continue;
+      log.info(`Closing idle session: ${sessionId}`);
+      session.transport.close().catch((error) => log.warning(`Failed to close session ${sessionId}`, error));
+    }
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+  httpServer.on('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  log.info(`Mediagraph MCP server listening on http://${config.host}:${port}${endpoint}`);
+  return httpServer;
+}
@@ -6,51 +6,79 @@
  * for digital asset management operations.
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListResourcesRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 import { exec } from 'node:child_process';
 import { platform } from 'node:os';
-import { readFileSync, existsSync } from 'node:fs';
-import { fileURLToPath } from 'node:url';
-import { dirname, join } from 'node:path';
 
-import { OAuthHandler, type TokenData } from './auth/oauth.js';
-import { TokenStore, type StoredTokens } from './auth/token-store.js';
+import { OAuthHandler, type TokenData, type DeviceAuthorization } from './auth/oauth.js';
+import { TokenStore, type StoredTokens, type StoredOrganizations } from './auth/token-store.js';
+import { createTokenStorage } from './auth/token-storage.js';
 import { MediagraphClient } from './api/client.js';
-import { toolDefinitions, handleTool, type ToolContext } from './tools/index.js';
-import { resourceTemplates, readResource, listResources, type ResourceContext } from './resources/index.js';
-
-// Default OAuth client ID for the official Mediagraph MCP Server
-const DEFAULT_CLIENT_ID = '7Y8rlAetr9IK2N91X4wCvVlo2hQLX6nJvFY1N8CY0GI';
-
-// Configuration from environment variables (with sensible defaults)
-const config = {
-  clientId: process.env.MEDIAGRAPH_CLIENT_ID || DEFAULT_CLIENT_ID,
-  clientSecret: process.env.MEDIAGRAPH_CLIENT_SECRET,
-  apiUrl: process.env.MEDIAGRAPH_API_URL || 'https://api.mediagraph.io',
-  oauthUrl: process.env.MEDIAGRAPH_OAUTH_URL || 'https://mediagraph.io',
-  redirectPort: parseInt(process.env.MEDIAGRAPH_REDIRECT_PORT || '52584', 10),
-};
+import { RateLimiter } from './api/rate-limiter.js';
+import { createMediagraphServer, appBundlePath, type SessionAuth } from './server.js';
+import type { OrganizationDirectory, OrganizationInfo, SignInPrompter } from './tools/shared.js';
+import { runHttpServer } from './http.js';
+import { validateToolPolicy } from './tools/index.js';
+import { loadConfig, extractProfileFlag, type ServerConfig } from './config.js';
+import { AccessTokenAuth } from './auth/access-token.js';
+import { AuditLog } from './audit/audit-log.js';
+import { FileChangeJournal } from './audit/change-journal.js';
+import {
+  runCallCommand,
+  runToolsCommand,
+  runAuditCommand,
+  confirmInTerminal,
+  runDoctorCommand,
+  skippedCheck,
+  tokenFileCheck,
+  tokenExpiryCheck,
+  reachabilityCheck,
+  redirectPortCheck,
+  whoamiCheck,
+  appBundleCheck,
+  toolDefinitionsCheck,
+  type DoctorCheck,
+} from './cli/index.js';
+import type { ToolContext, ToolCallRecord, MembershipRole } from './tools/index.js';
+import { logger } from './logger.js';
+
+const log = logger.child('MCP');
+
+/**
+ * Read the configuration before anything else, the profile decides which
+ * API, OAuth app and token file are used
+ */
+function loadStartupConfig(): { config: ServerConfig; args: string[] } {
+  try {
+    const { profile, args } = extractProfileFlag(process.argv.slice(2));
+    return { config: loadConfig({ profile }), args };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+const { config, args: cliArgs } = loadStartupConfig();
 
 // Initialize components
-const tokenStore = new TokenStore();
+const tokenStore = new TokenStore(createTokenStorage({
+  type: config.tokenStorage,
+  filePath: config.tokenFile,
+  passphrase: config.tokenPassphrase,
+}));
 const oauthHandler = new OAuthHandler({
   clientId: config.clientId,
   clientSecret: config.clientSecret,
   oauthUrl: config.oauthUrl,
-  redirectPort: config.redirectPort,
+  redirectPorts: config.redirectPorts,
+  callbackTimeoutMs: config.authTimeout * 1000,
 });
 
 // Token management
 let currentTokens: TokenData | null = null;
-let isAuthInProgress = false;
+
+// Browser sign-in in progress; requests that arrive meanwhile wait for it
+let browserSignIn: Promise<boolean> | null = null;
 
 /**
  * Open a URL in the default browser (cross-platform)
@@ -64,151 +92,294 @@ function openBrowser(url: string): void {
 
   exec(command, (error) => {
     if (error) {
-      console.error('Failed to open browser:', error);
+      log.error('Failed to open browser', error);
     }
   });
 }
 
 /**
- * Run the full OAuth flow automatically
- * Returns true if successful, false otherwise
+ * Make freshly issued tokens the active ones and store them with the user and
+ * organization they belong to
  */
-async function runAutoAuth(): Promise<boolean> {
-  if (isAuthInProgress) {
-    console.error('[MCP] OAuth already in progress, waiting for completion...');
-    // Wait for existing auth to complete (max 2 minutes)
-    const waitStart = Date.now();
-    const maxWait = 120000;
-    while (isAuthInProgress && Date.now() - waitStart < maxWait) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
-    if (isAuthInProgress) {
-      console.error('[MCP] Timed out waiting for existing OAuth flow');
-      return false;
+async function saveSignedInTokens(tokens: TokenData): Promise<void> {
+  currentTokens = tokens;
+
+  // Save tokens immediately (even before whoami, in case that fails)
+  let storedData: StoredTokens = { tokens };
+  await tokenStore.save(storedData);
+
+  // Try to get user info to enrich the stored data
+  try {
+    const whoami = await client.whoami();
+    if (whoami?.organization?.id) {
+      const org = whoami.organization;
+      storedData = {
+        tokens,
+        organizationId: org.id,
+        organizationName: org.title || org.name,
+        organizationSlug: org.slug,
+        userId: whoami.user?.id,
+        userEmail: whoami.user?.email,
+      };
+      await tokenStore.save(storedData);
+      log.info(`Authenticated as ${whoami.user?.email} in ${org.title || org.name}`);
+    } else {
+      log.warning('Authenticated (whoami returned incomplete data)');
     }
-    return currentTokens !== null;
+  } catch (whoamiError) {
+    log.warning('Authenticated (whoami failed, tokens saved)', whoamiError);
   }
+}
 
-  isAuthInProgress = true;
-  console.error('[MCP] Starting OAuth flow...');
+/**
+ * Run the full OAuth flow automatically, or wait for the one in progress.
+ * Settles within the configured auth timeout.
+ * Returns true if successful, false otherwise
+ */
+function runAutoAuth(): Promise<boolean> {
+  if (browserSignIn) {
+    log.info('OAuth already in progress, waiting for completion...');
+    return browserSignIn;
+  }
 
-  try {
-    // Generate the auth URL (this sets up PKCE internally)
-    const authUrl = oauthHandler.getAuthorizationUrl();
+  browserSignIn = runBrowserSignIn().finally(() => {
+    browserSignIn = null;
+  });
+  return browserSignIn;
+}
+
+async function runBrowserSignIn(): Promise<boolean> {
+  log.info('Starting OAuth flow...');
 
+  try {
     // Start the callback server FIRST and wait for it to be ready
-    await oauthHandler.startCallbackServer();
-    console.error('[MCP] Callback server ready, opening browser...');
+    const port = await oauthHandler.startCallbackServer();
+    log.debug(`Callback server ready on port ${port}, opening browser...`);
+
+    // Generate the auth URL for that port (this sets up PKCE internally)
+    const authUrl = oauthHandler.getAuthorizationUrl();
 
     // NOW open the browser (server is ready to receive callback)
     openBrowser(authUrl);
 
     // Wait for the OAuth callback
-    console.error('[MCP] Waiting for OAuth callback...');
+    log.info('Waiting for OAuth callback...');
     const { code } = await oauthHandler.waitForCallback();
-    console.error('[MCP] OAuth callback received, exchanging code...');
+    log.debug('OAuth callback received, exchanging code...');
 
     // Exchange code for tokens
     const tokens = await oauthHandler.exchangeCode(code);
-    currentTokens = tokens;
-    console.error('[MCP] Token exchange successful');
+    log.info('Token exchange successful');
+    await saveSignedInTokens(tokens);
+
+    return true;
+  } catch (error) {
+    // The callback server stops by itself, after a timeout it briefly stays
+    // up to show the browser a timeout page
+    log.error('Auto-auth failed', error);
+    return false;
+  }
+}
+
+interface DeviceSignIn {
+  authorization: DeviceAuthorization;
+  /** Resolves once the user approved (true) or the sign-in failed or expired */
+  completion: Promise<boolean>;
+}
 
-    // Save tokens immediately (even before whoami, in case that fails)
-    let storedData: StoredTokens = { tokens };
-    tokenStore.save(storedData);
+// Device code sign-in waiting for the user; later requests join it
+let deviceSignIn: Promise<DeviceSignIn> | null = null;
 
-    // Try to get user info to enrich the stored data
+function deviceSignInMessage(authorization: DeviceAuthorization): string {
+  return `To sign in to Mediagraph, open ${authorization.verification_uri} on any device and enter the code ${authorization.user_code}.`;
+}
+
+/**
+ * Start a device code sign-in, or return the one in progress. The token
+ * endpoint is polled in the background and tokens are saved once approved.
+ */
+function startDeviceSignIn(): Promise<DeviceSignIn> {
+  if (deviceSignIn) {
+    return deviceSignIn;
+  }
+
+  const started: Promise<DeviceSignIn> = oauthHandler.requestDeviceAuthorization().then((authorization) => {
+    log.info(`Waiting for device sign-in at ${authorization.verification_uri}`);
+    const completion = oauthHandler.pollDeviceToken(authorization)
+      .then(async (tokens) => {
+        await saveSignedInTokens(tokens);
+        return true;
+      }, (error) => {
+        log.error('Device sign-in failed', error);
+        return false;
+      })
+      .finally(() => {
+        if (deviceSignIn === started) deviceSignIn = null;
+      });
+    return { authorization, completion };
+  });
+  started.catch(() => {
+    if (deviceSignIn === started) deviceSignIn = null;
+  });
+
+  deviceSignIn = started;
+  return started;
+}
+
+type DeviceAuthResult = { success: true } | { success: false; pending: boolean; message: string };
+
+/**
+ * Sign in with a device code. With promptSignIn the user is sent to the
+ * verification URL and the sign-in is awaited; otherwise the instructions are
+ * returned for the tool result while polling continues.
+ */
+async function runDeviceAuth(promptSignIn?: SignInPrompter): Promise<DeviceAuthResult> {
+  let signIn: DeviceSignIn;
+  try {
+    signIn = await startDeviceSignIn();
+  } catch (error) {
+    log.error('Failed to start device sign-in', error);
+    return {
+      success: false,
+      pending: false,
+      message: `Could not start the sign-in: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+
+  const { authorization, completion } = signIn;
+  const message = deviceSignInMessage(authorization);
+
+  if (promptSignIn) {
     try {
-      const whoami = await client.whoami();
-      if (whoami?.organization?.id) {
-        const org = whoami.organization;
-        storedData = {
-          tokens,
-          organizationId: org.id,
-          organizationName: org.title || org.name,
-          organizationSlug: org.slug,
-          userId: whoami.user?.id,
-          userEmail: whoami.user?.email,
-        };
-        tokenStore.save(storedData);
-        console.error(`[MCP] Authenticated as ${whoami.user?.email} in ${org.title || org.name}`);
-      } else {
-        console.error('[MCP] Authenticated (whoami returned incomplete data)');
+      const accepted = await promptSignIn(message, authorization.verification_uri_complete || authorization.verification_uri);
+      if (accepted) {
+        return await completion
+          ? { success: true }
+          : { success: false, pending: false, message: 'The sign-in was not approved in time. Please try again.' };
       }
-    } catch (whoamiError) {
-      console.error('[MCP] Authenticated (whoami failed, tokens saved):', whoamiError);
+    } catch (error) {
+      log.warning('Failed to show the sign-in URL', error);
     }
+  }
 
-    return true;
-  } catch (error) {
-    console.error('[MCP] Auto-auth failed:', error);
-    oauthHandler.stopCallbackServer();
-    return false;
-  } finally {
-    isAuthInProgress = false;
+  return { success: false, pending: true, message };
+}
+
+// Refreshes in progress, keyed by refresh token. Parallel tool calls near
+// expiry share one: the server may rotate refresh tokens, so a second refresh
+// with the same one would fail.
+const refreshesInFlight = new Map<string, Promise<TokenData | null>>();
+
+/**
+ * Refresh an organization's tokens and save the new ones; throws when the
+ * server refuses the refresh token
+ */
+async function refreshAndSaveTokens(stored: StoredTokens): Promise<TokenData> {
+  const refreshToken = stored.tokens.refresh_token;
+  if (!refreshToken) {
+    throw new Error('No refresh token stored');
   }
+  const newTokens = await oauthHandler.refreshToken(refreshToken);
+  // Keep the old refresh token when the server doesn't rotate it
+  const tokens = { ...newTokens, refresh_token: newTokens.refresh_token || refreshToken };
+  await tokenStore.save({ ...stored, tokens }, { activate: false });
+  return tokens;
 }
 
-async function getAccessToken(): Promise<string | null> {
+/**
+ * Refresh an organization's stored tokens and save the new ones
+ */
+function refreshStoredTokens(stored: StoredTokens): Promise<TokenData | null> {
+  const refreshToken = stored.tokens.refresh_token;
+  if (!refreshToken) {
+    return Promise.resolve(null);
+  }
+
+  let refresh = refreshesInFlight.get(refreshToken);
+  if (!refresh) {
+    refresh = refreshAndSaveTokens(stored)
+      .catch((error) => {
+        log.error('Failed to refresh token', error);
+        return null;
+      })
+      .finally(() => refreshesInFlight.delete(refreshToken));
+    refreshesInFlight.set(refreshToken, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Get a valid access token for an organization, or for the active one
+ */
+async function getAccessToken(organizationSlug?: string): Promise<string | null> {
+  // In-memory tokens belong to the active organization
+  const isActive = organizationSlug === undefined;
+
   // First check if we have valid tokens in memory
-  if (currentTokens && Date.now() < currentTokens.expires_at - 300000) {
+  if (isActive && currentTokens && Date.now() < currentTokens.expires_at - 300000) {
     return currentTokens.access_token;
   }
 
   // Try to load from store
-  const stored = tokenStore.load();
+  const stored = tokenStore.load(organizationSlug);
   if (stored?.tokens) {
     // Check if token is still valid
     if (Date.now() < stored.tokens.expires_at - 300000) {
-      currentTokens = stored.tokens;
-      return currentTokens.access_token;
+      if (isActive) currentTokens = stored.tokens;
+      return stored.tokens.access_token;
     }
 
     // Try to refresh
-    if (stored.tokens.refresh_token) {
-      try {
-        const newTokens = await oauthHandler.refreshToken(stored.tokens.refresh_token);
-        currentTokens = newTokens;
-        tokenStore.save({
-          ...stored,
-          tokens: newTokens,
-        });
-        return newTokens.access_token;
-      } catch (error) {
-        console.error('Failed to refresh token:', error);
-      }
+    const newTokens = await refreshStoredTokens(stored);
+    if (newTokens) {
+      if (isActive) currentTokens = newTokens;
+      return newTokens.access_token;
     }
   }
 
   return null;
 }
 
+/**
+ * Get a new token after the API rejected one with a 401, even if it hasn't
+ * expired yet (e.g. revoked, or the clocks disagree)
+ */
+async function refreshRejectedToken(rejectedToken: string, organizationSlug?: string): Promise<string | null> {
+  const isActive = organizationSlug === undefined;
+  if (isActive && currentTokens?.access_token === rejectedToken) {
+    currentTokens = null;
+  }
+
+  const stored = tokenStore.load(organizationSlug);
+  if (!stored?.tokens) {
+    return null;
+  }
+
+  // Another call already replaced the rejected token
+  if (stored.tokens.access_token !== rejectedToken) {
+    return getAccessToken(organizationSlug);
+  }
+
+  const newTokens = await refreshStoredTokens(stored);
+  if (!newTokens) {
+    return null;
+  }
+  if (isActive) currentTokens = newTokens;
+  return newTokens.access_token;
+}
+
+// One rate limit for every client of the local session; HTTP sessions share one per token
+const rateLimits = { requestsPerSecond: config.rateLimit, maxConcurrency: config.maxConcurrency };
+const rateLimiter = new RateLimiter(rateLimits);
+
 // Initialize API client
 const client = new MediagraphClient({
   apiUrl: config.apiUrl,
-  getAccessToken,
+  getAccessToken: () => getAccessToken(),
+  refreshAccessToken: (rejectedToken) => refreshRejectedToken(rejectedToken),
+  rateLimiter,
 });
 
-// Create contexts for tools and resources
-// Note: organizationSlug is populated dynamically before each tool call
-const toolContext: ToolContext = {
-  client,
-  reauthorize: async () => {
-    console.error('[MCP] Reauthorize requested, clearing tokens and starting new OAuth flow...');
-    currentTokens = null;
-    tokenStore.clear();
-    const success = await runAutoAuth();
-    if (!success) return { success: false };
-    const stored = tokenStore.load();
-    return {
-      success: true,
-      organizationName: stored?.organizationName,
-      userEmail: stored?.userEmail,
-    };
-  },
-};
-const resourceContext: ResourceContext = { client };
-
 /**
  * Get organization slug from stored tokens
  */
@@ -217,233 +388,165 @@ function getOrganizationSlug(): string | undefined {
   return stored?.organizationSlug;
 }
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'mediagraph-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-    },
-  },
-);
-
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function toOrganizationInfo(key: string, stored: StoredTokens, activeKey?: string): OrganizationInfo {
   return {
-    tools: toolDefinitions,
+    slug: stored.organizationSlug || key,
+    name: stored.organizationName,
+    userEmail: stored.userEmail,
+    active: key === activeKey,
   };
-});
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  // Reauthorize handles its own auth flow, skip the normal check
-  if (name === 'reauthorize') {
-    console.error(`[MCP] Tool call: ${name}`);
-    const result = await handleTool(name, (args || {}) as Record<string, unknown>, toolContext);
-    return { content: result.content, isError: result.isError };
-  }
-
-  // Check authentication - auto-trigger OAuth if needed
-  let token = await getAccessToken();
-  if (!token) {
-    // If OAuth is already in progress, wait for it (with a reasonable timeout)
-    if (isAuthInProgress) {
-      console.error('[MCP] OAuth in progress, waiting...');
-      const waitStart = Date.now();
-      const maxWait = 120000; // 2 minutes max wait
-      while (isAuthInProgress && Date.now() - waitStart < maxWait) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-      token = await getAccessToken();
-      if (token) {
-        console.error('[MCP] OAuth completed, proceeding with request');
-      }
+/**
+ * Organizations with stored tokens; each authorize or reauthorize adds one
+ */
+const localOrganizations: OrganizationDirectory = {
+  async list() {
+    const stored = tokenStore.loadAll();
+    if (!stored) return [];
+    return Object.entries(stored.organizations)
+      .map(([key, data]) => toOrganizationInfo(key, data, stored.activeOrganization));
+  },
+  async switch(slug) {
+    const stored = await tokenStore.setActive(slug);
+    currentTokens = null;
+    log.info(`Switched to organization ${slug}`);
+    return toOrganizationInfo(slug, stored, slug);
+  },
+  clientFor(slug) {
+    if (!tokenStore.load(slug)) {
+      throw new Error(`Not signed in to organization "${slug}". Use list_organizations to see the available organizations, or reauthorize to add one.`);
     }
+    return client.withAccessToken(
+      () => getAccessToken(slug),
+      (rejectedToken) => refreshRejectedToken(rejectedToken, slug),
+    );
+  },
+};
 
-    // Still no token? Start OAuth flow
-    if (!token) {
-      // Automatically start OAuth flow
-      const authSuccess = await runAutoAuth();
-      if (!authSuccess) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: 'Authorization is in progress. Please complete the login in your browser, then try this request again.',
-            },
-          ],
-          isError: true,
-        };
-      }
-      token = await getAccessToken();
-      if (!token) {
+/**
+ * Auth for the local (stdio) session: stored tokens plus browser OAuth
+ */
+const localAuth: SessionAuth = {
+  getAccessToken,
+  async authenticate(promptSignIn) {
+    if (config.authFlow === 'device') {
+      const result = await runDeviceAuth(promptSignIn);
+      if (!result.success) {
         return {
-          content: [
-            {
-              type: 'text' as const,
-              text: 'Authentication completed but failed to retrieve access token. Please try again.',
-            },
-          ],
-          isError: true,
+          success: false,
+          message: result.pending ? `${result.message} Then try this request again.` : result.message,
         };
       }
+      const token = await getAccessToken();
+      return token
+        ? { success: true, token }
+        : { success: false, message: 'Authentication completed but failed to retrieve access token. Please try again.' };
     }
-  }
-
-  // Log tool call for debugging
-  console.error(`[MCP] Tool call: ${name}`);
-  console.error(`[MCP] Arguments: ${JSON.stringify(args, null, 2)}`);
-
-  // Update tool context with organization slug for this request
-  toolContext.organizationSlug = getOrganizationSlug();
-
-  const result = await handleTool(name, (args || {}) as Record<string, unknown>, toolContext);
-
-  // Log result status
-  if (result.isError) {
-    console.error(`[MCP] Tool error: ${result.content[0]?.text}`);
-  } else {
-    console.error(`[MCP] Tool success: ${name}`);
-  }
 
-  return {
-    content: result.content,
-    isError: result.isError,
-  };
-});
-
-// Handle resource template listing
-server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
-  return {
-    resourceTemplates,
-  };
-});
-
-// Handle resource listing
-// NOTE: Don't auto-auth here - just return empty if not authenticated
-// Auth will happen when user actually calls a tool
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  const token = await getAccessToken();
-  if (!token) {
-    return { resources: [] };
-  }
-
-  const resources = await listResources(resourceContext);
-  return { resources };
-});
-
-// Handle resource reading
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const { uri } = request.params;
-
-  // Handle MCP App UI resources
-  if (uri.startsWith('ui://mediagraph/')) {
-    return handleAppResource(uri);
-  }
-
-  let token = await getAccessToken();
-  if (!token) {
+    // Start the OAuth flow, or wait for the one in progress (up to the auth timeout)
     const authSuccess = await runAutoAuth();
     if (!authSuccess) {
       return {
-        contents: [
-          {
-            uri,
-            mimeType: 'text/plain',
-            text: 'Failed to authenticate with Mediagraph. Please try again.',
-          },
-        ],
+        success: false,
+        message: 'Sign-in did not complete (it was declined, failed or timed out). Please try this request again to restart it.',
       };
     }
-    token = await getAccessToken();
-  }
-  if (!token) {
+    const token = await getAccessToken();
+    if (!token) {
+      return {
+        success: false,
+        message: 'Authentication completed but failed to retrieve access token. Please try again.',
+      };
+    }
+    return { success: true, token };
+  },
+  async getOrganizationSlug() {
+    return getOrganizationSlug();
+  },
+  organizations: localOrganizations,
+  reauthorize: async (promptSignIn) => {
+    // Stored organizations are kept; the one signed in to replaces its old
+    // tokens and becomes active
+    log.info('Reauthorize requested, starting new OAuth flow...');
+    currentTokens = null;
+    if (config.authFlow === 'device') {
+      const result = await runDeviceAuth(promptSignIn);
+      if (!result.success) {
+        return {
+          success: false,
+          pending: result.pending,
+          message: result.pending
+            ? `${result.message} Requests keep using the current sign-in until then.`
+            : result.message,
+        };
+      }
+    } else if (!(await runAutoAuth())) {
+      return { success: false };
+    }
+    const stored = tokenStore.load();
     return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/plain',
-          text: 'Authentication completed but failed to retrieve access token.',
-        },
-      ],
+      success: true,
+      organizationName: stored?.organizationName,
+      userEmail: stored?.userEmail,
     };
-  }
+  },
+};
 
-  const content = await readResource(uri, resourceContext);
-  return {
-    contents: [content],
-  };
-});
+// Every tool call is appended here unless the audit log is turned off
+const auditLog = config.auditLog ? new AuditLog(config.auditLog, { profile: config.profile }) : null;
+const audit = auditLog ? (call: ToolCallRecord) => auditLog.record(call) : undefined;
+// Prior values of edited assets, for undo_change
+const changes = config.changeJournal ? new FileChangeJournal(config.changeJournal, { profile: config.profile }) : undefined;
 
-/**
- * Handle MCP App UI resource requests
- * Serves the bundled React app for visual tools
- */
-function handleAppResource(uri: string) {
-  // Get the directory where this script is located
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = dirname(__filename);
+// A personal access token replaces OAuth entirely (CI, headless machines)
+const accessTokenAuth = config.accessToken ? new AccessTokenAuth(config.accessToken, config.apiUrl, { rateLimiter }) : null;
 
-  // The bundled app is in dist/app/index.html
-  const appPath = join(__dirname, 'app', 'index.html');
+// CLI commands
+async function authorizeInBrowser(): Promise<TokenData> {
+  // Start callback server first, the redirect URI uses the port it got
+  await oauthHandler.startCallbackServer();
+  const authUrl = oauthHandler.getAuthorizationUrl();
 
-  if (!existsSync(appPath)) {
-    console.error(`[MCP] App resource not found at: ${appPath}`);
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/plain',
-          text: 'MCP App UI not found. Please rebuild the project with npm run build.',
-        },
-      ],
-    };
-  }
+  // Open browser automatically
+  openBrowser(authUrl);
 
-  try {
-    const html = readFileSync(appPath, 'utf-8');
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/html;profile=mcp-app',
-          text: html,
-          // CSP configuration to allow loading images from Mediagraph CDN
-          _meta: {
-            ui: {
-              csp: {
-                // Allow images from CloudFront CDN
-                resourceDomains: ['https://*.cloudfront.net'],
-                // Allow API calls to Mediagraph (for future use)
-                connectDomains: ['https://api.mediagraph.io'],
-              },
-            },
-          },
-        },
-      ],
-    };
-  } catch (error) {
-    console.error('[MCP] Failed to read app resource:', error);
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/plain',
-          text: 'Failed to load MCP App UI.',
-        },
-      ],
-    };
+  console.log('Opening browser for authorization...');
+  console.log('If the browser does not open, please visit:');
+  console.log('');
+  console.log(authUrl);
+  console.log('');
+  console.log('Waiting for authorization callback...');
+
+  const { code } = await oauthHandler.waitForCallback();
+  console.log('');
+  console.log('Authorization code received. Exchanging for tokens...');
+  return oauthHandler.exchangeCode(code);
+}
+
+async function authorizeWithDeviceCode(): Promise<TokenData> {
+  const authorization = await oauthHandler.requestDeviceAuthorization();
+
+  console.log(`Open ${authorization.verification_uri} on any device and enter the code:`);
+  console.log('');
+  console.log(`    ${authorization.user_code}`);
+  console.log('');
+  if (authorization.verification_uri_complete) {
+    console.log(`Or open ${authorization.verification_uri_complete}`);
+    console.log('');
   }
+  console.log('Waiting for approval...');
+
+  return oauthHandler.pollDeviceToken(authorization);
 }
 
-// CLI commands
-async function runAuthorize(): Promise<void> {
+async function runAuthorize(args: string[] = []): Promise<void> {
+  if (accessTokenAuth) {
+    console.log('MEDIAGRAPH_ACCESS_TOKEN is set, so no authorization is needed.');
+    console.log('Run "npx @mediagraph/mcp status" to check the token, or unset MEDIAGRAPH_ACCESS_TOKEN to use OAuth.');
+    return;
+  }
+
   if (!config.clientId) {
     console.error('Error: MEDIAGRAPH_CLIENT_ID environment variable is required');
     console.error('');
@@ -451,30 +554,14 @@ async function runAuthorize(): Promise<void> {
     process.exit(1);
   }
 
-  console.log('Starting Mediagraph OAuth authorization...');
-  console.log('');
-
-  const authUrl = oauthHandler.getAuthorizationUrl();
-
-  // Start callback server first
-  await oauthHandler.startCallbackServer();
+  // --device for SSH sessions and containers, where the browser can't reach the callback port
+  const useDeviceCode = args.includes('--device') || config.authFlow === 'device';
 
-  // Open browser automatically
-  openBrowser(authUrl);
-
-  console.log('Opening browser for authorization...');
-  console.log('If the browser does not open, please visit:');
-  console.log('');
-  console.log(authUrl);
+  console.log('Starting Mediagraph OAuth authorization...');
   console.log('');
-  console.log('Waiting for authorization callback...');
 
   try {
-    const { code } = await oauthHandler.waitForCallback();
-    console.log('');
-    console.log('Authorization code received. Exchanging for tokens...');
-
-    const tokens = await oauthHandler.exchangeCode(code);
+    const tokens = useDeviceCode ? await authorizeWithDeviceCode() : await authorizeInBrowser();
     console.log('Tokens received successfully.');
 
     // Get user info
@@ -493,7 +580,7 @@ async function runAuthorize(): Promise<void> {
       userId: whoami.user?.id,
       userEmail: whoami.user?.email,
     };
-    tokenStore.save(storedData);
+    await tokenStore.save(storedData);
 
     console.log('');
     console.log('Successfully authorized!');
@@ -512,23 +599,58 @@ async function runAuthorize(): Promise<void> {
 }
 
 async function runLogout(): Promise<void> {
-  const stored = tokenStore.load();
-  if (stored?.tokens?.access_token) {
+  if (accessTokenAuth) {
+    console.log('The server uses the personal access token from MEDIAGRAPH_ACCESS_TOKEN.');
+    console.log('Unset the variable to stop using it, or delete the token in Mediagraph to revoke it.');
+    return;
+  }
+
+  // Tokens that can't be decrypted can't be revoked, but are still cleared
+  let stored: StoredOrganizations | null = null;
+  try {
+    stored = tokenStore.loadAll();
+  } catch (error) {
+    console.error(`Warning: ${error instanceof Error ? error.message : error}`);
+  }
+  for (const [key, data] of Object.entries(stored?.organizations || {})) {
+    if (!data.tokens?.access_token) continue;
     try {
-      await oauthHandler.revokeToken(stored.tokens.access_token);
-      console.log('Token revoked successfully.');
+      await oauthHandler.revokeToken(data.tokens.access_token);
+      console.log(`Token revoked for ${data.organizationName || key}.`);
     } catch (error) {
-      console.error('Warning: Failed to revoke token:', error);
+      console.error(`Warning: Failed to revoke token for ${data.organizationName || key}:`, error);
     }
   }
 
-  tokenStore.clear();
+  await tokenStore.clear();
   console.log('Logged out. Stored tokens have been cleared.');
 }
 
 async function runStatus(): Promise<void> {
   const stored = tokenStore.load();
 
+  console.log(config.profile
+    ? `Profile: ${config.profile} (${config.configFile})`
+    : 'Profile: none (environment variables and defaults)');
+  console.log(`API: ${config.apiUrl}`);
+  if (!accessTokenAuth) {
+    console.log(`Token storage: ${tokenStore.description}`);
+  }
+  console.log('');
+
+  if (accessTokenAuth) {
+    console.log('Status: Using personal access token (MEDIAGRAPH_ACCESS_TOKEN)');
+    try {
+      const whoami = await accessTokenAuth.getWhoami();
+      console.log(`Organization: ${whoami.organization?.title || whoami.organization?.name || 'Unknown'} (${whoami.organization?.slug})`);
+      console.log(`User: ${whoami.user?.email || 'Unknown'}`);
+    } catch (error) {
+      console.log(`Token Status: Invalid (${error instanceof Error ? error.message : error})`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
   if (!stored?.tokens) {
     console.log('Status: Not authenticated');
     console.log('');
@@ -544,24 +666,158 @@ async function runStatus(): Promise<void> {
   console.log(`User: ${stored.userEmail || 'Unknown'}`);
   console.log(`Token Status: ${isExpired ? 'Expired' : `Valid (expires in ${expiresIn} minutes)`}`);
   console.log(`Refresh Token: ${stored.tokens.refresh_token ? 'Available' : 'Not available'}`);
+
+  const organizations = await localOrganizations.list();
+  if (organizations.length > 1) {
+    console.log('');
+    console.log('Signed-in organizations:');
+    for (const organization of organizations) {
+      console.log(`  ${organization.active ? '*' : ' '} ${organization.name || organization.slug} (${organization.slug})`);
+    }
+  }
+}
+
+/**
+ * Read the value following a CLI flag (e.g. --port 3000)
+ */
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
 }
 
-async function runServer(): Promise<void> {
+async function runServer(args: string[] = []): Promise<void> {
+  // Refuse to start with a policy we can't apply exactly as written
+  const { toolPolicy, toolDefaults } = config;
+  validateToolPolicy(toolPolicy);
+  if (config.profile) {
+    log.info(`Using profile ${config.profile} (${config.apiUrl})`);
+  }
+  if (config.dryRun) {
+    log.info('Dry-run mode: tools describe changes instead of making them');
+  }
+
+  if (args.includes('--http')) {
+    await runHttpServer({
+      apiUrl: config.apiUrl,
+      host: getFlagValue(args, '--host') || config.httpHost,
+      port: parseInt(getFlagValue(args, '--port') || String(config.httpPort), 10),
+      subscriptionPollIntervalMs: config.subscriptionPollInterval * 1000,
+      sessionIdleTimeoutMs: config.httpSessionTimeout * 1000,
+      toolPolicy,
+      toolDefaults,
+      audit,
+      dryRun: config.dryRun,
+      changes,
+      rateLimits,
+    });
+    return;
+  }
+
+  if (accessTokenAuth) {
+    log.info('Authenticating with MEDIAGRAPH_ACCESS_TOKEN, OAuth is disabled');
+  }
+
+  const server = createMediagraphServer({
+    client: accessTokenAuth?.client ?? client,
+    auth: accessTokenAuth ?? localAuth,
+    subscriptionPollIntervalMs: config.subscriptionPollInterval * 1000,
+    toolPolicy,
+    toolDefaults,
+    audit,
+    dryRun: config.dryRun,
+    changes,
+  });
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error('Mediagraph MCP server started');
+  log.info('Mediagraph MCP server started');
+}
+
+/**
+ * Tool context for `call`: the stored sign-in or access token, without
+ * starting a sign-in (scripts should fail instead of waiting on a browser)
+ */
+async function createCliToolContext(args: Record<string, unknown>): Promise<ToolContext> {
+  const auth = accessTokenAuth ?? localAuth;
+  if (!(await auth.getAccessToken())) {
+    throw new Error('Not authenticated. Run "npx @mediagraph/mcp authorize" or set MEDIAGRAPH_ACCESS_TOKEN.');
+  }
+  const cliClient = accessTokenAuth?.client ?? client;
+
+  // Ctrl-C cancels the tool call (bulk jobs, uploads) instead of killing the process
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let role: MembershipRole | undefined;
+  try {
+    role = (await cliClient.whoami()).membership?.role;
+  } catch (error) {
+    log.warning('Failed to look up membership role', error);
+  }
+
+  return {
+    client: cliClient,
+    organizationSlug: await auth.getOrganizationSlug(),
+    organizations: accessTokenAuth ? undefined : localOrganizations,
+    policy: config.toolPolicy,
+    defaults: config.toolDefaults,
+    role,
+    audit,
+    dryRun: config.dryRun,
+    changes,
+    signal: controller.signal,
+    // Without a terminal to ask on, destructive tools need --confirm
+    confirm: process.stdin.isTTY && args.confirm !== true ? confirmInTerminal : undefined,
+    reportProgress: process.stderr.isTTY
+      ? async (progress, total, message) => {
+        process.stderr.write(`\r${total ? `${progress}/${total}` : progress}${message ? ` ${message}` : ''}\x1b[K`);
+        if (total !== undefined && progress >= total) process.stderr.write('\n');
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Check the token, network, callback port and install, in the order a
+ * request depends on them
+ */
+async function runDoctor(args: string[]): Promise<void> {
+  const usingAccessToken = 'MEDIAGRAPH_ACCESS_TOKEN is set, stored tokens are not used';
+  const checks: DoctorCheck[] = [
+    accessTokenAuth
+      ? skippedCheck('Token storage', usingAccessToken)
+      : tokenFileCheck(tokenStore),
+    accessTokenAuth
+      ? skippedCheck('Access token', usingAccessToken)
+      : tokenExpiryCheck({ load: () => tokenStore.load(), refresh: refreshAndSaveTokens }),
+    reachabilityCheck('API', config.apiUrl, { setting: 'MEDIAGRAPH_API_URL' }),
+    reachabilityCheck('OAuth server', config.oauthUrl, { setting: 'MEDIAGRAPH_OAUTH_URL' }),
+    accessTokenAuth || config.authFlow === 'device'
+      ? skippedCheck('Callback port', accessTokenAuth ? 'OAuth is not used with MEDIAGRAPH_ACCESS_TOKEN' : 'Device sign-in does not use a callback port')
+      : redirectPortCheck(config.redirectPorts),
+    whoamiCheck(accessTokenAuth?.client ?? client, () => (accessTokenAuth ?? localAuth).getAccessToken()),
+    appBundleCheck(appBundlePath()),
+    toolDefinitionsCheck(config.toolPolicy),
+  ];
+
+  if (!args.includes('--json')) {
+    console.log(config.profile
+      ? `Profile: ${config.profile} (${config.configFile})`
+      : 'Profile: none (environment variables and defaults)');
+    console.log('');
+  }
+  process.exitCode = await runDoctorCommand(args, checks);
 }
 
 // Main entry point
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const args = cliArgs;
   const command = args[0];
 
   switch (command) {
     case 'authorize':
     case 'auth':
     case 'login':
-      await runAuthorize();
+      await runAuthorize(args.slice(1));
       break;
 
     case 'logout':
@@ -574,27 +830,101 @@ async function main(): Promise<void> {
       await runStatus();
       break;
 
+    case 'serve':
+      await runServer(args.slice(1));
+      break;
+
+    case 'doctor':
+      await runDoctor(args.slice(1));
+      break;
+
+    case 'call':
+      validateToolPolicy(config.toolPolicy);
+      process.exitCode = await runCallCommand(args.slice(1), {
+        createContext: createCliToolContext,
+        policy: config.toolPolicy,
+      });
+      break;
+
+    case 'audit':
+      process.exitCode = runAuditCommand(args.slice(1), { auditLog });
+      break;
+
+    case 'tools':
+      validateToolPolicy(config.toolPolicy);
+      process.exitCode = runToolsCommand(args.slice(1), { policy: config.toolPolicy });
+      break;
+
     case 'help':
     case '--help':
     case '-h':
       console.log(`
 Mediagraph MCP Server
 
-Usage: npx @mediagraph/mcp [command]
+Usage: npx @mediagraph/mcp [command] [--profile <name>]
 
 Commands:
   (no command)  Start the MCP server (for Claude Desktop)
-  authorize     Authorize with Mediagraph via OAuth
+  serve         Start the MCP server (add --http for Streamable HTTP)
+  authorize     Authorize with Mediagraph via OAuth (--device to sign in
+                with a code on another device, e.g. over SSH)
   logout        Log out and revoke tokens
   status        Show current authentication status
+  doctor        Check the sign-in, network, callback port and install (--json)
+  call <tool>   Run a tool and print its result (--name value or --json '{...}',
+                --format json|table)
+  tools [name]  List the available tools, or show one tool's arguments (--json)
+  audit         Show recorded tool calls (--since 7d, --until <date>, --tool <name>,
+                --asset <id>, --errors, --limit <n>, --json)
   help          Show this help message
 
+Profiles:
+  --profile <name> selects a profile from ~/.mediagraph/config.json. Each
+  profile can set apiUrl, oauthUrl, clientId, authFlow, tokenFile, modules and
+  defaults (per_page, download_size, watermark). Environment variables override it.
+
 Environment Variables (all optional):
+  MEDIAGRAPH_PROFILE         Profile to use when --profile is not given
+  MEDIAGRAPH_CONFIG_FILE     Config file (default: ~/.mediagraph/config.json)
+  MEDIAGRAPH_ACCESS_TOKEN    Personal access token; skips OAuth (CI, headless)
   MEDIAGRAPH_CLIENT_ID       Override default OAuth client ID
   MEDIAGRAPH_CLIENT_SECRET   OAuth client secret (for confidential clients)
   MEDIAGRAPH_API_URL         API URL (default: https://api.mediagraph.io)
   MEDIAGRAPH_OAUTH_URL       OAuth URL (default: https://mediagraph.io)
-  MEDIAGRAPH_REDIRECT_PORT   Local callback port (default: 52584)
+  MEDIAGRAPH_REDIRECT_PORT   Callback ports to try, e.g. 52584 or 52584-52590 (default: 52584)
+  MEDIAGRAPH_AUTH_TIMEOUT    Seconds to wait for a browser sign-in (default: 300)
+  MEDIAGRAPH_AUTH_FLOW       browser or device (code sign-in without a callback)
+  MEDIAGRAPH_TOKEN_STORAGE   file (default) or memory (nothing written to disk)
+  MEDIAGRAPH_TOKEN_PASSPHRASE
+                             Passphrase the token file key is derived from (default: random key file)
+  MEDIAGRAPH_AUDIT_LOG       Tool call audit log (default: ~/.mediagraph/audit.jsonl, off to disable)
+  MEDIAGRAPH_CHANGE_JOURNAL  Undo journal (default: ~/.mediagraph/changes.jsonl, off to disable)
+  MEDIAGRAPH_HTTP_HOST       HTTP mode bind address (default: 127.0.0.1)
+  MEDIAGRAPH_HTTP_PORT       HTTP mode port (default: 3000)
+  MEDIAGRAPH_HTTP_SESSION_TIMEOUT
+                             Seconds before an idle HTTP session is closed (default: 1800)
+  MEDIAGRAPH_SUBSCRIPTION_POLL_INTERVAL
+                             Seconds between resource change checks (default: 60)
+  MEDIAGRAPH_LOG_LEVEL       Minimum level written to stderr (default: info)
+  MEDIAGRAPH_TOOL_MODULES    Comma-separated tool modules to enable (default: all)
+  MEDIAGRAPH_READ_ONLY       Only expose read-only tools (true/false)
+  MEDIAGRAPH_DENY_TOOLS      Comma-separated tools to disable
+  MEDIAGRAPH_DRY_RUN         Tools describe changes instead of making them (true/false)
+  MEDIAGRAPH_RATE_LIMIT      API requests per second (default: 10, 0 for no limit)
+  MEDIAGRAPH_MAX_CONCURRENCY API requests at once (default: 4, 0 for no limit)
+  MEDIAGRAPH_TOOL_POLICY_FILE
+                             JSON file with modules, readOnly and denyTools
+
+Scripting:
+  call search_assets --q sunset --per-page 5 --format table
+  call update_asset --json '{"id": 123, "title": "Cover"}'
+  call update_asset --id 123 --title Cover --dry-run
+  Exits 1 when the tool returns an error and 2 for invalid arguments.
+
+HTTP Mode:
+  serve --http [--host <host>] [--port <port>]
+  Serves MCP over Streamable HTTP at /mcp. Each session authenticates with
+  its own Mediagraph access token sent as "Authorization: Bearer <token>".
 
 Example:
   # First, authorize with Mediagraph
@@ -0,0 +1,185 @@
+/**
+ * Structured logger for the Mediagraph MCP Server
+ *
+ * Writes single-line entries to stderr (stdout belongs to the stdio
+ * transport) and, for MCP sessions, forwards them to the client as
+ * notifications/message at the level the client picked with logging/setLevel.
+ * Every logged value is redacted and truncated first, so tokens and uploaded
+ * file contents never end up in logs.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// Ordered by severity, as defined by the MCP logging capability (RFC 5424)
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export interface LogMessage {
+  level: LogLevel;
+  logger: string;
+  data: unknown;
+}
+
+export type ClientLogSender = (message: LogMessage) => Promise<void>;
+
+interface ClientState {
+  level: LogLevel;
+  send: ClientLogSender;
+}
+
+interface LoggerState {
+  /** Minimum level written to stderr, one object shared by every derived logger */
+  local: { level: LogLevel };
+  client?: ClientState;
+}
+
+const DEFAULT_LEVEL: LogLevel = 'info';
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 6;
+
+// Keys whose values are credentials
+const SECRET_KEY_PATTERN = /(^|_)(token|secret|password|passphrase|authorization|api_key|code_verifier)$/i;
+// Keys whose values are file contents - only their size is logged
+const CONTENT_KEYS = new Set(['file_data', 'fileData']);
+const BEARER_PATTERN = /(Bearer\s+)[^\s"']+/gi;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as string[]).includes(value);
+}
+
+function severity(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+function truncate(text: string): string {
+  const redacted = text.replace(BEARER_PATTERN, '$1[REDACTED]');
+  if (redacted.length <= MAX_STRING_LENGTH) return redacted;
+  return `${redacted.slice(0, MAX_STRING_LENGTH)}... (${redacted.length} chars)`;
+}
+
+/**
+ * Make a value safe to log: redact credentials, drop file contents and
+ * truncate long strings and arrays
+ */
+export function sanitize(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return truncate(value);
+  if (typeof value !== 'object') return value;
+
+  if (value instanceof Error) {
+    const error: Record<string, unknown> = { name: value.name, message: truncate(value.message) };
+    const statusCode = (value as { statusCode?: unknown }).statusCode;
+    if (statusCode !== undefined) error.statusCode = statusCode;
+    return error;
+  }
+
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return `[binary, ${value.byteLength} bytes]`;
+  }
+
+  if (depth >= MAX_DEPTH) return '[...]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => sanitize(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`... ${value.length - MAX_ARRAY_ITEMS} more`);
+    }
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      result[key] = entry ? '[REDACTED]' : entry;
+    } else if (CONTENT_KEYS.has(key) && typeof entry === 'string') {
+      result[key] = `[omitted, ${entry.length} chars]`;
+    } else {
+      result[key] = sanitize(entry, depth + 1);
+    }
+  }
+  return result;
+}
+
+export class Logger {
+  constructor(
+    private name: string,
+    private state: LoggerState,
+  ) {}
+
+  /**
+   * Logger for a component, sharing this logger's levels and client
+   */
+  child(name: string): Logger {
+    return new Logger(name, this.state);
+  }
+
+  /**
+   * Logger that also forwards entries to an MCP client. It keeps following
+   * this logger's stderr level.
+   */
+  withClient(send: ClientLogSender, level: LogLevel = DEFAULT_LEVEL): Logger {
+    return new Logger(this.name, { local: this.state.local, client: { level, send } });
+  }
+
+  /**
+   * Minimum level forwarded to the client (logging/setLevel)
+   */
+  setClientLevel(level: LogLevel): void {
+    if (this.state.client) {
+      this.state.client.level = level;
+    }
+  }
+
+  setLevel(level: LogLevel): void {
+    this.state.local.level = level;
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.log('info', message, data);
+  }
+
+  notice(message: string, data?: unknown): void {
+    this.log('notice', message, data);
+  }
+
+  warning(message: string, data?: unknown): void {
+    this.log('warning', message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.log('error', message, data);
+  }
+
+  log(level: LogLevel, message: string, data?: unknown): void {
+    const writeLocal = severity(level) >= severity(this.state.local.level);
+    const client = this.state.client;
+    const writeClient = client !== undefined && severity(level) >= severity(client.level);
+    if (!writeLocal && !writeClient) return;
+
+    const safeMessage = truncate(message);
+    const safeData = data === undefined ? undefined : sanitize(data);
+
+    if (writeLocal) {
+      const line = `${new Date().toISOString()} ${level.toUpperCase()} [${this.name}] ${safeMessage}`;
+      process.stderr.write(safeData === undefined ? `${line}\n` : `${line} ${JSON.stringify(safeData)}\n`);
+    }
+
+    if (writeClient) {
+      const payload = safeData === undefined ? safeMessage : { message: safeMessage, data: safeData };
+      // Logging must never fail the operation being logged (e.g. after disconnect)
+      client.send({ level, logger: this.name, data: payload }).catch(() => {});
+    }
+  }
+}
+
+function levelFromEnv(): LogLevel {
+  const level = process.env.MEDIAGRAPH_LOG_LEVEL?.toLowerCase();
+  return isLogLevel(level) ? level : DEFAULT_LEVEL;
+}
+
+// Process-wide logger; MCP sessions derive client-aware loggers with withClient()
+export const logger = new Logger('mediagraph', { local: { level: levelFromEnv() } });
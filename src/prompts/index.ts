@@ -0,0 +1,138 @@
+/**
+ * MCP Prompts for Mediagraph
+ *
+ * Parameterized workflow templates that guide the model through common DAM
+ * tasks using the existing tools.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+export interface PromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+type PromptBuilder = (args: Record<string, string>) => string;
+
+interface PromptTemplate {
+  definition: PromptDefinition;
+  build: PromptBuilder;
+}
+
+const templates: PromptTemplate[] = [
+  {
+    definition: {
+      name: 'audit_alt_text',
+      title: 'Audit alt text in a collection',
+      description: 'Find assets in a collection that are missing alt text and fill the gaps',
+      arguments: [
+        { name: 'collection_id', description: 'ID of the collection to audit', required: true },
+        { name: 'mode', description: 'How to fill missing alt text: "review" (suggest, then confirm) or "generate" (AI bulk job). Default: review' },
+      ],
+    },
+    build: (args) => {
+      const generate = args.mode === 'generate';
+      return `Audit the alt text of the assets in Mediagraph collection ${args.collection_id}.
+
+1. Use get_collection to confirm the collection name and asset count.
+2. Use search_assets with collection_id ${args.collection_id} and has_alt_text "no" to find assets missing alt text. Page through all results (per_page 100).
+3. Also use search_assets with has_alt_text "yes" and review a sample for alt text that is too short, duplicates the filename, or just repeats the title.
+4. Summarize the findings: total assets, how many are missing alt text, and any low-quality alt text you found.
+${generate
+    ? `5. Create a single create_bulk_job with the IDs of the assets missing alt text and generate_alt_text set to true. Report the bulk job ID and check progress with get_bulk_job.`
+    : `5. For each asset missing alt text, use get_asset to look at its title, description and tags, then propose concise alt text (under 125 characters).
+6. Show me the proposed alt text as a table and wait for my approval before applying it with update_asset.`}`;
+    },
+  },
+  {
+    definition: {
+      name: 'prepare_client_delivery',
+      title: 'Prepare a client delivery lightbox',
+      description: 'Gather approved assets into a new lightbox and create a share link for a client',
+      arguments: [
+        { name: 'client_name', description: 'Name of the client receiving the delivery', required: true },
+        { name: 'query', description: 'Search query selecting the assets to deliver (advanced search syntax supported)', required: true },
+        { name: 'permission', description: 'Download permission for images and video: view, download_small, download_large or download_original. Default: download_large' },
+        { name: 'expires_at', description: 'Optional expiration date for the share link (ISO 8601)' },
+      ],
+    },
+    build: (args) => {
+      const permission = args.permission || 'download_large';
+      return `Prepare a client delivery for ${args.client_name}.
+
+1. Use search_assets with q "${args.query}" and include_totals true to find the assets to deliver. Show me the count and a short list of filenames, and flag any assets without a rights package or with a restrictive rights status.
+2. After I confirm the selection, create a lightbox with create_lightbox named "${args.client_name} delivery" (append today's date).
+3. Add the selected assets to the lightbox with add_assets_to_group (use create_bulk_job with add_asset_group_type "Lightbox" if there are more than 100 assets).
+4. Create a share link for the lightbox with create_share_link, image_and_video_permission "${permission}"${args.expires_at ? `, expires_at "${args.expires_at}"` : ''} and a note mentioning ${args.client_name}.
+5. Reply with the lightbox name, the number of assets delivered and the share link URL.`;
+    },
+  },
+  {
+    definition: {
+      name: 'clean_up_duplicate_tags',
+      title: 'Clean up duplicate tags',
+      description: 'Find tags that differ only by case, spelling or pluralization and merge them',
+      arguments: [
+        { name: 'q', description: 'Optional search term to limit which tags are reviewed' },
+      ],
+    },
+    build: (args) => `Clean up duplicate tags in our Mediagraph organization.
+
+1. Use list_tags${args.q ? ` with q "${args.q}"` : ''} to collect tags (per_page 100, page through all results).
+2. Group tags that are likely duplicates: different capitalization, singular vs. plural, hyphen vs. space, or obvious misspellings.
+3. For each group, pick the tag to keep (prefer the one used on the most assets, then the most conventional spelling) and present the plan as a table: keep, merge, usage counts.
+4. Wait for my approval, then merge each duplicate into the kept tag with merge_tags.
+5. Report which tags were merged and any that were skipped.`,
+  },
+];
+
+// Exported definitions for prompts/list
+export const promptDefinitions: PromptDefinition[] = templates.map(t => t.definition);
+
+/**
+ * Render a prompt by name with the given arguments
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): PromptResult {
+  const template = templates.find(t => t.definition.name === name);
+  if (!template) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const argument of template.definition.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new Error(`Missing required argument: ${argument.name}`);
+    }
+  }
+
+  return {
+    description: template.definition.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: template.build(args),
+        },
+      },
+    ],
+  };
+}
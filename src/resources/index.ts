@@ -3,6 +3,7 @@
  */
 
 import type { MediagraphClient } from '../api/client.js';
+import { logger } from '../logger.js';
 
 export interface ResourceContext {
   client: MediagraphClient;
@@ -52,9 +53,10 @@ export const resourceTemplates = [
 /**
  * Parse a mediagraph:// URI and extract the resource type and ID
  */
-function parseUri(uri: string): { type: string; id?: string; query?: URLSearchParams } {
+export function parseUri(uri: string): { type: string; id?: string; query?: URLSearchParams } {
   const url = new URL(uri);
-  const pathParts = url.pathname.split('/').filter(Boolean);
+  // mediagraph://asset/123 parses with "asset" as the host and "/123" as the path
+  const pathParts = [url.host, ...url.pathname.split('/')].filter(Boolean);
 
   if (pathParts.length === 0) {
     throw new Error('Invalid resource URI');
@@ -198,7 +200,7 @@ export async function listResources(context: ResourceContext): Promise<Resource[
     }
   } catch (error) {
     // If not authenticated or error, return empty list
-    console.error('Error listing resources:', error);
+    logger.child('Resources').error('Error listing resources', error);
   }
 
   return resources;
@@ -0,0 +1,221 @@
+/**
+ * Resource subscriptions for Mediagraph
+ *
+ * Polls for assets updated since the previous poll and collection/lightbox
+ * timestamps, and reports which subscribed resource URIs changed so the
+ * server can emit notifications/resources/updated.
+ */
+
+import type { MediagraphClient } from '../api/client.js';
+import { parseUri } from './index.js';
+import { logger as defaultLogger, type Logger } from '../logger.js';
+
+export interface ResourceSubscriptionsConfig {
+  client: MediagraphClient;
+  onUpdated: (uri: string) => Promise<void>;
+  pollIntervalMs?: number;
+  logger?: Logger;
+}
+
+interface AssetSubscription {
+  type: 'asset';
+  ref: string;
+  assetId?: number;
+  updatedAt?: string;
+}
+
+interface GroupSubscription {
+  type: 'collection' | 'lightbox';
+  id: number;
+  updatedAt?: string;
+}
+
+type Subscription = AssetSubscription | GroupSubscription;
+
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+// Asset IDs per search, to keep the query string short
+const MAX_IDS_PER_SEARCH = 100;
+
+export class ResourceSubscriptions {
+  private client: MediagraphClient;
+  private onUpdated: (uri: string) => Promise<void>;
+  private pollIntervalMs: number;
+  private log: Logger;
+  private subscriptions = new Map<string, Subscription>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  private lastPollAt = new Date();
+
+  constructor(config: ResourceSubscriptionsConfig) {
+    this.client = config.client;
+    this.onUpdated = config.onUpdated;
+    this.pollIntervalMs = config.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+    this.log = config.logger || defaultLogger.child('Subscriptions');
+  }
+
+  /**
+   * Subscribe to a mediagraph:// resource URI
+   */
+  async subscribe(uri: string): Promise<void> {
+    const { type, id } = parseUri(uri);
+    if (!id) {
+      throw new Error(`Cannot subscribe to ${uri}: resource ID is required`);
+    }
+
+    let subscription: Subscription;
+    switch (type) {
+      case 'asset':
+        subscription = { type, ref: id };
+        break;
+      case 'collection':
+      case 'lightbox':
+        subscription = { type, id: parseInt(id, 10) };
+        break;
+      default:
+        throw new Error(`Subscriptions are not supported for resource type: ${type}`);
+    }
+
+    // Record the current state so the first poll only reports real changes
+    try {
+      await this.refresh(subscription);
+    } catch (error) {
+      this.log.warning(`Failed to load initial state for ${uri}`, error);
+    }
+
+    this.subscriptions.set(uri, subscription);
+    this.start();
+  }
+
+  /**
+   * Remove a subscription
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  /**
+   * Check all subscriptions once and notify for changed resources
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.subscriptions.size === 0) return;
+    this.polling = true;
+
+    const since = this.lastPollAt;
+    const now = new Date();
+
+    try {
+      const changedIds = await this.getChangedAssetIds(since, now);
+
+      for (const [uri, subscription] of this.subscriptions) {
+        try {
+          if (await this.hasChanged(subscription, changedIds, since, now)) {
+            await this.onUpdated(uri);
+          }
+        } catch (error) {
+          this.log.warning(`Failed to check ${uri}`, error);
+        }
+      }
+
+      this.lastPollAt = now;
+    } catch (error) {
+      this.log.error('Poll failed', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.lastPollAt = new Date();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.pollIntervalMs);
+    // Never keep the process alive just for polling
+    this.timer.unref?.();
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribed assets updated between the two times, looked up by ID so the
+   * query stays bounded by the number of subscriptions
+   */
+  private async getChangedAssetIds(since: Date, now: Date): Promise<Set<number>> {
+    const ids = [...this.subscriptions.values()]
+      .flatMap((subscription) => subscription.type === 'asset' && subscription.assetId !== undefined ? [subscription.assetId] : []);
+    const changed = new Set<number>();
+    for (let i = 0; i < ids.length; i += MAX_IDS_PER_SEARCH) {
+      const batch = ids.slice(i, i + MAX_IDS_PER_SEARCH);
+      const results = await this.client.searchAssets({
+        ids: batch,
+        updated_at: [since.toISOString(), now.toISOString()],
+        per_page: batch.length,
+      });
+      results.assets.forEach((asset) => changed.add(asset.id));
+    }
+    return changed;
+  }
+
+  private async hasChanged(subscription: Subscription, changedIds: Set<number>, since: Date, now: Date): Promise<boolean> {
+    const previous = subscription.updatedAt;
+
+    if (subscription.type === 'asset') {
+      // Only refetch assets updated since the last poll
+      if (subscription.assetId !== undefined && !changedIds.has(subscription.assetId)) {
+        return false;
+      }
+      await this.refresh(subscription);
+      return previous !== undefined && subscription.updatedAt !== previous;
+    }
+
+    await this.refresh(subscription);
+    if (previous !== undefined && subscription.updatedAt !== previous) {
+      return true;
+    }
+
+    // The group itself is unchanged - check whether any of its assets were edited
+    const results = await this.client.searchAssets({
+      ...(subscription.type === 'collection' ? { collection_id: subscription.id } : { lightbox_id: subscription.id }),
+      updated_at: [since.toISOString(), now.toISOString()],
+      per_page: 1,
+    });
+    return results.total > 0;
+  }
+
+  private async refresh(subscription: Subscription): Promise<void> {
+    switch (subscription.type) {
+      case 'asset': {
+        const asset = await this.client.getAsset(subscription.assetId ?? subscription.ref);
+        subscription.assetId = asset.id;
+        subscription.updatedAt = asset.updated_at;
+        break;
+      }
+      case 'collection': {
+        const collection = await this.client.getCollection(subscription.id);
+        subscription.updatedAt = collection.updated_at;
+        break;
+      }
+      case 'lightbox': {
+        const lightbox = await this.client.getLightbox(subscription.id);
+        subscription.updatedAt = lightbox.updated_at;
+        break;
+      }
+    }
+  }
+}
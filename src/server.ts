@@ -0,0 +1,456 @@
+/**
+ * MCP Server factory
+ *
+ * Builds an MCP server whose tool and resource handlers are bound to a single
+ * session. Stdio mode creates one session for the local user; HTTP mode
+ * creates one per connected MCP client so that credentials never leak
+ * between sessions.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { readFileSync, existsSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import type { MediagraphClient } from './api/client.js';
+import {
+  getToolDefinitions,
+  handleTool,
+  type ToolContext,
+  type ToolPolicy,
+  type ToolDefaults,
+  type MembershipRole,
+} from './tools/index.js';
+import type {
+  ReauthorizeResult,
+  ProgressReporter,
+  ConfirmationRequester,
+  OrganizationDirectory,
+  SignInPrompter,
+  ToolCallRecorder,
+  ChangeJournal,
+} from './tools/shared.js';
+import { resourceTemplates, readResource, listResources, type ResourceContext } from './resources/index.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
+import { promptDefinitions, getPrompt } from './prompts/index.js';
+import { ArgumentCompletions } from './completions/index.js';
+import { logger, type Logger } from './logger.js';
+
+export type AuthenticateResult =
+  | { success: true; token: string }
+  | { success: false; message: string };
+
+/**
+ * Authentication source for a session
+ */
+export interface SessionAuth {
+  /** Return a valid access token, or null if the session is not authenticated */
+  getAccessToken(): Promise<string | null>;
+  /**
+   * Try to obtain a token interactively (e.g. browser OAuth). A device code
+   * sign-in sends the user to its verification URL with promptSignIn when
+   * the client supports it.
+   */
+  authenticate(promptSignIn?: SignInPrompter): Promise<AuthenticateResult>;
+  /** Slug of the organization the session is authenticated against */
+  getOrganizationSlug(): Promise<string | undefined>;
+  reauthorize?: (promptSignIn?: SignInPrompter) => Promise<ReauthorizeResult>;
+  /** Other organizations the session can act in, if it supports several */
+  organizations?: OrganizationDirectory;
+}
+
+export interface SessionOptions {
+  client: MediagraphClient;
+  auth: SessionAuth;
+  /** How often subscribed resources are checked for changes */
+  subscriptionPollIntervalMs?: number;
+  /** Limits which tools are listed and callable */
+  toolPolicy?: ToolPolicy;
+  /** Argument defaults from the active profile */
+  toolDefaults?: ToolDefaults;
+  /** Records every tool call, when the audit log is on */
+  audit?: ToolCallRecorder;
+  /** Run every tool call as a dry run */
+  dryRun?: boolean;
+  /** Keeps prior values for undo_change, when the change journal is on */
+  changes?: ChangeJournal;
+}
+
+/**
+ * Create an MCP server bound to a single session
+ */
+export function createMediagraphServer(session: SessionOptions): Server {
+  const { client, auth } = session;
+
+  const toolContext: ToolContext = {
+    client,
+    reauthorize: auth.reauthorize,
+    organizations: auth.organizations,
+    policy: session.toolPolicy,
+    defaults: session.toolDefaults,
+    audit: session.audit,
+    dryRun: session.dryRun,
+    changes: session.changes,
+  };
+  const resourceContext: ResourceContext = { client };
+
+  const server = new Server(
+    {
+      name: 'mediagraph-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: true },
+        prompts: {},
+        completions: {},
+        logging: {},
+      },
+    },
+  );
+
+  // Session logger: stderr plus notifications/message to this client
+  const sessionLogger = logger.withClient((message) => server.sendLoggingMessage(message));
+  const log = sessionLogger.child('MCP');
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    sessionLogger.setClientLevel(request.params.level);
+    return {};
+  });
+
+  // The visible tools follow the signed-in user's membership role. It is looked
+  // up once per access token; clients are told when it no longer matches the
+  // role their last tools/list was built for (e.g. after reauthorize).
+  let membership: { token: string; role?: MembershipRole } | null = null;
+  let listedRole: MembershipRole | undefined;
+  let hasListedTools = false;
+
+  async function resolveRole(): Promise<MembershipRole | undefined> {
+    const token = await auth.getAccessToken();
+    if (!token || membership?.token === token) {
+      return membership?.role;
+    }
+
+    try {
+      const whoami = await client.whoami();
+      membership = { token, role: whoami.membership?.role };
+    } catch (error) {
+      log.warning('Failed to look up membership role', error);
+      return membership?.role;
+    }
+
+    if (hasListedTools && membership.role !== listedRole) {
+      log.info(`Tool list changed for role: ${membership.role || 'unknown'}`);
+      listedRole = membership.role;
+      server.sendToolListChanged().catch((error) => log.warning('Failed to send tool list change', error));
+    }
+    return membership.role;
+  }
+
+  // Sign-in URLs (device code flow) are opened through URL elicitation when the host supports it
+  function signInPrompter(signal: AbortSignal): SignInPrompter | undefined {
+    if (!server.getClientCapabilities()?.elicitation?.url) {
+      return undefined;
+    }
+    return async (message, url) => {
+      const response = await server.elicitInput({ mode: 'url', message, url, elicitationId: randomUUID() }, { signal });
+      return response.action === 'accept';
+    };
+  }
+
+  // Handle tool listing
+  // NOTE: Don't auto-auth here - until the user signs in every tool is listed
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const role = await resolveRole();
+    listedRole = role;
+    hasListedTools = true;
+    return {
+      tools: getToolDefinitions(session.toolPolicy, role, toolContext.organizations !== undefined),
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Reauthorize handles its own auth flow, skip the normal check
+    if (name === 'reauthorize') {
+      log.info(`Tool call: ${name}`);
+      const result = await handleTool(name, (args || {}) as Record<string, unknown>, {
+        ...toolContext,
+        promptSignIn: signInPrompter(extra.signal),
+      });
+      // A different account may have a different role and other groups and tags
+      completions.clear();
+      await resolveRole();
+      return { content: result.content, structuredContent: result.structuredContent, isError: result.isError };
+    }
+
+    // Check authentication - auto-trigger auth if needed
+    const token = await auth.getAccessToken();
+    if (!token) {
+      const authResult = await auth.authenticate(signInPrompter(extra.signal));
+      if (!authResult.success) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: authResult.message,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    // Arguments are redacted and truncated by the logger (e.g. base64 file_data)
+    log.info(`Tool call: ${name}`);
+    log.debug(`Arguments for ${name}`, args);
+
+    // Progress notifications are only sent when the caller asked for them
+    const progressToken = request.params._meta?.progressToken;
+    const reportProgress: ProgressReporter | undefined = progressToken === undefined
+      ? undefined
+      : async (progress, total, message) => {
+        try {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          });
+        } catch (error) {
+          log.warning('Failed to send progress notification', error);
+        }
+      };
+
+    // Destructive tools ask the user through form elicitation when the host supports it
+    const confirm: ConfirmationRequester | undefined = server.getClientCapabilities()?.elicitation?.form
+      ? async (message) => {
+        const response = await server.elicitInput({
+          message,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: { type: 'boolean', title: 'Confirm', description: 'Go ahead with this action' },
+            },
+            required: ['confirm'],
+          },
+        }, { signal: extra.signal });
+        return response.action === 'accept' && response.content?.confirm === true;
+      }
+      : undefined;
+
+    // Organization slug is resolved per call, the session may re-authorize in between
+    const context: ToolContext = {
+      ...toolContext,
+      organizationSlug: await auth.getOrganizationSlug(),
+      reportProgress,
+      signal: extra.signal,
+      confirm,
+      role: await resolveRole(),
+    };
+
+    const result = await handleTool(name, (args || {}) as Record<string, unknown>, context);
+
+    if (name === 'switch_organization' && !result.isError) {
+      completions.clear();
+      await resolveRole();
+    }
+
+    // Log result status
+    if (result.isError) {
+      log.warning(`Tool error: ${name}`, { message: result.content[0]?.text });
+    } else {
+      log.info(`Tool success: ${name}`);
+    }
+
+    return {
+      content: result.content,
+      structuredContent: result.structuredContent,
+      isError: result.isError,
+    };
+  });
+
+  // Handle resource template listing
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  // Handle resource listing
+  // NOTE: Don't auto-auth here - just return empty if not authenticated
+  // Auth will happen when user actually calls a tool
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const token = await auth.getAccessToken();
+    if (!token) {
+      return { resources: [] };
+    }
+
+    const resources = await listResources(resourceContext);
+    return { resources };
+  });
+
+  // Handle resource reading
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+
+    // Handle MCP App UI resources
+    if (uri.startsWith('ui://mediagraph/')) {
+      return handleAppResource(uri, log);
+    }
+
+    const token = await auth.getAccessToken();
+    if (!token) {
+      const authResult = await auth.authenticate(signInPrompter(extra.signal));
+      if (!authResult.success) {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'text/plain',
+              text: authResult.message,
+            },
+          ],
+        };
+      }
+    }
+
+    const content = await readResource(uri, resourceContext);
+    return {
+      contents: [content],
+    };
+  });
+
+  // Resource subscriptions are polled per session and stop when it closes
+  const subscriptions = new ResourceSubscriptions({
+    client,
+    logger: sessionLogger.child('Subscriptions'),
+    pollIntervalMs: session.subscriptionPollIntervalMs,
+    onUpdated: (uri) => server.sendResourceUpdated({ uri }),
+  });
+  server.onclose = () => subscriptions.close();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Handle prompt listing
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: promptDefinitions,
+    };
+  });
+
+  // Handle prompt rendering (no API calls, so no auth needed)
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = getPrompt(name, args);
+    return {
+      description: prompt.description,
+      messages: prompt.messages,
+    };
+  });
+
+  // Argument completion for resource templates and prompts
+  // NOTE: Like resource listing, never auto-auth while the user is typing
+  const completions = new ArgumentCompletions({ client, logger: sessionLogger.child('Completions') });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const token = await auth.getAccessToken();
+    if (!token) {
+      return { completion: { values: [], total: 0, hasMore: false } };
+    }
+
+    const completion = await completions.complete(request.params.ref, request.params.argument);
+    return { completion: { ...completion } };
+  });
+
+  return server;
+}
+
+/**
+ * Where the bundled MCP App UI is expected: dist/app/index.html, next to
+ * the built server script
+ */
+export function appBundlePath(): string {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  return join(__dirname, 'app', 'index.html');
+}
+
+/**
+ * Handle MCP App UI resource requests
+ * Serves the bundled React app for visual tools
+ */
+function handleAppResource(uri: string, log: Logger) {
+  const appPath = appBundlePath();
+
+  if (!existsSync(appPath)) {
+    log.error(`App resource not found at: ${appPath}`);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/plain',
+          text: 'MCP App UI not found. Please rebuild the project with npm run build.',
+        },
+      ],
+    };
+  }
+
+  try {
+    const html = readFileSync(appPath, 'utf-8');
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/html;profile=mcp-app',
+          text: html,
+          // CSP configuration to allow loading images from Mediagraph CDN
+          _meta: {
+            ui: {
+              csp: {
+                // Allow images from CloudFront CDN
+                resourceDomains: ['https://*.cloudfront.net'],
+                // Allow API calls to Mediagraph (for future use)
+                connectDomains: ['https://api.mediagraph.io'],
+              },
+            },
+          },
+        },
+      ],
+    };
+  } catch (error) {
+    log.error('Failed to read app resource', error);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/plain',
+          text: 'Failed to load MCP App UI.',
+        },
+      ],
+    };
+  }
+}
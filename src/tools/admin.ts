@@ -2,7 +2,21 @@
  * Admin tools (user groups, invites, settings)
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  dryRunResult,
+  errorResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  type ToolModule,
+} from './shared.js';
 
 export const adminTools: ToolModule = {
   definitions: [
@@ -10,11 +24,13 @@ export const adminTools: ToolModule = {
     {
       name: 'list_user_groups',
       description: 'List user groups',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by name or invite domain' } }, required: [] },
     },
     {
       name: 'create_user_group',
       description: 'Create a user group',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { name: { type: 'string' }, description: { type: 'string' } },
@@ -26,11 +42,13 @@ export const adminTools: ToolModule = {
     {
       name: 'list_invites',
       description: 'List pending invites',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by email or role level' } }, required: [] },
     },
     {
       name: 'create_invite',
       description: 'Invite a user to the organization',
+      annotations: { ...additiveAnnotations, openWorldHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -44,6 +62,7 @@ export const adminTools: ToolModule = {
     {
       name: 'update_invite',
       description: 'Update an invite (change role or note)',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -57,6 +76,7 @@ export const adminTools: ToolModule = {
     {
       name: 'resend_invite',
       description: 'Resend an invite email',
+      annotations: { ...additiveAnnotations, openWorldHint: true },
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
 
@@ -64,16 +84,19 @@ export const adminTools: ToolModule = {
     {
       name: 'list_filter_groups',
       description: 'List saved filter groups',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_filter_group',
       description: 'Get filter group details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_filter_group',
       description: 'Create a new filter group with saved filter configurations',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -86,6 +109,7 @@ export const adminTools: ToolModule = {
     {
       name: 'update_filter_group',
       description: 'Update a filter group',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -99,6 +123,7 @@ export const adminTools: ToolModule = {
     {
       name: 'update_filter_group_visibility',
       description: 'Update the visibility of a specific filter within a filter group',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -113,23 +138,27 @@ export const adminTools: ToolModule = {
     {
       name: 'delete_filter_group',
       description: 'Delete a filter group',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Search Queries
     {
       name: 'list_search_queries',
       description: 'List saved search queries',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_search_query',
       description: 'Get search query details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_search_query',
       description: 'Save a new search query. The sql field should contain an Elasticsearch SQL WHERE clause.',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -143,6 +172,7 @@ export const adminTools: ToolModule = {
     {
       name: 'update_search_query',
       description: 'Update a saved search query name or description. Note: The SQL query cannot be changed after creation.',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -156,18 +186,21 @@ export const adminTools: ToolModule = {
     {
       name: 'delete_search_query',
       description: 'Delete a saved search query',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Crop Presets
     {
       name: 'list_crop_presets',
       description: 'List crop presets',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'create_crop_preset',
       description: 'Create a crop preset',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -183,16 +216,19 @@ export const adminTools: ToolModule = {
     {
       name: 'can_upload',
       description: 'Check if uploads are allowed (storage quota)',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
     {
       name: 'list_uploads',
       description: 'List upload sessions',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'add_assets_to_upload',
       description: 'Add assets to an upload session',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -207,11 +243,13 @@ export const adminTools: ToolModule = {
     {
       name: 'list_contributions',
       description: 'List contribution portals (upload links). Use contribution_id with upload_file/upload_files to upload to a specific storage folder or lightbox.',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by contribution name' } }, required: [] },
     },
     {
       name: 'get_contribution',
       description: 'Get contribution details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
 
@@ -219,11 +257,13 @@ export const adminTools: ToolModule = {
     {
       name: 'list_personal_access_tokens',
       description: 'List personal access tokens',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'create_personal_access_token',
       description: 'Create a personal access token',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -235,8 +275,9 @@ export const adminTools: ToolModule = {
     },
     {
       name: 'delete_personal_access_token',
-      description: 'Delete a personal access token',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      description: 'Delete a personal access token. Asks the user to confirm first.',
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, confirm: confirmParam, dry_run: dryRunParam }, required: ['id'] },
     },
   ],
 
@@ -284,7 +325,11 @@ export const adminTools: ToolModule = {
         { name: args.name as string, type: args.type as 'explore' | 'manage', visible: args.visible as boolean },
       ));
     },
-    async delete_filter_group(args, { client }) {
+    async delete_filter_group(args, { client, dryRun }) {
+      if (dryRun) {
+        const filterGroup = await client.getFilterGroup(args.id as number | string);
+        return dryRunResult(`would delete filter group "${filterGroup.name}" (#${filterGroup.id})`);
+      }
       await client.deleteFilterGroup(args.id as number | string);
       return successResult({ success: true });
     },
@@ -303,7 +348,11 @@ export const adminTools: ToolModule = {
       const { id, ...data } = args;
       return successResult(await client.updateSearchQuery(id as number | string, data));
     },
-    async delete_search_query(args, { client }) {
+    async delete_search_query(args, { client, dryRun }) {
+      if (dryRun) {
+        const searchQuery = await client.getSearchQuery(args.id as number | string);
+        return dryRunResult(`would delete saved search "${searchQuery.name}" (#${searchQuery.id})`);
+      }
       await client.deleteSearchQuery(args.id as number | string);
       return successResult({ success: true });
     },
@@ -343,7 +392,26 @@ export const adminTools: ToolModule = {
     async create_personal_access_token(args, { client }) {
       return successResult(await client.createPersonalAccessToken(args as { name: string; scopes?: string[] }));
     },
-    async delete_personal_access_token(args, { client }) {
+    async delete_personal_access_token(args, context) {
+      const { client } = context;
+      // There is no endpoint for a single token, look it up in the list
+      const tokens = await client.listPersonalAccessTokens({ per_page: 100 });
+      const token = tokens.find(t => String(t.id) === String(args.id));
+      const label = token
+        ? `"${token.name}" (#${token.id}${token.last_used_at ? `, last used ${token.last_used_at}` : ', never used'})`
+        : `#${args.id}`;
+      if (context.dryRun) {
+        return token
+          ? dryRunResult(`would delete personal access token ${label}`)
+          : errorResult(`Personal access token #${args.id} not found`);
+      }
+      const cancelled = await requireConfirmation(
+        `Delete personal access token ${label}? Integrations using it will stop working.`,
+        args,
+        context,
+      );
+      if (cancelled) return cancelled;
+
       await client.deletePersonalAccessToken(args.id as number | string);
       return successResult({ success: true });
     },
@@ -3,7 +3,8 @@
  */
 
 import type { SearchParams } from '../api/types/index.js';
-import { paginationParams, successResult, type ToolModule } from './shared.js';
+import { paginationParams, structuredResult, readOnlyAnnotations, type ToolModule } from './shared.js';
+import { searchOutputSchema, summarizeSearch } from './output.js';
 
 export const appTools: ToolModule = {
   definitions: [
@@ -19,6 +20,7 @@ This tool provides a rich visual interface for browsing search results with:
 - Pagination controls
 
 Use this when the user wants to visually browse or explore assets.`,
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -41,6 +43,7 @@ Use this when the user wants to visually browse or explore assets.`,
         },
         required: [],
       },
+      outputSchema: searchOutputSchema,
       // MCP Apps metadata - tells the host to display the UI
       // Include both formats for compatibility with different host versions
       _meta: {
@@ -88,14 +91,15 @@ Use this when the user wants to visually browse or explore assets.`,
         captured_at: asset.captured_at,
       }));
 
-      return successResult({
+      const results = {
         assets: lightAssets,
         total: response.total,
         page: response.page,
         per_page: response.per_page,
         total_pages: response.total_pages,
         organization_slug: organizationSlug,
-      });
+      };
+      return structuredResult(results, summarizeSearch(results));
     },
   },
 };
@@ -3,7 +3,33 @@
  */
 
 import type { SearchParams } from '../api/types/index.js';
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  dryRunResult,
+  fieldChanges,
+  snapshotFields,
+  tagName,
+  readOnlyAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  structuredResult,
+  type ToolModule,
+} from './shared.js';
+import {
+  assetOutputSchema,
+  searchOutputSchema,
+  downloadOutputSchema,
+  withDryRunPreview,
+  describeAsset,
+  summarizeAsset,
+  summarizeSearch,
+  summarizeDownload,
+} from './output.js';
 
 export const assetTools: ToolModule = {
   definitions: [
@@ -29,6 +55,7 @@ COMMON SEARCH FIELDS:
 - creator_text: Creator/photographer name
 - copyright: Copyright text
 - city, state, country: Location fields`,
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -54,10 +81,12 @@ COMMON SEARCH FIELDS:
         },
         required: [],
       },
+      outputSchema: searchOutputSchema,
     },
     {
       name: 'get_asset',
       description: 'Get detailed information about a specific asset',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -67,10 +96,12 @@ COMMON SEARCH FIELDS:
         },
         required: ['id'],
       },
+      outputSchema: assetOutputSchema,
     },
     {
       name: 'update_asset',
       description: 'Update asset metadata',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -87,30 +118,37 @@ COMMON SEARCH FIELDS:
           state: { type: 'string' },
           country: { type: 'string' },
           notes: { type: 'string' },
+          dry_run: dryRunParam,
         },
         required: ['id'],
       },
+      outputSchema: withDryRunPreview(assetOutputSchema),
     },
     {
       name: 'delete_asset',
-      description: 'Delete (trash) an asset',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      description: 'Delete (trash) an asset. Asks the user to confirm first.',
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, confirm: confirmParam, dry_run: dryRunParam }, required: ['id'] },
     },
     {
       name: 'add_tags_to_asset',
       description: 'Add tags to an asset',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
           id: idParam,
           tags: { type: 'array', items: { type: 'string' }, description: 'Tags to add' },
+          dry_run: dryRunParam,
         },
         required: ['id', 'tags'],
       },
+      outputSchema: withDryRunPreview(assetOutputSchema),
     },
     {
       name: 'get_asset_download',
       description: 'Get a download URL for an asset',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -125,10 +163,12 @@ COMMON SEARCH FIELDS:
         },
         required: ['id'],
       },
+      outputSchema: downloadOutputSchema,
     },
     {
       name: 'bulk_download_assets',
       description: 'Get a download URL for multiple assets (returns a ZIP file)',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -148,25 +188,30 @@ COMMON SEARCH FIELDS:
         },
         required: ['asset_ids'],
       },
+      outputSchema: downloadOutputSchema,
     },
     {
       name: 'get_asset_auto_tags',
       description: 'Get AI-generated auto tags for an asset',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'get_asset_face_taggings',
       description: 'Get face taggings for an asset',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'get_asset_versions',
       description: 'Get version history for an asset',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { asset_id: idParam }, required: ['asset_id'] },
     },
     {
       name: 'revert_asset',
       description: 'Revert an asset to a previous version',
+      annotations: destructiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -179,6 +224,7 @@ COMMON SEARCH FIELDS:
     {
       name: 'get_asset_counts',
       description: 'Get asset counts with optional filters',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -192,51 +238,110 @@ COMMON SEARCH FIELDS:
     {
       name: 'get_trashed_assets',
       description: 'Get trashed assets',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_popular_assets',
       description: 'Get popular assets',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
   ],
 
   handlers: {
     async search_assets(args, { client }) {
-      return successResult(await client.searchAssets(args as SearchParams));
+      const response = await client.searchAssets(args as SearchParams);
+      return structuredResult(response, summarizeSearch(response));
     },
     async get_asset(args, { client }) {
-      return successResult(await client.getAsset(args.id as number | string, {
+      const asset = await client.getAsset(args.id as number | string, {
         include_renditions: args.include_renditions as boolean,
         include_meta: args.include_meta as boolean,
-      }));
+      });
+      return structuredResult(asset, summarizeAsset(asset));
     },
-    async update_asset(args, { client }) {
+    async update_asset(args, { client, dryRun, changes, organizationSlug, reportAssets }) {
       const { id, ...data } = args;
-      return successResult(await client.updateAsset(id as number | string, data));
+      if (dryRun) {
+        const current = await client.getAsset(id as number | string);
+        const changes = fieldChanges(current, data);
+        const count = Object.keys(changes).length;
+        return count === 0
+          ? dryRunResult(`Asset ${describeAsset(current)} already has these values, the update would change nothing`)
+          : dryRunResult(`would change ${count} field${count === 1 ? '' : 's'} on asset ${describeAsset(current)}`, { changes });
+      }
+
+      // Keep the old values so undo_change can put them back
+      const previous = changes ? await client.getAsset(id as number | string) : undefined;
+      const asset = await client.updateAsset(id as number | string, data);
+      reportAssets?.([asset.id]);
+      if (changes && previous) {
+        await changes.record({
+          tool: 'update_asset',
+          organization: organizationSlug,
+          summary: `Updated ${Object.keys(data).join(', ')} on asset ${describeAsset(asset)}`,
+          assets: [{ id: asset.id, before: snapshotFields(previous, Object.keys(data)), after: data }],
+        });
+      }
+      return structuredResult(asset, `Updated ${summarizeAsset(asset)}`);
     },
-    async delete_asset(args, { client }) {
-      await client.deleteAsset(args.id as number | string);
+    async delete_asset(args, context) {
+      const { client } = context;
+      const asset = await client.getAsset(args.id as number | string);
+      if (context.dryRun) {
+        return dryRunResult(`would move asset ${describeAsset(asset)} to the trash`);
+      }
+      const cancelled = await requireConfirmation(`Move asset ${asset.filename || asset.title || 'untitled'} (#${asset.id}) to the trash?`, args, context);
+      if (cancelled) return cancelled;
+
+      await client.deleteAsset(asset.id);
+      context.reportAssets?.([asset.id]);
       return successResult({ success: true });
     },
-    async add_tags_to_asset(args, { client }) {
-      return successResult(await client.addTagsToAsset(args.id as number | string, args.tags as string[]));
+    async add_tags_to_asset(args, { client, dryRun, changes, organizationSlug, reportAssets }) {
+      if (dryRun) {
+        const current = await client.getAsset(args.id as number | string);
+        const existing = new Set((current.tags || []).map(tag => tagName(tag).toLowerCase()));
+        const added = (args.tags as string[]).filter(tag => !existing.has(tag.toLowerCase()));
+        return dryRunResult(
+          added.length === 0
+            ? `Asset ${describeAsset(current)} already has all of these tags`
+            : `would add ${added.length} tag${added.length === 1 ? '' : 's'} to asset ${describeAsset(current)}`,
+          { added, already_tagged: (args.tags as string[]).filter(tag => existing.has(tag.toLowerCase())) },
+        );
+      }
+
+      const previous = changes ? await client.getAsset(args.id as number | string) : undefined;
+      const asset = await client.addTagsToAsset(args.id as number | string, args.tags as string[]);
+      reportAssets?.([asset.id]);
+      if (changes && previous) {
+        await changes.record({
+          tool: 'add_tags_to_asset',
+          organization: organizationSlug,
+          summary: `Tagged asset ${describeAsset(previous)} with ${(args.tags as string[]).join(', ')}`,
+          assets: [{ id: previous.id, before: snapshotFields(previous, ['tags']), after: { tags: args.tags } }],
+        });
+      }
+      return structuredResult(asset, `Tagged ${summarizeAsset(asset)}`);
     },
     async get_asset_download(args, { client }) {
-      return successResult(await client.getAssetDownload(args.id as number | string, {
+      const download = await client.getAssetDownload(args.id as number | string, {
         size: args.size as string | undefined,
         watermarked: args.watermarked as boolean | undefined,
         version_number: args.version_number as number | undefined,
-      }));
+      });
+      return structuredResult(download, summarizeDownload(download));
     },
     async bulk_download_assets(args, { client }) {
-      return successResult(await client.getBulkDownload({
+      const download = await client.getBulkDownload({
         asset_ids: args.asset_ids as number[],
         size: args.size as string | undefined,
         watermarked: args.watermarked as boolean | undefined,
         via: args.via as string | undefined,
         skip_meta: args.skip_meta as boolean | undefined,
-      }));
+      });
+      return structuredResult(download, summarizeDownload(download));
     },
     async get_asset_auto_tags(args, { client }) {
       return successResult(await client.getAssetAutoTags(args.id as number | string));
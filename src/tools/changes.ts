@@ -0,0 +1,200 @@
+/**
+ * Undo journal tools: list recorded changes and put assets back
+ */
+
+import { RequestCancelledError } from '../api/client.js';
+import { planUndo, type UndoPlan } from '../audit/change-journal.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  successResult,
+  errorResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  type RecordedChange,
+  type ToolContext,
+  type ToolModule,
+} from './shared.js';
+import { describeBulkOperations } from './output.js';
+
+const DEFAULT_CHANGE_LIMIT = 20;
+// Asset snapshots shown per change by list_changes
+const MAX_LISTED_ASSETS = 10;
+
+// The journal may hold changes from several organizations (HTTP mode), only a known one's are shown
+const UNKNOWN_ORGANIZATION = 'Could not look up the organization of this session, so its recorded changes can\'t be shown. Check the access token with whoami and try again.';
+
+const JOURNAL_OFF = 'The change journal is turned off. Set MEDIAGRAPH_CHANGE_JOURNAL to a file (or remove "changeJournal": false from the profile) to record changes.';
+
+function describePlan(plan: UndoPlan): string[] {
+  return [
+    ...plan.updates.map(update => `restore ${Object.keys(update.fields).join(', ')} on asset #${update.assetId}`),
+    ...plan.bulkJobs.map(({ asset_ids, ...params }) =>
+      `bulk job on ${asset_ids.length} asset${asset_ids.length === 1 ? '' : 's'}: ${describeBulkOperations(params).join('; ')}`),
+  ];
+}
+
+/**
+ * Whether the session may act in another organization; changes made in any
+ * other one are hidden, so tenants sharing a journal don't see each other's
+ */
+async function isSignedInTo(organization: string | undefined, context: ToolContext): Promise<boolean> {
+  if (!organization || !context.organizations) return false;
+  return (await context.organizations.list()).some(info => info.slug === organization);
+}
+
+/**
+ * Fields edited again since the change, which undoing would overwrite
+ */
+async function findLaterEdits(plan: UndoPlan, context: ToolContext): Promise<string[]> {
+  const edits: string[] = [];
+  for (const update of plan.updates) {
+    if (!update.expected) continue;
+    const current = await context.client.getAsset(update.assetId) as unknown as Record<string, unknown>;
+    for (const [field, value] of Object.entries(update.expected)) {
+      if (JSON.stringify(current[field] ?? null) !== JSON.stringify(value ?? null)) {
+        edits.push(`asset #${update.assetId} ${field} is now ${JSON.stringify(current[field] ?? null)}`);
+      }
+    }
+  }
+  return edits;
+}
+
+function summarizeChange(change: RecordedChange): Record<string, unknown> {
+  return {
+    id: change.id,
+    timestamp: change.timestamp,
+    organization: change.organization,
+    tool: change.tool,
+    summary: change.summary,
+    bulk_job_id: change.bulkJob?.id,
+    asset_count: change.assets.length,
+    assets: change.assets.slice(0, MAX_LISTED_ASSETS),
+    undone_at: change.undoneAt,
+  };
+}
+
+export const changeTools: ToolModule = {
+  definitions: [
+    {
+      name: 'list_changes',
+      description: 'List recorded changes from update_asset, add_tags_to_asset and create_bulk_job, most recent first, with the field values from before each change. Use the ID with undo_change.',
+      annotations: readOnlyAnnotations,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          asset_id: { ...idParam, description: 'Only changes to this asset' },
+          tool: { type: 'string', enum: ['update_asset', 'add_tags_to_asset', 'create_bulk_job'], description: 'Only changes made by this tool' },
+          limit: { type: 'number', description: `Maximum number of changes (default: ${DEFAULT_CHANGE_LIMIT})` },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'undo_change',
+      description: `Undo a change recorded by list_changes, restoring the field values from before it. Bulk jobs are reversed with compensating bulk jobs.
+Refuses when the asset was edited again since, unless force is set. Asks the user to confirm first.`,
+      annotations: { ...destructiveAnnotations, idempotentHint: false },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Change ID from list_changes' },
+          force: { type: 'boolean', description: 'Overwrite edits made after the change' },
+          confirm: confirmParam,
+          dry_run: dryRunParam,
+        },
+        required: ['id'],
+      },
+    },
+  ],
+
+  handlers: {
+    async list_changes(args, { changes, organizationSlug }) {
+      if (!changes) return errorResult(JOURNAL_OFF);
+      if (!organizationSlug) return errorResult(UNKNOWN_ORGANIZATION);
+      const limit = (args.limit as number | undefined) ?? DEFAULT_CHANGE_LIMIT;
+      const found = changes.list({
+        organization: organizationSlug,
+        tool: args.tool as string | undefined,
+        assetId: args.asset_id as number | string | undefined,
+      });
+      if (found.length === 0) {
+        return successResult('No recorded changes.');
+      }
+      return successResult(found.slice(-limit).reverse().map(summarizeChange));
+    },
+
+    async undo_change(args, context) {
+      const { client, changes, organizationSlug, dryRun } = context;
+      if (!changes) return errorResult(JOURNAL_OFF);
+      if (!organizationSlug) return errorResult(UNKNOWN_ORGANIZATION);
+
+      const change = changes.get(String(args.id));
+      if (!change || (change.organization !== organizationSlug && !(await isSignedInTo(change.organization, context)))) {
+        return errorResult(`No recorded change ${args.id}. See list_changes.`);
+      }
+      if (change.organization !== organizationSlug) {
+        return errorResult(`Change ${change.id} was made in organization ${change.organization}. Call undo_change with organization: "${change.organization}".`);
+      }
+      if (change.undoneAt) {
+        return errorResult(`Change ${change.id} was already undone at ${change.undoneAt}.`);
+      }
+
+      const plan = planUndo(change);
+      const steps = describePlan(plan);
+      if (steps.length === 0) {
+        return errorResult(`Change ${change.id} can't be undone${plan.skipped.length ? `: ${plan.skipped.join('; ')}` : ', it changed nothing'}.`);
+      }
+
+      const laterEdits = await findLaterEdits(plan, context);
+      if (laterEdits.length > 0 && args.force !== true) {
+        return errorResult(`Assets were edited after change ${change.id}, undoing it would overwrite: ${laterEdits.join('; ')}. Call again with force: true to undo anyway.`);
+      }
+
+      if (dryRun) {
+        return dryRunResult(`would undo "${change.summary}"`, { steps, skipped: plan.skipped });
+      }
+
+      const cancelled = await requireConfirmation(`Undo "${change.summary}" (${steps.length} step${steps.length === 1 ? '' : 's'}: ${steps.join('; ')})?`, args, context);
+      if (cancelled) return cancelled;
+
+      const errors: string[] = [];
+      let restored = 0;
+      for (const update of plan.updates) {
+        try {
+          await client.updateAsset(update.assetId, update.fields);
+          context.reportAssets?.([update.assetId]);
+          restored++;
+        } catch (error) {
+          if (error instanceof RequestCancelledError) throw error;
+          errors.push(`asset #${update.assetId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      const bulkJobIds: number[] = [];
+      for (const params of plan.bulkJobs) {
+        try {
+          bulkJobIds.push((await client.createBulkJob(params)).id);
+          context.reportAssets?.(params.asset_ids);
+        } catch (error) {
+          if (error instanceof RequestCancelledError) throw error;
+          errors.push(`bulk job on ${params.asset_ids.length} assets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      // A partly undone change stays in the journal so it can be tried again
+      if (errors.length > 0) {
+        return errorResult(`Undo of change ${change.id} was incomplete (${restored} assets restored, ${bulkJobIds.length} bulk jobs started): ${errors.join('; ')}`);
+      }
+      await changes.markUndone(change.id, bulkJobIds);
+      return successResult({
+        message: `Undid "${change.summary}"`,
+        restored_assets: restored,
+        bulk_job_ids: bulkJobIds,
+        skipped: plan.skipped,
+      });
+    },
+  },
+};
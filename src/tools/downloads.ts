@@ -2,13 +2,14 @@
  * Download tools
  */
 
-import { paginationParams, successResult, type ToolModule } from './shared.js';
+import { paginationParams, successResult, readOnlyAnnotations, additiveAnnotations, type ToolModule } from './shared.js';
 
 export const downloadTools: ToolModule = {
   definitions: [
     {
       name: 'create_download',
       description: 'Create a batch download for multiple assets',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -25,6 +26,7 @@ export const downloadTools: ToolModule = {
     {
       name: 'get_download',
       description: 'Get download status and URL',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { token: { type: 'string' } }, required: ['token'] },
     },
   ],
@@ -2,7 +2,27 @@
  * Asset group tools (Collections, Lightboxes, Storage Folders)
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  structuredResult,
+  type ToolModule,
+} from './shared.js';
+import {
+  assetGroupOutputSchema,
+  assetGroupListOutputSchema,
+  summarizeAssetGroup,
+  summarizeList,
+} from './output.js';
 
 export const groupTools: ToolModule = {
   definitions: [
@@ -10,20 +30,25 @@ export const groupTools: ToolModule = {
     {
       name: 'list_collections',
       description: 'List collections in the organization',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, q: { type: 'string', description: 'Search by name' }, parent_id: { type: 'number' } },
         required: [],
       },
+      outputSchema: assetGroupListOutputSchema,
     },
     {
       name: 'get_collection',
       description: 'Get collection details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      outputSchema: assetGroupOutputSchema,
     },
     {
       name: 'create_collection',
       description: 'Create a new collection',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -37,6 +62,7 @@ export const groupTools: ToolModule = {
     {
       name: 'update_collection',
       description: 'Update a collection',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -49,12 +75,14 @@ export const groupTools: ToolModule = {
     },
     {
       name: 'delete_collection',
-      description: 'Delete a collection',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      description: 'Delete a collection. Asks the user to confirm first.',
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, confirm: confirmParam, dry_run: dryRunParam }, required: ['id'] },
     },
     {
       name: 'add_asset_to_collection',
       description: 'Add an asset to a collection',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: { collection_id: idParam, asset_id: idParam },
@@ -64,6 +92,7 @@ export const groupTools: ToolModule = {
     {
       name: 'get_collections_tree',
       description: 'Get collections hierarchy as a tree',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
 
@@ -71,6 +100,7 @@ export const groupTools: ToolModule = {
     {
       name: 'add_assets_to_group',
       description: 'Add multiple assets to a Collection or Lightbox at once',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -85,20 +115,25 @@ export const groupTools: ToolModule = {
     {
       name: 'list_lightboxes',
       description: 'List lightboxes in the organization',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, parent_id: { type: 'number' } },
         required: [],
       },
+      outputSchema: assetGroupListOutputSchema,
     },
     {
       name: 'get_lightbox',
       description: 'Get lightbox details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      outputSchema: assetGroupOutputSchema,
     },
     {
       name: 'create_lightbox',
       description: 'Create a new lightbox',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -112,6 +147,7 @@ export const groupTools: ToolModule = {
     {
       name: 'update_lightbox',
       description: 'Update a lightbox',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: { id: idParam, name: { type: 'string' }, description: { type: 'string' } },
@@ -121,11 +157,13 @@ export const groupTools: ToolModule = {
     {
       name: 'delete_lightbox',
       description: 'Delete a lightbox',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
     {
       name: 'add_asset_to_lightbox',
       description: 'Add an asset to a lightbox',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: { lightbox_id: idParam, asset_id: idParam },
@@ -135,6 +173,7 @@ export const groupTools: ToolModule = {
     {
       name: 'get_lightboxes_tree',
       description: 'Get lightboxes hierarchy as a tree',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
 
@@ -142,20 +181,25 @@ export const groupTools: ToolModule = {
     {
       name: 'list_storage_folders',
       description: 'List storage folders',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, parent_id: { type: 'number' } },
         required: [],
       },
+      outputSchema: assetGroupListOutputSchema,
     },
     {
       name: 'get_storage_folder',
       description: 'Get storage folder details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      outputSchema: assetGroupOutputSchema,
     },
     {
       name: 'create_storage_folder',
       description: 'Create a new storage folder',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { name: { type: 'string' }, description: { type: 'string' }, parent_id: { type: 'number' } },
@@ -165,6 +209,7 @@ export const groupTools: ToolModule = {
     {
       name: 'get_storage_folders_tree',
       description: 'Get storage folders hierarchy as a tree',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
   ],
@@ -172,10 +217,12 @@ export const groupTools: ToolModule = {
   handlers: {
     // Collections
     async list_collections(args, { client }) {
-      return successResult(await client.listCollections(args));
+      const collections = await client.listCollections(args);
+      return structuredResult({ items: collections }, summarizeList('collections', collections));
     },
     async get_collection(args, { client }) {
-      return successResult(await client.getCollection(args.id as number | string));
+      const collection = await client.getCollection(args.id as number | string);
+      return structuredResult(collection, summarizeAssetGroup(collection));
     },
     async create_collection(args, { client }) {
       return successResult(await client.createCollection(args as { name: string; description?: string; parent_id?: number }));
@@ -184,8 +231,23 @@ export const groupTools: ToolModule = {
       const { id, ...data } = args;
       return successResult(await client.updateCollection(id as number | string, data));
     },
-    async delete_collection(args, { client }) {
-      await client.deleteCollection(args.id as number | string);
+    async delete_collection(args, context) {
+      const { client } = context;
+      const collection = await client.getCollection(args.id as number | string);
+      const details = [`${collection.visible_assets_count ?? 0} assets`];
+      if (collection.has_children) details.push('has sub-collections');
+      if (collection.share_links_count) details.push(`${collection.share_links_count} share links`);
+      if (context.dryRun) {
+        return dryRunResult(`would delete collection "${collection.name}" (#${collection.id}, ${details.join(', ')})`);
+      }
+      const cancelled = await requireConfirmation(
+        `Delete collection "${collection.name}" (#${collection.id}, ${details.join(', ')})? This cannot be undone.`,
+        args,
+        context,
+      );
+      if (cancelled) return cancelled;
+
+      await client.deleteCollection(collection.id);
       return successResult({ success: true });
     },
     async add_asset_to_collection(args, { client }) {
@@ -205,10 +267,12 @@ export const groupTools: ToolModule = {
 
     // Lightboxes
     async list_lightboxes(args, { client }) {
-      return successResult(await client.listLightboxes(args));
+      const lightboxes = await client.listLightboxes(args);
+      return structuredResult({ items: lightboxes }, summarizeList('lightboxes', lightboxes));
     },
     async get_lightbox(args, { client }) {
-      return successResult(await client.getLightbox(args.id as number | string));
+      const lightbox = await client.getLightbox(args.id as number | string);
+      return structuredResult(lightbox, summarizeAssetGroup(lightbox));
     },
     async create_lightbox(args, { client }) {
       return successResult(await client.createLightbox(args as { name: string; description?: string; parent_id?: number }));
@@ -217,7 +281,11 @@ export const groupTools: ToolModule = {
       const { id, ...data } = args;
       return successResult(await client.updateLightbox(id as number | string, data));
     },
-    async delete_lightbox(args, { client }) {
+    async delete_lightbox(args, { client, dryRun }) {
+      if (dryRun) {
+        const lightbox = await client.getLightbox(args.id as number | string);
+        return dryRunResult(`would delete ${summarizeAssetGroup(lightbox)}`);
+      }
       await client.deleteLightbox(args.id as number | string);
       return successResult({ success: true });
     },
@@ -231,10 +299,12 @@ export const groupTools: ToolModule = {
 
     // Storage Folders
     async list_storage_folders(args, { client }) {
-      return successResult(await client.listStorageFolders(args));
+      const folders = await client.listStorageFolders(args);
+      return structuredResult({ items: folders }, summarizeList('storage folders', folders));
     },
     async get_storage_folder(args, { client }) {
-      return successResult(await client.getStorageFolder(args.id as number | string));
+      const folder = await client.getStorageFolder(args.id as number | string);
+      return structuredResult(folder, summarizeAssetGroup(folder));
     },
     async create_storage_folder(args, { client }) {
       return successResult(await client.createStorageFolder(args as { name: string; description?: string; parent_id?: number }));
@@ -3,8 +3,21 @@
  */
 
 import type { MediagraphClient } from '../api/client.js';
-import type { ToolContext, ToolResult, ToolDefinition, ToolModule } from './shared.js';
+import type {
+  ToolContext,
+  ToolResult,
+  ToolDefinition,
+  ToolModule,
+  ProgressReporter,
+  AssetReporter,
+  ToolDefaults,
+  ToolCallRecord,
+  ToolCallRecorder,
+  ChangeJournal,
+} from './shared.js';
 import { errorResult } from './shared.js';
+import type { ToolPolicy } from './policy.js';
+import { isToolAllowedForRole, type MembershipRole } from './roles.js';
 
 // Import all tool modules
 import { userTools } from './users.js';
@@ -22,56 +35,310 @@ import { uploadTools } from './uploads.js';
 import { webhookTools } from './webhooks.js';
 import { adminTools } from './admin.js';
 import { appTools } from './app.js';
+import { changeTools } from './changes.js';
 
 // Re-export types
-export type { ToolContext, ToolResult, ToolDefinition, ToolModule };
-export { successResult, errorResult } from './shared.js';
+export type {
+  ToolContext,
+  ToolResult,
+  ToolDefinition,
+  ToolModule,
+  ProgressReporter,
+  AssetReporter,
+  ToolPolicy,
+  ToolDefaults,
+  MembershipRole,
+  ToolCallRecord,
+  ToolCallRecorder,
+  ChangeJournal,
+};
+export { successResult, structuredResult, errorResult } from './shared.js';
+export { loadToolPolicy, parseToolPolicy } from './policy.js';
 
-// Combine all tool modules
-const allToolModules: ToolModule[] = [
-  userTools,
-  assetTools,
-  groupTools,
-  tagTools,
-  rightsTools,
-  sharingTools,
-  jobTools,
-  metaTools,
-  workflowTools,
-  socialTools,
-  downloadTools,
-  uploadTools,
-  webhookTools,
-  adminTools,
-  appTools,
-];
+// All tool modules, keyed by the name used in tool policies
+const toolModules: Record<string, ToolModule> = {
+  users: userTools,
+  assets: assetTools,
+  groups: groupTools,
+  tags: tagTools,
+  rights: rightsTools,
+  sharing: sharingTools,
+  jobs: jobTools,
+  meta: metaTools,
+  workflows: workflowTools,
+  social: socialTools,
+  downloads: downloadTools,
+  uploads: uploadTools,
+  webhooks: webhookTools,
+  admin: adminTools,
+  app: appTools,
+  changes: changeTools,
+};
+const allToolModules: ToolModule[] = Object.values(toolModules);
+
+export const toolModuleNames: string[] = Object.keys(toolModules);
+
+// Session tools manage the sign-in itself: they are always available so a
+// restricted session can still recover its login, and never take an organization
+const SESSION_TOOLS = new Set(['reauthorize', 'list_organizations', 'switch_organization']);
+
+const organizationParam = {
+  type: 'string',
+  description: 'Slug of another signed-in organization to run this call in (see list_organizations). Defaults to the active organization.',
+};
+
+function withOrganizationParam(definition: ToolDefinition): ToolDefinition {
+  if (SESSION_TOOLS.has(definition.name)) return definition;
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: { ...definition.inputSchema.properties, organization: organizationParam },
+    },
+  };
+}
 
 // Export combined definitions
 export const toolDefinitions: ToolDefinition[] = allToolModules.flatMap(m => m.definitions);
 
+// The same definitions for sessions signed in to several organizations
+const multiOrganizationToolDefinitions = toolDefinitions.map(withOrganizationParam);
+
+const toolDefinitionByName = new Map(toolDefinitions.map(definition => [definition.name, definition]));
+
+// Module that defines each tool
+const toolModuleByName = new Map<string, string>();
+for (const [moduleName, module] of Object.entries(toolModules)) {
+  for (const definition of module.definitions) {
+    toolModuleByName.set(definition.name, moduleName);
+  }
+}
+
+/**
+ * Check a policy for unknown module or tool names, which would otherwise
+ * silently leave a tool enabled (e.g. a typo in denyTools)
+ */
+export function validateToolPolicy(policy: ToolPolicy): void {
+  const unknownModules = (policy.modules || []).filter(name => !toolModules[name]);
+  if (unknownModules.length > 0) {
+    throw new Error(`Unknown tool module(s) in tool policy: ${unknownModules.join(', ')}. Available modules: ${toolModuleNames.join(', ')}`);
+  }
+  const unknownTools = (policy.denyTools || []).filter(name => !toolModuleByName.has(name));
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tool(s) in tool policy: ${unknownTools.join(', ')}`);
+  }
+}
+
+/**
+ * Whether a policy and the user's role allow a tool. Without either every
+ * tool is allowed.
+ */
+export function isToolAllowed(name: string, policy?: ToolPolicy, role?: MembershipRole): boolean {
+  const moduleName = toolModuleByName.get(name);
+  const definition = toolDefinitionByName.get(name);
+  if (!moduleName || !definition) return false;
+  if (SESSION_TOOLS.has(name) && !policy?.denyTools?.includes(name)) return true;
+  if (!isToolAllowedForRole(definition, role)) return false;
+  if (!policy) return true;
+
+  if (policy.denyTools?.includes(name)) return false;
+  if (policy.modules && !policy.modules.includes(moduleName)) return false;
+  if (policy.readOnly && !definition.annotations.readOnlyHint) return false;
+  return true;
+}
+
+/**
+ * Tool definitions exposed under a policy and for the user's role. Sessions
+ * with several organizations get an organization argument on every API tool.
+ */
+export function getToolDefinitions(policy?: ToolPolicy, role?: MembershipRole, multipleOrganizations = false): ToolDefinition[] {
+  const definitions = multipleOrganizations ? multiOrganizationToolDefinitions : toolDefinitions;
+  if (!policy && !role) return definitions;
+  return definitions.filter(definition => isToolAllowed(definition.name, policy, role));
+}
+
+/**
+ * Fill in configured defaults for arguments the call left out and the tool accepts
+ */
+export function applyToolDefaults(name: string, args: Record<string, unknown>, defaults?: ToolDefaults): Record<string, unknown> {
+  const properties = toolDefinitionByName.get(name)?.inputSchema.properties;
+  if (!defaults || !properties) return args;
+
+  const result = { ...args };
+  if (defaults.per_page !== undefined && 'per_page' in properties && result.per_page === undefined) {
+    result.per_page = defaults.per_page;
+  }
+  // Download tools accept different sizes, only use the default where it's valid
+  const sizes = (properties.size as { enum?: string[] } | undefined)?.enum;
+  if (defaults.download_size !== undefined && sizes?.includes(defaults.download_size) && result.size === undefined) {
+    result.size = defaults.download_size;
+  }
+  if (defaults.watermark !== undefined && 'watermarked' in properties && result.watermarked === undefined) {
+    result.watermarked = defaults.watermark;
+  }
+  return result;
+}
+
 // Build combined handlers map
 const allHandlers: Record<string, (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>> = {};
 for (const module of allToolModules) {
   Object.assign(allHandlers, module.handlers);
 }
 
+// MCP tool names: letters, digits, underscores and dashes
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Problems with the tool definitions themselves, for the doctor command:
+ * duplicate names, tools without a handler and schemas that don't hold together
+ */
+export function checkToolDefinitions(): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const definition of toolDefinitions) {
+    const { name, inputSchema, outputSchema } = definition;
+    if (seen.has(name)) problems.push(`${name} is defined more than once`);
+    seen.add(name);
+
+    if (!TOOL_NAME_PATTERN.test(name)) problems.push(`${name} is not a valid tool name`);
+    if (!definition.description.trim()) problems.push(`${name} has no description`);
+    if (!allHandlers[name]) problems.push(`${name} has no handler`);
+    if (inputSchema.type !== 'object') problems.push(`${name} input schema is not an object`);
+    for (const required of inputSchema.required) {
+      if (!(required in inputSchema.properties)) problems.push(`${name} requires undefined argument ${required}`);
+    }
+    const outputRequired = [...(outputSchema?.required || []), ...(outputSchema?.anyOf || []).flatMap(variant => variant.required)];
+    for (const required of outputRequired) {
+      if (!(required in outputSchema!.properties)) problems.push(`${name} output requires undefined field ${required}`);
+    }
+    if (outputSchema && 'dry_run' in inputSchema.properties && !('dry_run' in outputSchema.properties)) {
+      problems.push(`${name} supports dry runs but its output schema has no dry-run preview`);
+    }
+  }
+
+  for (const name of Object.keys(allHandlers)) {
+    if (!seen.has(name)) problems.push(`Handler ${name} has no tool definition`);
+  }
+  return problems;
+}
+
+/**
+ * Whether a call is a dry run: the server is in dry-run mode or the call asked
+ * for one. Read-only tools run as usual either way.
+ */
+function isDryRun(name: string, args: Record<string, unknown>, context: ToolContext): boolean {
+  if (toolDefinitionByName.get(name)?.annotations.readOnlyHint) return false;
+  return context.dryRun === true || args.dry_run === true;
+}
+
 // Tool handler function
 export async function handleTool(
   name: string,
   args: Record<string, unknown>,
   context: ToolContext,
+): Promise<ToolResult> {
+  const started = Date.now();
+  // The arguments don't always name the assets a call changes (undo_change, bulk jobs on missing IDs)
+  const assetIds = new Set<number>();
+  const result = await runTool(
+    name,
+    args,
+    context.audit ? { ...context, reportAssets: (ids) => ids.forEach(id => assetIds.add(id)) } : context,
+  );
+
+  // Rejected calls are recorded too, they show what was attempted
+  await context.audit?.({
+    tool: name,
+    organization: typeof args.organization === 'string' ? args.organization : context.organizationSlug,
+    args,
+    result,
+    durationMs: Date.now() - started,
+    dryRun: isDryRun(name, args, context) || undefined,
+    assetIds: assetIds.size > 0 ? [...assetIds] : undefined,
+  });
+  return result;
+}
+
+async function runTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
 ): Promise<ToolResult> {
   const handler = allHandlers[name];
   if (!handler) {
     return errorResult(`Unknown tool: ${name}`);
   }
 
+  // Enforce the policy here too, hosts can call tools missing from tools/list
+  if (!isToolAllowed(name, context.policy)) {
+    return errorResult(`Tool ${name} is disabled by this server's tool policy`);
+  }
+
+  // Route the call to another organization when one is named
+  let toolArgs = args;
+  let toolContext = context;
+  if (!SESSION_TOOLS.has(name) && args.organization !== undefined) {
+    const { organization, ...rest } = args;
+    if (!context.organizations) {
+      return errorResult('This server is connected to a single organization, the organization argument is not supported.');
+    }
+    try {
+      // The active organization's role doesn't apply elsewhere, the API checks access
+      toolContext = {
+        ...context,
+        client: context.organizations.clientFor(String(organization)),
+        organizationSlug: String(organization),
+        role: undefined,
+      };
+    } catch (error) {
+      return errorResult(error instanceof Error ? error.message : `Unknown organization: ${organization}`);
+    }
+    toolArgs = rest;
+  }
+
+  if (!isToolAllowed(name, undefined, toolContext.role)) {
+    return errorResult(`Tool ${name} is not available to members with the ${toolContext.role} role`);
+  }
+
+  // Tools that change something only take part in a dry run if they can
+  // describe the change; anything else is refused rather than run
+  const dryRun = isDryRun(name, toolArgs, toolContext);
+  const { dry_run, ...callArgs } = toolArgs;
+  if (dryRun && !('dry_run' in toolDefinitionByName.get(name)!.inputSchema.properties)) {
+    return errorResult(`${name} does not support dry runs. Nothing was changed.`);
+  }
+  toolArgs = callArgs;
+  toolContext = { ...toolContext, dryRun };
+
+  // Scope API calls to this tool call so cancelling it aborts requests and retries
+  if (toolContext.signal) {
+    toolContext = { ...toolContext, client: toolContext.client.withSignal(toolContext.signal) };
+  }
+
+  let result: ToolResult;
   try {
-    return await handler(args, context);
+    result = await handler(applyToolDefaults(name, toolArgs, toolContext.defaults), toolContext);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
-    return errorResult(message);
+    result = errorResult(message);
+  }
+
+  // Clients reject a successful result without structured content from a tool
+  // with an output schema; the only such results are declined confirmations,
+  // so they go back as errors
+  if (toolDefinitionByName.get(name)!.outputSchema && !result.isError && !result.structuredContent) {
+    result = { ...result, isError: true };
+  }
+
+  // Label results with the organization they came from when there can be several
+  if (toolContext.organizations && toolContext.organizationSlug && !SESSION_TOOLS.has(name)) {
+    result = {
+      ...result,
+      content: [...result.content, { type: 'text', text: `Organization: ${toolContext.organizationSlug}` }],
+    };
   }
+  return result;
 }
 
 // Re-export individual modules for direct access
@@ -91,4 +358,5 @@ export {
   webhookTools,
   adminTools,
   appTools,
+  changeTools,
 };
@@ -2,7 +2,100 @@
  * Bulk job and background task tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import type { BulkJob } from '../api/types/index.js';
+import type { MediagraphClient } from '../api/client.js';
+import { sleep } from '../api/cancellation.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  errorResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  structuredResult,
+  snapshotFields,
+  type AssetSnapshot,
+  type ProgressReporter,
+  type ToolModule,
+} from './shared.js';
+import { bulkJobOutputSchema, withDryRunPreview, summarizeBulkJob, describeBulkOperations } from './output.js';
+
+const BULK_JOB_POLL_INTERVAL_MS = 2000;
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 600;
+const FINISHED_STATUSES: BulkJob['status'][] = ['completed', 'failed', 'cancelled'];
+const MAX_LISTED_IDS = 20;
+// Assets looked up per search when snapshotting a bulk job's assets
+const SNAPSHOT_BATCH_SIZE = 100;
+
+function listIds(ids: number[]): string {
+  if (ids.length <= MAX_LISTED_IDS) return ids.join(', ');
+  return `${ids.slice(0, MAX_LISTED_IDS).join(', ')} and ${ids.length - MAX_LISTED_IDS} more`;
+}
+
+/**
+ * Asset fields a bulk job's options overwrite, kept so the job can be undone
+ */
+function bulkJobFields(data: Record<string, unknown>): string[] {
+  const fields: string[] = [];
+  if (data.tag_names !== undefined) fields.push('tags');
+  if (data.description !== undefined) fields.push('description');
+  if (data.rating !== undefined) fields.push('rating');
+  if (data.rights_package_id !== undefined) fields.push('rights_package_id');
+  if (data.rights_status !== undefined) fields.push('rights_status');
+  if (data.generate_alt_text) fields.push('alt_text');
+  if (data.custom_meta || data.run_custom_meta_field_ids) fields.push('custom_meta_values');
+  return fields;
+}
+
+/**
+ * Current values of the fields a bulk job will change, for each asset that
+ * exists; assets search doesn't find are left out (the job fails on them too).
+ * Jobs that overwrite no fields need only the asset IDs.
+ */
+async function snapshotAssets(client: MediagraphClient, assetIds: number[], fields: string[]): Promise<AssetSnapshot[]> {
+  if (fields.length === 0) {
+    return assetIds.map(id => ({ id, before: {} }));
+  }
+  const snapshots: AssetSnapshot[] = [];
+  for (let i = 0; i < assetIds.length; i += SNAPSHOT_BATCH_SIZE) {
+    const batch = assetIds.slice(i, i + SNAPSHOT_BATCH_SIZE);
+    const { assets } = await client.searchAssets({ ids: batch, per_page: batch.length });
+    snapshots.push(...assets.map(asset => ({ id: asset.id, before: snapshotFields(asset, fields) })));
+  }
+  return snapshots;
+}
+
+/**
+ * Poll a bulk job until it finishes or the timeout elapses, reporting
+ * processed_count/total_count as progress
+ */
+async function waitForBulkJob(
+  client: MediagraphClient,
+  job: BulkJob,
+  timeoutMs: number,
+  reportProgress?: ProgressReporter,
+  signal?: AbortSignal,
+): Promise<{ job: BulkJob; timedOut: boolean }> {
+  const deadline = Date.now() + timeoutMs;
+  let current = job;
+
+  while (!FINISHED_STATUSES.includes(current.status)) {
+    await reportProgress?.(current.processed_count ?? 0, current.total_count || undefined, summarizeBulkJob(current));
+    if (Date.now() + BULK_JOB_POLL_INTERVAL_MS > deadline) {
+      return { job: current, timedOut: true };
+    }
+    await sleep(BULK_JOB_POLL_INTERVAL_MS, signal);
+    current = await client.getBulkJob(current.id);
+  }
+
+  await reportProgress?.(current.processed_count ?? 0, current.total_count || undefined, summarizeBulkJob(current));
+  return { job: current, timedOut: false };
+}
 
 export const jobTools: ToolModule = {
   definitions: [
@@ -10,12 +103,15 @@ export const jobTools: ToolModule = {
     {
       name: 'list_bulk_jobs',
       description: 'List bulk jobs',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_bulk_job',
       description: 'Get bulk job details and status',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      outputSchema: bulkJobOutputSchema,
     },
     {
       name: 'create_bulk_job',
@@ -25,6 +121,7 @@ export const jobTools: ToolModule = {
 - Organization: use add_asset_group_id + add_asset_group_type (Collection/Lightbox/StorageFolder)
 - AI processing: use run_custom_meta_field_ids + cmf_overwrite_mode (skip/overwrite)
 - Bulk actions: use destroy_all, restore_all, or generate_alt_text`,
+      annotations: { ...destructiveAnnotations, idempotentHint: false },
       inputSchema: {
         type: 'object',
         properties: {
@@ -48,22 +145,30 @@ export const jobTools: ToolModule = {
           run_custom_meta_field_ids: { type: 'array', items: { type: 'number' }, description: 'Custom Meta Field IDs to run AI on' },
           cmf_overwrite_mode: { type: 'string', enum: ['skip', 'overwrite'], description: 'Whether to overwrite existing values when running AI' },
           // Bulk actions
-          destroy_all: { type: 'boolean', description: 'Delete all specified assets' },
+          destroy_all: { type: 'boolean', description: 'Delete all specified assets. Asks the user to confirm first.' },
           restore_all: { type: 'boolean', description: 'Restore all specified assets from trash' },
           generate_alt_text: { type: 'boolean', description: 'Generate alt text using AI' },
           alt_text_generation_prompt: { type: 'string', description: 'Custom prompt for alt text generation' },
+          // Tracking
+          wait_for_completion: { type: 'boolean', description: 'Wait for the job to finish and report progress while it runs (default: return immediately)' },
+          wait_timeout_seconds: { type: 'number', description: `Maximum time to wait when wait_for_completion is set (default: ${DEFAULT_WAIT_TIMEOUT_SECONDS})` },
+          confirm: confirmParam,
+          dry_run: dryRunParam,
         },
         required: ['asset_ids'],
       },
+      outputSchema: withDryRunPreview(bulkJobOutputSchema),
     },
     {
       name: 'cancel_bulk_job',
       description: 'Cancel a running bulk job',
+      annotations: updateAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'get_bulk_job_queue_position',
       description: 'Get queue position for a bulk job',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
 
@@ -71,11 +176,13 @@ export const jobTools: ToolModule = {
     {
       name: 'list_meta_imports',
       description: 'List metadata import jobs',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by note or filename' } }, required: [] },
     },
     {
       name: 'get_meta_import',
       description: 'Get metadata import job details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
 
@@ -83,6 +190,7 @@ export const jobTools: ToolModule = {
     {
       name: 'list_ingestions',
       description: 'List ingestion jobs',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
   ],
@@ -93,10 +201,47 @@ export const jobTools: ToolModule = {
       return successResult(await client.listBulkJobs(args));
     },
     async get_bulk_job(args, { client }) {
-      return successResult(await client.getBulkJob(args.id as number | string));
+      const job = await client.getBulkJob(args.id as number | string);
+      return structuredResult(job, summarizeBulkJob(job));
     },
-    async create_bulk_job(args, { client }) {
-      return successResult(await client.createBulkJob(args as {
+    async create_bulk_job(args, context) {
+      const { client, reportProgress, signal, changes } = context;
+      // Tracking and confirmation options are handled here, not sent to the API
+      const { wait_for_completion, wait_timeout_seconds, confirm, ...data } = args;
+
+      if (context.dryRun) {
+        const assetIds = (data.asset_ids as number[] | undefined) || [];
+        const operations = describeBulkOperations(data);
+        if (operations.length === 0) {
+          return errorResult('The bulk job has no operation. Set tag_names, description, rating, an asset group, custom_meta or one of the bulk actions.');
+        }
+        // Trashed assets don't show up in search, so restores can't be counted this way
+        if (data.restore_all) {
+          return dryRunResult(`would run a bulk job on ${assetIds.length} assets`, { operations, asset_ids: listIds(assetIds) });
+        }
+        const found = assetIds.length > 0 ? (await client.searchAssets({ ids: assetIds, per_page: 1 })).total : 0;
+        return dryRunResult(
+          `would run a bulk job on ${found} of ${assetIds.length} assets${found < assetIds.length ? ` (${assetIds.length - found} not found)` : ''}`,
+          { operations, asset_ids: listIds(assetIds) },
+        );
+      }
+
+      if (data.destroy_all) {
+        const assetIds = (data.asset_ids as number[] | undefined) || [];
+        const cancelled = await requireConfirmation(
+          `Move ${assetIds.length} assets to the trash (IDs: ${listIds(assetIds)})?`,
+          args,
+          context,
+        );
+        if (cancelled) return cancelled;
+      }
+
+      // Keep the old values so undo_change can reverse the job
+      const snapshots = changes
+        ? await snapshotAssets(client, (data.asset_ids as number[] | undefined) || [], bulkJobFields(data))
+        : undefined;
+
+      const job = await client.createBulkJob(data as {
         asset_ids: number[];
         tag_names?: string[];
         tag_mode?: string;
@@ -116,7 +261,31 @@ export const jobTools: ToolModule = {
         restore_all?: boolean;
         generate_alt_text?: boolean;
         alt_text_generation_prompt?: string;
-      }));
+      });
+
+      // The snapshots only hold assets that exist, so they are the ones the job changes
+      context.reportAssets?.(snapshots ? snapshots.map(asset => asset.id) : (data.asset_ids as number[] | undefined) || []);
+      if (changes && snapshots) {
+        await changes.record({
+          tool: 'create_bulk_job',
+          organization: context.organizationSlug,
+          summary: `Bulk job #${job.id} on ${snapshots.length} assets: ${describeBulkOperations(data).join('; ')}`,
+          assets: snapshots,
+          bulkJob: { id: job.id, params: data },
+        });
+      }
+
+      if (!wait_for_completion) {
+        return structuredResult(job, summarizeBulkJob(job));
+      }
+
+      const timeoutSeconds = (wait_timeout_seconds as number | undefined) ?? DEFAULT_WAIT_TIMEOUT_SECONDS;
+      const { job: finished, timedOut } = await waitForBulkJob(client, job, timeoutSeconds * 1000, reportProgress, signal);
+      const summary = summarizeBulkJob(finished);
+      return structuredResult(
+        finished,
+        timedOut ? `${summary}\nStill running after ${timeoutSeconds}s - check progress with get_bulk_job.` : summary,
+      );
     },
     async cancel_bulk_job(args, { client }) {
       return successResult(await client.cancelBulkJob(args.id as number | string));
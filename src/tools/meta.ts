@@ -2,23 +2,33 @@
  * Custom metadata field tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  paginationParams,
+  successResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  type ToolModule,
+} from './shared.js';
 
 export const metaTools: ToolModule = {
   definitions: [
     {
       name: 'list_custom_meta_fields',
       description: 'List custom metadata fields',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by name or description' } }, required: [] },
     },
     {
       name: 'get_custom_meta_field',
       description: 'Get custom meta field details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_custom_meta_field',
       description: 'Create a custom metadata field',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -0,0 +1,314 @@
+/**
+ * Output schemas and text summaries for structured tool results
+ *
+ * Schemas mirror the API types in src/api/types/. They only list the fields
+ * clients rely on and allow null, since the API returns null for empty values.
+ */
+
+import type {
+  Asset,
+  SearchResponse,
+  Collection,
+  Lightbox,
+  StorageFolder,
+  Tag,
+  BulkJob,
+  DownloadResponse,
+  WhoamiResponse,
+} from '../api/types/index.js';
+import type { ToolOutputSchema, OrganizationInfo } from './shared.js';
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+const assetProperties = {
+  id: { type: 'number' },
+  guid: { type: 'string' },
+  filename: nullable('string'),
+  title: nullable('string'),
+  description: nullable('string'),
+  alt_text: nullable('string'),
+  caption: nullable('string'),
+  credit: nullable('string'),
+  copyright: nullable('string'),
+  rating: nullable('number'),
+  file_type: nullable('string'),
+  ext: nullable('string'),
+  width: nullable('number'),
+  height: nullable('number'),
+  // Tags arrive as tag objects from the API; the visual search returns names
+  tags: { type: ['array', 'null'] },
+  thumb_url: nullable('string'),
+  preview_url: nullable('string'),
+  created_at: nullable('string'),
+  updated_at: nullable('string'),
+};
+
+const assetGroupProperties = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  type: nullable('string'),
+  description: nullable('string'),
+  parent_id: nullable('number'),
+  path_names: { type: ['array', 'null'], items: { type: 'string' } },
+  visible_assets_count: nullable('number'),
+  has_children: nullable('boolean'),
+  updated_at: nullable('string'),
+};
+
+const tagProperties = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  slug: nullable('string'),
+  taggings_count: nullable('number'),
+  taxonomy_id: nullable('number'),
+};
+
+export const assetOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: assetProperties,
+  required: ['id'],
+};
+
+export const searchOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    assets: { type: 'array', items: { type: 'object', properties: assetProperties, required: ['id'] } },
+    total: { type: 'number' },
+    page: { type: 'number' },
+    per_page: { type: 'number' },
+    total_pages: { type: 'number' },
+    organization_slug: nullable('string'),
+  },
+  required: ['assets', 'total', 'page', 'per_page', 'total_pages'],
+};
+
+export const assetGroupOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: assetGroupProperties,
+  required: ['id', 'name'],
+};
+
+export const assetGroupListOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    items: { type: 'array', items: { type: 'object', properties: assetGroupProperties, required: ['id', 'name'] } },
+  },
+  required: ['items'],
+};
+
+export const tagOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: tagProperties,
+  required: ['id', 'name'],
+};
+
+export const tagListOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    items: { type: 'array', items: { type: 'object', properties: tagProperties, required: ['id', 'name'] } },
+  },
+  required: ['items'],
+};
+
+export const bulkJobOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    guid: nullable('string'),
+    job_type: nullable('string'),
+    status: nullable('string'),
+    total_count: nullable('number'),
+    processed_count: nullable('number'),
+    success_count: nullable('number'),
+    error_count: nullable('number'),
+    created_at: nullable('string'),
+    completed_at: nullable('string'),
+  },
+  required: ['id'],
+};
+
+export const downloadOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    filename: { type: 'string' },
+    expires_at: nullable('string'),
+    file_size: nullable('number'),
+  },
+  required: ['url'],
+};
+
+export const whoamiOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    user: {
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        email: { type: 'string' },
+        full_name: nullable('string'),
+      },
+    },
+    organization: {
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        name: nullable('string'),
+        title: nullable('string'),
+        slug: { type: 'string' },
+      },
+    },
+    membership: {
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        role: { type: 'string' },
+      },
+    },
+  },
+  required: ['user', 'organization'],
+};
+
+export const organizationListOutputSchema: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    organizations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string' },
+          name: nullable('string'),
+          userEmail: nullable('string'),
+          active: { type: 'boolean' },
+        },
+        required: ['slug', 'active'],
+      },
+    },
+  },
+  required: ['organizations'],
+};
+
+const dryRunProperties = {
+  dry_run: { type: 'boolean', const: true },
+  summary: { type: 'string' },
+  details: { type: 'object' },
+};
+
+/**
+ * Output schema of a tool that supports dry runs: its usual result, or a
+ * preview with dry_run set and a summary of what the call would have done
+ */
+export function withDryRunPreview(schema: ToolOutputSchema): ToolOutputSchema {
+  return {
+    type: 'object',
+    properties: { ...schema.properties, ...dryRunProperties },
+    anyOf: [{ required: schema.required || [] }, { required: ['dry_run', 'summary'] }],
+  };
+}
+
+// ============================================================================
+// Text summaries
+// ============================================================================
+
+const MAX_LISTED = 10;
+
+export function describeAsset(asset: Pick<Asset, 'id' | 'filename' | 'title'>): string {
+  return `${asset.filename || asset.title || 'untitled'} (#${asset.id})`;
+}
+
+function listNames(names: string[]): string {
+  if (names.length <= MAX_LISTED) return names.join(', ');
+  return `${names.slice(0, MAX_LISTED).join(', ')}, and ${names.length - MAX_LISTED} more`;
+}
+
+export function summarizeAsset(asset: Asset): string {
+  const parts = [`Asset ${describeAsset(asset)}`];
+  if (asset.title) parts.push(`title: "${asset.title}"`);
+  if (asset.rating) parts.push(`rating: ${asset.rating}`);
+  if (asset.tags?.length) parts.push(`${asset.tags.length} tags`);
+  return parts.join(', ');
+}
+
+export function summarizeSearch(response: Pick<SearchResponse, 'total' | 'page' | 'total_pages'> & {
+  assets: Pick<Asset, 'id' | 'filename' | 'title'>[];
+}): string {
+  if (response.assets.length === 0) {
+    return 'No assets found.';
+  }
+  return `Found ${response.total} assets (page ${response.page} of ${response.total_pages || 1}): ${listNames(response.assets.map(describeAsset))}`;
+}
+
+export function summarizeAssetGroup(group: Collection | Lightbox | StorageFolder): string {
+  const count = group.visible_assets_count !== undefined ? `, ${group.visible_assets_count} assets` : '';
+  return `${group.type || 'Asset group'} "${group.name}" (#${group.id}${count})`;
+}
+
+export function summarizeList(label: string, items: { id: number; name: string }[]): string {
+  if (items.length === 0) {
+    return `No ${label} found.`;
+  }
+  return `${items.length} ${label}: ${listNames(items.map(item => `${item.name} (#${item.id})`))}`;
+}
+
+export function summarizeTag(tag: Tag): string {
+  const count = tag.taggings_count !== undefined ? `, used on ${tag.taggings_count} assets` : '';
+  return `Tag "${tag.name}" (#${tag.id}${count})`;
+}
+
+/**
+ * What a bulk job's options would do, one line per operation
+ */
+export function describeBulkOperations(data: Record<string, unknown>): string[] {
+  const operations: string[] = [];
+  if (Array.isArray(data.tag_names)) {
+    operations.push(`${data.tag_mode || 'add'} tags: ${(data.tag_names as string[]).join(', ')}`);
+  }
+  if (data.description !== undefined) {
+    operations.push(`${data.description_mode || 'set'} description: "${data.description}"`);
+  }
+  if (data.rating !== undefined) operations.push(`set rating to ${data.rating}`);
+  if (data.rights_package_id !== undefined) operations.push(`assign rights package #${data.rights_package_id}`);
+  if (data.rights_status !== undefined) operations.push(`set rights status to ${data.rights_status}`);
+  if (data.add_asset_group_id !== undefined) {
+    operations.push(`add to ${data.add_asset_group_type || 'asset group'} #${data.add_asset_group_id}`);
+  }
+  if (data.remove_asset_group_id !== undefined) {
+    operations.push(`remove from ${data.remove_asset_group_type || 'asset group'} #${data.remove_asset_group_id}`);
+  }
+  if (data.custom_meta) {
+    operations.push(`set custom meta fields: ${Object.keys(data.custom_meta as object).join(', ')}`);
+  }
+  if (Array.isArray(data.run_custom_meta_field_ids)) {
+    operations.push(`run AI on custom meta fields ${(data.run_custom_meta_field_ids as number[]).map(id => `#${id}`).join(', ')} (${data.cmf_overwrite_mode || 'skip'} existing values)`);
+  }
+  if (data.destroy_all) operations.push('move to the trash');
+  if (data.restore_all) operations.push('restore from the trash');
+  if (data.generate_alt_text) operations.push('generate alt text');
+  return operations;
+}
+
+export function summarizeBulkJob(job: BulkJob): string {
+  return `Bulk job #${job.id} is ${job.status || 'queued'}: ${job.processed_count ?? 0} of ${job.total_count ?? 0} assets processed` +
+    (job.error_count ? `, ${job.error_count} errors` : '');
+}
+
+export function summarizeDownload(download: DownloadResponse): string {
+  return `Download ready: ${download.filename || 'file'}\n${download.url}`;
+}
+
+export function summarizeWhoami(whoami: WhoamiResponse): string {
+  const org = whoami.organization;
+  return `Signed in as ${whoami.user?.full_name || whoami.user?.email} (${whoami.user?.email}) in ${org?.title || org?.name} (${org?.slug}), role: ${whoami.membership?.role || 'unknown'}`;
+}
+
+export function summarizeOrganization(organization: OrganizationInfo): string {
+  return `${organization.name || organization.slug} (${organization.slug})${organization.active ? ' [active]' : ''}`;
+}
+
+export function summarizeOrganizations(organizations: OrganizationInfo[]): string {
+  if (organizations.length === 0) {
+    return 'No organizations signed in.';
+  }
+  return `Signed in to ${organizations.length} organizations:\n${organizations.map(org => `- ${summarizeOrganization(org)}`).join('\n')}`;
+}
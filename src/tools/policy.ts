@@ -0,0 +1,75 @@
+/**
+ * Tool policy - limits which tools a server exposes
+ *
+ * A policy can enable only some tool modules, hide every tool that is not
+ * read-only, and deny individual tools. It is read from a JSON file
+ * (MEDIAGRAPH_TOOL_POLICY_FILE) and/or environment variables, which take
+ * precedence over the file.
+ */
+
+import { readFileSync } from 'node:fs';
+
+export interface ToolPolicy {
+  /** Tool modules to enable (e.g. "assets", "downloads"); all when unset */
+  modules?: string[];
+  /** Only expose tools annotated with readOnlyHint */
+  readOnly?: boolean;
+  /** Tools that are never exposed, regardless of the other settings */
+  denyTools?: string[];
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+export function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Parse a policy file, rejecting anything that is not a valid policy
+ */
+export function parseToolPolicy(json: string, source = 'tool policy'): ToolPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : 'not JSON'}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${source}: expected a JSON object`);
+  }
+
+  const { modules, readOnly, denyTools } = raw as Record<string, unknown>;
+  if (modules !== undefined && !isStringArray(modules)) {
+    throw new Error(`Invalid ${source}: "modules" must be an array of module names`);
+  }
+  if (readOnly !== undefined && typeof readOnly !== 'boolean') {
+    throw new Error(`Invalid ${source}: "readOnly" must be true or false`);
+  }
+  if (denyTools !== undefined && !isStringArray(denyTools)) {
+    throw new Error(`Invalid ${source}: "denyTools" must be an array of tool names`);
+  }
+  return { modules, readOnly, denyTools };
+}
+
+/**
+ * Build the policy from MEDIAGRAPH_TOOL_POLICY_FILE, MEDIAGRAPH_TOOL_MODULES,
+ * MEDIAGRAPH_READ_ONLY and MEDIAGRAPH_DENY_TOOLS
+ */
+export function loadToolPolicy(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+  const file = env.MEDIAGRAPH_TOOL_POLICY_FILE;
+  const policy = file ? parseToolPolicy(readFileSync(file, 'utf-8'), `tool policy file ${file}`) : {};
+
+  return {
+    modules: parseList(env.MEDIAGRAPH_TOOL_MODULES) ?? policy.modules,
+    readOnly: parseBoolean(env.MEDIAGRAPH_READ_ONLY) ?? policy.readOnly,
+    denyTools: parseList(env.MEDIAGRAPH_DENY_TOOLS) ?? policy.denyTools,
+  };
+}
@@ -2,23 +2,33 @@
  * Rights package tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  paginationParams,
+  successResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  type ToolModule,
+} from './shared.js';
 
 export const rightsTools: ToolModule = {
   definitions: [
     {
       name: 'list_rights_packages',
       description: 'List rights packages for managing asset usage rights',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_rights_package',
       description: 'Get rights package details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_rights_package',
       description: 'Create a new rights package',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
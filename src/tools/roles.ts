@@ -0,0 +1,53 @@
+/**
+ * Role-aware tool visibility
+ *
+ * Hides tools the signed-in user's membership role can't run, so the model
+ * doesn't pick calls that would only fail with a 403.
+ */
+
+import type { Membership } from '../api/types/index.js';
+import type { ToolDefinition } from './shared.js';
+
+export type MembershipRole = Membership['role'];
+
+// Organization settings and people management, reserved for admins
+const ADMIN_ONLY_TOOLS = new Set([
+  'update_membership',
+  'create_user_group',
+  'list_invites',
+  'create_invite',
+  'update_invite',
+  'resend_invite',
+  'create_filter_group',
+  'update_filter_group',
+  'update_filter_group_visibility',
+  'delete_filter_group',
+  'create_crop_preset',
+  'create_custom_meta_field',
+  'create_rights_package',
+  'create_taxonomy',
+  'list_webhooks',
+  'get_webhook',
+  'create_webhook',
+  'delete_webhook',
+  'get_webhook_logs',
+]);
+
+// Restricted members can browse and download, and ask for more access
+const RESTRICTED_WRITE_TOOLS = new Set([
+  'create_download',
+  'submit_access_request',
+]);
+
+/**
+ * Whether a member with the given role can run a tool. Without a known role
+ * (not signed in yet) every tool is allowed.
+ */
+export function isToolAllowedForRole(definition: ToolDefinition, role?: MembershipRole): boolean {
+  if (!role || role === 'admin') return true;
+  if (ADMIN_ONLY_TOOLS.has(definition.name)) return false;
+  if (role === 'restricted') {
+    return definition.annotations.readOnlyHint || RESTRICTED_WRITE_TOOLS.has(definition.name);
+  }
+  return true;
+}
@@ -3,17 +3,163 @@
  */
 
 import type { MediagraphClient } from '../api/client.js';
+import type { Asset } from '../api/types/index.js';
+import type { ToolPolicy } from './policy.js';
+import type { MembershipRole } from './roles.js';
 
 export interface ReauthorizeResult {
   success: boolean;
   organizationName?: string;
   userEmail?: string;
+  // Why reauthorization failed or isn't possible, shown instead of the default
+  message?: string;
+  // Sign-in was started and completes once the user approves it elsewhere
+  pending?: boolean;
+}
+
+export interface OrganizationInfo {
+  slug: string;
+  name?: string;
+  userEmail?: string;
+  active: boolean;
+}
+
+/**
+ * Organizations the session holds credentials for
+ */
+export interface OrganizationDirectory {
+  list(): Promise<OrganizationInfo[]>;
+  /** Make an organization the default for later calls */
+  switch(slug: string): Promise<OrganizationInfo>;
+  /** Client that calls the API as the given organization */
+  clientFor(slug: string): MediagraphClient;
+}
+
+/**
+ * Argument defaults applied when a call leaves them out
+ */
+export interface ToolDefaults {
+  per_page?: number;
+  /** Download size, used by tools that offer it */
+  download_size?: string;
+  watermark?: boolean;
+}
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * Takes the IDs of the assets a tool call changed, for the audit log
+ */
+export type AssetReporter = (assetIds: number[]) => void;
+
+/**
+ * Ask the user to confirm an action; resolves true only if they accepted
+ */
+export type ConfirmationRequester = (message: string) => Promise<boolean>;
+
+/**
+ * Send the user to a sign-in URL; resolves true if they went ahead
+ */
+export type SignInPrompter = (message: string, url: string) => Promise<boolean>;
+
+/**
+ * A finished tool call, as handed to the audit log
+ */
+export interface ToolCallRecord {
+  tool: string;
+  /** Organization the call ran in */
+  organization?: string;
+  args: Record<string, unknown>;
+  result: ToolResult;
+  durationMs: number;
+  /** The call was a dry run and changed nothing */
+  dryRun?: boolean;
+  /** Assets the tool reported changing, which the arguments may not name (e.g. undo_change) */
+  assetIds?: number[];
+}
+
+/**
+ * Records finished tool calls (see audit/audit-log.ts)
+ */
+export type ToolCallRecorder = (call: ToolCallRecord) => Promise<void>;
+
+/**
+ * Field values of one asset before (and, where known, after) a change
+ */
+export interface AssetSnapshot {
+  id: number;
+  before: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * A change to hand to the journal
+ */
+export interface NewChange {
+  tool: string;
+  /** Organization the change was made in */
+  organization?: string;
+  summary: string;
+  assets: AssetSnapshot[];
+  /** The bulk job that made the change, with the options it ran with */
+  bulkJob?: { id: number; params: Record<string, unknown> };
+}
+
+export interface RecordedChange extends NewChange {
+  id: string;
+  /** ISO 8601 time the change was made */
+  timestamp: string;
+  profile?: string;
+  /** Set once the change was undone */
+  undoneAt?: string;
+  undoBulkJobIds?: number[];
+}
+
+export interface ChangeQuery {
+  /** Only changes made in this organization; changes without one never match */
+  organization?: string;
+  tool?: string;
+  /** Only changes to this asset */
+  assetId?: number | string;
+}
+
+/**
+ * Prior values of changed assets, for undo_change (see audit/change-journal.ts)
+ */
+export interface ChangeJournal {
+  record(change: NewChange): Promise<RecordedChange | undefined>;
+  markUndone(id: string, bulkJobIds?: number[]): Promise<void>;
+  list(query?: ChangeQuery): RecordedChange[];
+  get(id: string): RecordedChange | undefined;
 }
 
 export interface ToolContext {
   client: MediagraphClient;
   organizationSlug?: string;
-  reauthorize?: () => Promise<ReauthorizeResult>;
+  reauthorize?: (promptSignIn?: SignInPrompter) => Promise<ReauthorizeResult>;
+  // Only set when the session can hold credentials for several organizations
+  organizations?: OrganizationDirectory;
+  // Only set when the caller asked for progress (sent a progressToken)
+  reportProgress?: ProgressReporter;
+  // Only set when the audit log is on; tools that change assets report which ones
+  reportAssets?: AssetReporter;
+  // Aborted when the host cancels the tool call
+  signal?: AbortSignal;
+  // Tools outside the policy are rejected even if called directly
+  policy?: ToolPolicy;
+  // Membership role of the signed-in user, once known
+  role?: MembershipRole;
+  defaults?: ToolDefaults;
+  // Only set when the host supports elicitation
+  confirm?: ConfirmationRequester;
+  // Only set when the host supports URL elicitation
+  promptSignIn?: SignInPrompter;
+  // Only set when the audit log is on
+  audit?: ToolCallRecorder;
+  // Set for dry runs: tools that support them describe the change instead of making it
+  dryRun?: boolean;
+  // Only set when the change journal is on
+  changes?: ChangeJournal;
 }
 
 export interface ToolResultContent {
@@ -23,17 +169,43 @@ export interface ToolResultContent {
 
 export interface ToolResult {
   content: ToolResultContent[];
+  // Machine-readable result matching the tool's outputSchema
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+/**
+ * Behavior hints for hosts deciding which calls need user approval
+ */
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean;
+}
+
+/**
+ * JSON Schema describing a tool's structuredContent
+ */
+export interface ToolOutputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  // Alternative sets of required fields, e.g. a result or a dry-run preview
+  anyOf?: { required: string[] }[];
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
+  annotations: ToolAnnotations;
   inputSchema: {
     type: string;
     properties: Record<string, unknown>;
     required: string[];
   };
+  outputSchema?: ToolOutputSchema;
   // MCP Apps metadata for tools with UI
   _meta?: {
     ui?: {
@@ -55,6 +227,23 @@ export function successResult(data: unknown): ToolResult {
   };
 }
 
+/**
+ * Result with structured data for clients. The text starts with a compact
+ * summary and also carries the serialized data, for hosts that only pass
+ * content to the model.
+ */
+export function structuredResult(data: object, summary: string): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `${summary}\n\n${JSON.stringify(data, null, 2)}`,
+      },
+    ],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
 export function errorResult(message: string): ToolResult {
   return {
     content: [
@@ -67,12 +256,52 @@ export function errorResult(message: string): ToolResult {
   };
 }
 
+// Common annotation presets (openWorldHint is reserved for tools that reach
+// people or systems outside the organization, e.g. share links and webhooks)
+export const readOnlyAnnotations: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+export const additiveAnnotations: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: false,
+};
+
+export const updateAnnotations: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+export const destructiveAnnotations: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
 // Common input schema types
 export const idParam = {
   type: ['number', 'string'],
   description: 'ID of the resource',
 };
 
+export const confirmParam = {
+  type: 'boolean',
+  description: 'Set to true only after the user explicitly confirmed this action. Required when the host cannot ask for confirmation itself.',
+};
+
+export const dryRunParam = {
+  type: 'boolean',
+  description: 'Check the call and report what it would change, without changing anything. Use it to show the user a plan before large changes.',
+};
+
 export const paginationParams = {
   page: { type: 'number', description: 'Page number' },
   per_page: { type: 'number', description: 'Results per page (max 100)' },
@@ -87,3 +316,74 @@ export interface ToolModule {
   definitions: ToolDefinition[];
   handlers: Record<string, ToolHandler>;
 }
+
+/**
+ * Confirm a destructive action before running it
+ *
+ * Hosts with elicitation ask the user directly, so the model can't confirm on
+ * their behalf. Otherwise the call must carry confirm: true. Returns a result
+ * to send back instead of running the action, or undefined to go ahead.
+ */
+export async function requireConfirmation(
+  summary: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<ToolResult | undefined> {
+  if (context.confirm) {
+    const confirmed = await context.confirm(summary);
+    return confirmed ? undefined : successResult('Cancelled: the user did not confirm. Nothing was changed.');
+  }
+
+  if (args.confirm !== true) {
+    return errorResult(`Confirmation required: ${summary}\nAsk the user to confirm, then call this tool again with confirm: true.`);
+  }
+  return undefined;
+}
+
+/**
+ * Result of a dry run: what the call would have done, as a sentence without
+ * its final period, and optional details. The structured preview matches the
+ * dry-run variant of the tool's output schema (see withDryRunPreview).
+ */
+export function dryRunResult(summary: string, details?: Record<string, unknown>): ToolResult {
+  const text = `Dry run: ${summary}.\nNothing was changed.`;
+  return {
+    ...successResult(details ? `${text}\n${JSON.stringify(details, null, 2)}` : text),
+    structuredContent: { dry_run: true, summary, ...(details ? { details } : {}) },
+  };
+}
+
+/**
+ * Name of a tag on an asset, which may be a tag object or just its name
+ */
+export function tagName(tag: NonNullable<Asset['tags']>[number]): string {
+  return typeof tag === 'string' ? tag : tag.name;
+}
+
+/**
+ * Current values of the given fields, null where the object has none. Tags
+ * are kept as names, which is what the API takes back.
+ */
+export function snapshotFields(current: object, fields: string[]): Record<string, unknown> {
+  const values = current as Record<string, unknown>;
+  return Object.fromEntries(fields.map(field => {
+    const value = values[field] ?? null;
+    return [field, field === 'tags' && Array.isArray(value) ? (value as Asset['tags'])!.map(tagName) : value];
+  }));
+}
+
+/**
+ * Fields an update would change, with their current and new values
+ */
+export function fieldChanges(
+  current: object,
+  updates: Record<string, unknown>,
+): Record<string, { from: unknown; to: unknown }> {
+  const values = current as Record<string, unknown>;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined || JSON.stringify(values[field]) === JSON.stringify(value)) continue;
+    changes[field] = { from: values[field] ?? null, to: value };
+  }
+  return changes;
+}
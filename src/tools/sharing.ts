@@ -2,7 +2,20 @@
  * Sharing and access request tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  confirmParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  errorResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  destructiveAnnotations,
+  requireConfirmation,
+  type ToolModule,
+} from './shared.js';
 
 export const sharingTools: ToolModule = {
   definitions: [
@@ -10,16 +23,19 @@ export const sharingTools: ToolModule = {
     {
       name: 'list_share_links',
       description: 'List share links',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by asset group name or user email' } }, required: [] },
     },
     {
       name: 'get_share_link',
       description: 'Get share link details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_share_link',
       description: 'Create a share link for a Collection, Lightbox, or Storage Folder',
+      annotations: { ...additiveAnnotations, openWorldHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -38,20 +54,23 @@ export const sharingTools: ToolModule = {
           watermark_all: { type: 'boolean', description: 'Apply watermark to all downloads' },
           note: { type: 'string', description: 'Internal note' },
           expires_at: { type: 'string', description: 'Expiration date/time in ISO 8601 format' },
+          dry_run: dryRunParam,
         },
         required: ['asset_group_id'],
       },
     },
     {
       name: 'delete_share_link',
-      description: 'Delete a share link',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      description: 'Delete a share link. Asks the user to confirm first.',
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, confirm: confirmParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Access Requests
     {
       name: 'list_access_requests',
       description: 'List access requests and grants',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -66,11 +85,13 @@ export const sharingTools: ToolModule = {
     {
       name: 'get_access_request',
       description: 'Get access request details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'submit_access_request',
       description: 'Submit an access request',
+      annotations: additiveAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
   ],
@@ -83,8 +104,19 @@ export const sharingTools: ToolModule = {
     async get_share_link(args, { client }) {
       return successResult(await client.getShareLink(args.id as number | string));
     },
-    async create_share_link(args, { client }) {
+    async create_share_link(args, { client, dryRun }) {
       const { asset_group_id, ...data } = args;
+      if (dryRun) {
+        if (data.expires_at !== undefined && Number.isNaN(Date.parse(data.expires_at as string))) {
+          return errorResult(`expires_at is not a valid date: ${data.expires_at}`);
+        }
+        // Also fails when the asset group doesn't exist
+        const existing = await client.getAssetGroupShareLinks(asset_group_id as number | string);
+        return dryRunResult(
+          `would create a share link for asset group #${asset_group_id}, which has ${existing.length} share link${existing.length === 1 ? '' : 's'} already`,
+          { settings: data },
+        );
+      }
       return successResult(await client.createShareLink(asset_group_id as number | string, data as {
         enabled?: boolean;
         image_and_video_permission?: string;
@@ -94,8 +126,22 @@ export const sharingTools: ToolModule = {
         expires_at?: string;
       }));
     },
-    async delete_share_link(args, { client }) {
-      await client.deleteShareLink(args.id as number | string);
+    async delete_share_link(args, context) {
+      const { client } = context;
+      const link = await client.getShareLink(args.id as number | string);
+      const details = [`${link.assets_count ?? 0} assets`];
+      if (link.views_count) details.push(`${link.views_count} views`);
+      if (context.dryRun) {
+        return dryRunResult(`would delete share link ${link.name ? `"${link.name}" ` : ''}(#${link.id}, ${details.join(', ')}) at ${link.url || 'its URL'}`);
+      }
+      const cancelled = await requireConfirmation(
+        `Delete share link ${link.name ? `"${link.name}" ` : ''}(#${link.id}, ${details.join(', ')})? Anyone using ${link.url || 'it'} will lose access.`,
+        args,
+        context,
+      );
+      if (cancelled) return cancelled;
+
+      await client.deleteShareLink(link.id);
       return successResult({ success: true });
     },
 
@@ -2,7 +2,18 @@
  * Social interaction tools (comments, notifications)
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  type ToolModule,
+} from './shared.js';
 
 export const socialTools: ToolModule = {
   definitions: [
@@ -10,6 +21,7 @@ export const socialTools: ToolModule = {
     {
       name: 'list_comments',
       description: 'List comments on a Lightbox or Collection',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -23,6 +35,7 @@ export const socialTools: ToolModule = {
     {
       name: 'create_comment',
       description: 'Create a new comment on a Lightbox or Collection. Supports markdown and @mentions.',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -36,6 +49,7 @@ export const socialTools: ToolModule = {
     {
       name: 'update_comment',
       description: 'Update a comment. Only the comment author can update their own comments.',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -48,18 +62,21 @@ export const socialTools: ToolModule = {
     {
       name: 'delete_comment',
       description: 'Delete a comment. Only the comment author can delete their own comments.',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Notifications
     {
       name: 'list_notifications',
       description: 'List notifications',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_notification_count',
       description: 'Get unread notification count',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
   ],
@@ -82,7 +99,11 @@ export const socialTools: ToolModule = {
         { text: args.text as string },
       ));
     },
-    async delete_comment(args, { client }) {
+    async delete_comment(args, { client, dryRun }) {
+      if (dryRun) {
+        const comment = await client.getComment(args.id as number | string);
+        return dryRunResult(`would delete comment #${comment.id} on ${comment.commentable_type} #${comment.commentable_id}`, { body: comment.body });
+      }
       await client.deleteComment(args.id as number | string);
       return successResult({ success: true });
     },
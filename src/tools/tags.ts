@@ -2,7 +2,21 @@
  * Tag and taxonomy tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  errorResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  structuredResult,
+  type ToolModule,
+} from './shared.js';
+import { tagOutputSchema, tagListOutputSchema, summarizeTag, summarizeList } from './output.js';
 
 export const tagTools: ToolModule = {
   definitions: [
@@ -10,20 +24,25 @@ export const tagTools: ToolModule = {
     {
       name: 'list_tags',
       description: 'List tags in the organization',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, q: { type: 'string', description: 'Search query' } },
         required: [],
       },
+      outputSchema: tagListOutputSchema,
     },
     {
       name: 'get_tag',
       description: 'Get tag details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      outputSchema: tagOutputSchema,
     },
     {
       name: 'create_tag',
       description: 'Create a new tag',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { name: { type: 'string' }, parent_id: { type: 'number' } },
@@ -33,6 +52,7 @@ export const tagTools: ToolModule = {
     {
       name: 'update_tag',
       description: 'Update a tag',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: { id: idParam, name: { type: 'string' } },
@@ -42,14 +62,16 @@ export const tagTools: ToolModule = {
     {
       name: 'delete_tag',
       description: 'Delete a tag',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
     {
       name: 'merge_tags',
       description: 'Merge one tag into another',
+      annotations: { ...destructiveAnnotations, idempotentHint: false },
       inputSchema: {
         type: 'object',
-        properties: { id: idParam, target_tag_id: { type: 'number' } },
+        properties: { id: idParam, target_tag_id: { type: 'number' }, dry_run: dryRunParam },
         required: ['id', 'target_tag_id'],
       },
     },
@@ -58,18 +80,21 @@ export const tagTools: ToolModule = {
     {
       name: 'get_tagging',
       description: 'Get details of a specific tagging (tag-to-asset relationship)',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'delete_tagging',
       description: 'Remove a tagging (untag an asset)',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Auto Tags
     {
       name: 'list_auto_tags',
       description: 'List AI-generated auto tags',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, q: { type: 'string' } },
@@ -79,11 +104,13 @@ export const tagTools: ToolModule = {
     {
       name: 'get_auto_tag',
       description: 'Get auto tag details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'bulk_find_auto_tags',
       description: 'Find multiple auto tags by their names at once',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { tag_names: { type: 'array', items: { type: 'string' }, description: 'Array of auto tag names to find' } },
@@ -93,23 +120,27 @@ export const tagTools: ToolModule = {
     {
       name: 'delete_auto_tag',
       description: 'Delete/dismiss an auto tag',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
 
     // Taxonomies
     {
       name: 'list_taxonomies',
       description: 'List taxonomies (controlled vocabularies)',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_taxonomy',
       description: 'Get taxonomy details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_taxonomy',
       description: 'Create a new taxonomy',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { name: { type: 'string' }, description: { type: 'string' } },
@@ -119,6 +150,7 @@ export const tagTools: ToolModule = {
     {
       name: 'list_taxonomy_tags',
       description: 'List tags within a taxonomy',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { taxonomy_id: idParam, ...paginationParams, parent_id: { type: 'number' } },
@@ -128,6 +160,7 @@ export const tagTools: ToolModule = {
     {
       name: 'create_taxonomy_tag',
       description: 'Create a tag within a taxonomy',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { taxonomy_id: idParam, name: { type: 'string' }, parent_id: { type: 'number' } },
@@ -139,6 +172,7 @@ export const tagTools: ToolModule = {
     {
       name: 'list_creator_tags',
       description: 'List creator/photographer tags',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { ...paginationParams, q: { type: 'string' } },
@@ -148,6 +182,7 @@ export const tagTools: ToolModule = {
     {
       name: 'create_creator_tag',
       description: 'Create a new creator tag',
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: { name: { type: 'string' } },
@@ -159,10 +194,12 @@ export const tagTools: ToolModule = {
   handlers: {
     // Tags
     async list_tags(args, { client }) {
-      return successResult(await client.listTags(args));
+      const tags = await client.listTags(args);
+      return structuredResult({ items: tags }, summarizeList('tags', tags));
     },
     async get_tag(args, { client }) {
-      return successResult(await client.getTag(args.id as number | string));
+      const tag = await client.getTag(args.id as number | string);
+      return structuredResult(tag, summarizeTag(tag));
     },
     async create_tag(args, { client }) {
       return successResult(await client.createTag(args as { name: string; parent_id?: number }));
@@ -171,11 +208,25 @@ export const tagTools: ToolModule = {
       const { id, ...data } = args;
       return successResult(await client.updateTag(id as number | string, data));
     },
-    async delete_tag(args, { client }) {
+    async delete_tag(args, { client, dryRun }) {
+      if (dryRun) {
+        const tag = await client.getTag(args.id as number | string);
+        return dryRunResult(`would delete ${summarizeTag(tag)}`);
+      }
       await client.deleteTag(args.id as number | string);
       return successResult({ success: true });
     },
-    async merge_tags(args, { client }) {
+    async merge_tags(args, { client, dryRun }) {
+      if (dryRun) {
+        const [tag, target] = await Promise.all([
+          client.getTag(args.id as number | string),
+          client.getTag(args.target_tag_id as number),
+        ]);
+        if (tag.id === target.id) {
+          return errorResult(`Cannot merge ${summarizeTag(tag)} into itself`);
+        }
+        return dryRunResult(`would merge ${summarizeTag(tag)} into ${summarizeTag(target)} and delete "${tag.name}"`);
+      }
       await client.mergeTagInto(args.id as number | string, args.target_tag_id as number);
       return successResult({ success: true });
     },
@@ -184,7 +235,11 @@ export const tagTools: ToolModule = {
     async get_tagging(args, { client }) {
       return successResult(await client.getTagging(args.id as number | string));
     },
-    async delete_tagging(args, { client }) {
+    async delete_tagging(args, { client, dryRun }) {
+      if (dryRun) {
+        const tagging = await client.getTagging(args.id as number | string);
+        return dryRunResult(`would remove tag ${tagging.tag ? `"${tagging.tag.name}"` : `#${tagging.tag_id}`} from asset #${tagging.asset_id}`);
+      }
       await client.deleteTagging(args.id as number | string);
       return successResult({ success: true });
     },
@@ -199,7 +254,11 @@ export const tagTools: ToolModule = {
     async bulk_find_auto_tags(args, { client }) {
       return successResult(await client.bulkFindAutoTags(args.tag_names as string[]));
     },
-    async delete_auto_tag(args, { client }) {
+    async delete_auto_tag(args, { client, dryRun }) {
+      if (dryRun) {
+        const autoTag = await client.getAutoTag(args.id as number | string);
+        return dryRunResult(`would dismiss auto tag "${autoTag.name}" (#${autoTag.id})`);
+      }
       await client.deleteAutoTag(args.id as number | string);
       return successResult({ success: true });
     },
@@ -4,7 +4,16 @@
 
 import { readFile, stat } from 'node:fs/promises';
 import { basename, extname } from 'node:path';
-import { successResult, errorResult, type ToolModule } from './shared.js';
+import { RequestCancelledError, type MediagraphClient } from '../api/client.js';
+import {
+  dryRunParam,
+  successResult,
+  errorResult,
+  dryRunResult,
+  additiveAnnotations,
+  type ToolModule,
+  type ToolResult,
+} from './shared.js';
 
 // Common MIME types
 const MIME_TYPES: Record<string, string> = {
@@ -51,6 +60,72 @@ function getMimeType(filename: string): string {
   return MIME_TYPES[ext] || 'application/octet-stream';
 }
 
+interface UploadFileResult {
+  filename: string;
+  success: boolean;
+  asset_id?: number;
+  asset_guid?: string;
+  error?: string;
+}
+
+/**
+ * Upload one local file into an existing upload session
+ */
+async function uploadLocalFile(client: MediagraphClient, uploadGuid: string, filePath: string): Promise<UploadFileResult> {
+  const fileStats = await stat(filePath);
+  if (!fileStats.isFile()) {
+    return { filename: filePath, success: false, error: 'Not a file' };
+  }
+
+  const fileData = await readFile(filePath);
+  const filename = basename(filePath);
+  const contentType = getMimeType(filename);
+
+  const preparedAsset = await client.prepareAssetUpload(uploadGuid, {
+    filename,
+    file_size: fileStats.size,
+    created_via: 'mcp',
+  });
+
+  await client.uploadToSignedUrl(preparedAsset.signed_upload_url, fileData, contentType);
+  const asset = await client.setAssetUploaded(preparedAsset.guid);
+
+  return {
+    filename,
+    success: true,
+    asset_id: asset.id,
+    asset_guid: asset.guid,
+  };
+}
+
+/**
+ * Dry run of upload_files: check the files and the contribution without uploading
+ */
+async function previewUpload(client: MediagraphClient, filePaths: string[], contributionId?: number): Promise<ToolResult> {
+  const files: { filename: string; file_size?: number; error?: string }[] = [];
+  for (const filePath of filePaths) {
+    try {
+      const fileStats = await stat(filePath);
+      files.push(fileStats.isFile()
+        ? { filename: basename(filePath), file_size: fileStats.size }
+        : { filename: basename(filePath), error: `Not a file: ${filePath}` });
+    } catch {
+      files.push({ filename: basename(filePath), error: `File not found: ${filePath}` });
+    }
+  }
+
+  const destination = contributionId
+    ? await client.getContribution(contributionId).then(contribution => `contribution "${contribution.name || contribution.id}" (#${contribution.id})`)
+    : 'the default storage folder';
+  const ready = files.filter(file => !file.error);
+  const totalSize = ready.reduce((sum, file) => sum + (file.file_size ?? 0), 0);
+  const failing = files.length - ready.length;
+  return dryRunResult(
+    `would upload ${ready.length} of ${files.length} files (${totalSize} bytes) to ${destination}${failing ? `, ${failing} would fail` : ''}`,
+    { files },
+  );
+}
+
 export const uploadTools: ToolModule = {
   definitions: [
     {
@@ -65,6 +140,7 @@ The file will be processed and thumbnails/previews generated automatically.
 
 By default, assets are uploaded to the default storage folder. To upload to a specific destination,
 provide a contribution_id - the asset will go to the contribution's configured storage folder or lightbox.`,
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -96,6 +172,7 @@ All files are uploaded in a single upload session.
 
 By default, assets are uploaded to the default storage folder. To upload to a specific destination,
 provide a contribution_id - assets will go to the contribution's configured storage folder or lightbox.`,
+      annotations: additiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -108,6 +185,7 @@ provide a contribution_id - assets will go to the contribution's configured stor
             type: 'number',
             description: 'Optional: ID of a contribution (upload link) to upload through. Assets will go to the contribution\'s configured storage folder or lightbox.',
           },
+          dry_run: dryRunParam,
         },
         required: ['file_paths'],
       },
@@ -190,7 +268,7 @@ provide a contribution_id - assets will go to the contribution's configured stor
       });
     },
 
-    async upload_files(args, { client }) {
+    async upload_files(args, { client, reportProgress, signal, dryRun }) {
       const filePaths = args.file_paths as string[];
       const contributionId = args.contribution_id as number | undefined;
 
@@ -198,56 +276,64 @@ provide a contribution_id - assets will go to the contribution's configured stor
         return errorResult('No files provided');
       }
 
+      if (dryRun) {
+        return previewUpload(client, filePaths, contributionId);
+      }
+
       // Create single upload session for all files - either from contribution or default
       const upload = contributionId
         ? await client.createUploadFromContribution(contributionId)
         : await client.createUpload();
 
-      const results: Array<{ filename: string; success: boolean; asset_id?: number; asset_guid?: string; error?: string }> = [];
+      const results: UploadFileResult[] = [];
+      let cancelled = false;
 
-      for (const filePath of filePaths) {
-        try {
-          // Check file
-          const fileStats = await stat(filePath);
-          if (!fileStats.isFile()) {
-            results.push({ filename: filePath, success: false, error: 'Not a file' });
-            continue;
-          }
+      for (const [index, filePath] of filePaths.entries()) {
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
+        }
 
-          // Read and upload
-          const fileData = await readFile(filePath);
-          const filename = basename(filePath);
-          const contentType = getMimeType(filename);
-
-          const preparedAsset = await client.prepareAssetUpload(upload.guid, {
-            filename,
-            file_size: fileStats.size,
-            created_via: 'mcp',
-          });
-
-          await client.uploadToSignedUrl(preparedAsset.signed_upload_url, fileData, contentType);
-          const asset = await client.setAssetUploaded(preparedAsset.guid);
-
-          results.push({
-            filename,
-            success: true,
-            asset_id: asset.id,
-            asset_guid: asset.guid,
-          });
+        let result: UploadFileResult;
+        try {
+          result = await uploadLocalFile(client, upload.guid, filePath);
         } catch (error) {
-          results.push({
+          if (error instanceof RequestCancelledError) {
+            cancelled = true;
+            break;
+          }
+          result = {
             filename: basename(filePath),
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
-          });
+          };
         }
+
+        results.push(result);
+        await reportProgress?.(
+          index + 1,
+          filePaths.length,
+          `${result.success ? 'Uploaded' : 'Failed to upload'} ${result.filename} (${index + 1}/${filePaths.length})`,
+        );
+      }
+
+      const successCount = results.filter(r => r.success).length;
+
+      // The session can't be finished once cancelled, report what made it through
+      if (cancelled) {
+        return successResult({
+          message: `Cancelled after uploading ${successCount} of ${filePaths.length} files`,
+          cancelled: true,
+          upload_guid: upload.guid,
+          contribution_id: contributionId,
+          results,
+          not_uploaded: filePaths.slice(results.length),
+        });
       }
 
       // Mark upload session as done
       await client.setUploadDone(upload.id);
 
-      const successCount = results.filter(r => r.success).length;
-
       return successResult({
         message: `Uploaded ${successCount} of ${filePaths.length} files${contributionId ? ` via contribution ${contributionId}` : ''}`,
         upload_guid: upload.guid,
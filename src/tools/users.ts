@@ -2,18 +2,45 @@
  * User and organization tools
  */
 
-import { idParam, paginationParams, successResult, errorResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  paginationParams,
+  successResult,
+  errorResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  updateAnnotations,
+  destructiveAnnotations,
+  structuredResult,
+  type ToolModule,
+} from './shared.js';
+import {
+  whoamiOutputSchema,
+  organizationListOutputSchema,
+  summarizeWhoami,
+  summarizeOrganization,
+  summarizeOrganizations,
+} from './output.js';
 
 export const userTools: ToolModule = {
   definitions: [
     {
       name: 'whoami',
       description: 'Get information about the currently authenticated user and organization',
+      annotations: readOnlyAnnotations,
+      inputSchema: { type: 'object', properties: {}, required: [] },
+      outputSchema: whoamiOutputSchema,
+    },
+    {
+      name: 'client_stats',
+      description: 'Show how many API requests were made under this session\'s rate limit, how many were held back by it or throttled by Mediagraph, and the API\'s last rate limit headers. Use it to tune MEDIAGRAPH_RATE_LIMIT and MEDIAGRAPH_MAX_CONCURRENCY for large batches.',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
     {
       name: 'get_organization',
       description: 'Get details about an organization by ID',
+      annotations: readOnlyAnnotations,
       inputSchema: {
         type: 'object',
         properties: { id: idParam },
@@ -23,16 +50,19 @@ export const userTools: ToolModule = {
     {
       name: 'list_memberships',
       description: 'List organization memberships',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_membership',
       description: 'Get membership details by ID',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'update_membership',
       description: 'Update a membership',
+      annotations: destructiveAnnotations,
       inputSchema: {
         type: 'object',
         properties: {
@@ -44,14 +74,36 @@ export const userTools: ToolModule = {
     },
     {
       name: 'reauthorize',
-      description: 'Re-run the OAuth authorization flow. Use this to switch to a different Mediagraph organization or re-authenticate.',
+      description: 'Re-run the OAuth authorization flow. Use this to re-authenticate or to sign in to another Mediagraph organization, which then becomes the active one. Organizations signed in earlier stay available.',
+      annotations: { ...additiveAnnotations, openWorldHint: true },
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
+    {
+      name: 'list_organizations',
+      description: 'List the Mediagraph organizations this server is signed in to and which one is active',
+      annotations: readOnlyAnnotations,
+      inputSchema: { type: 'object', properties: {}, required: [] },
+      outputSchema: organizationListOutputSchema,
+    },
+    {
+      name: 'switch_organization',
+      description: 'Make another signed-in organization the active one for later calls. To run a single call in another organization, pass its slug as the organization argument instead.',
+      annotations: updateAnnotations,
+      inputSchema: {
+        type: 'object',
+        properties: { organization: { type: 'string', description: 'Slug of the organization (see list_organizations)' } },
+        required: ['organization'],
+      },
+    },
   ],
 
   handlers: {
     async whoami(args, { client }) {
-      return successResult(await client.whoami());
+      const whoami = await client.whoami();
+      return structuredResult(whoami, summarizeWhoami(whoami));
+    },
+    async client_stats(_args, { client }) {
+      return successResult(client.getStats());
     },
     async get_organization(args, { client }) {
       return successResult(await client.getOrganization(args.id as number | string));
@@ -66,15 +118,32 @@ export const userTools: ToolModule = {
       const { id, ...data } = args;
       return successResult(await client.updateMembership(id as number | string, data));
     },
-    async reauthorize(_args, { reauthorize }) {
+    async reauthorize(_args, { reauthorize, promptSignIn }) {
       if (!reauthorize) {
         return errorResult('Reauthorization is not available in this context.');
       }
-      const result = await reauthorize();
+      const result = await reauthorize(promptSignIn);
+      if (result.pending && result.message) {
+        return successResult(result.message);
+      }
       if (!result.success) {
-        return errorResult('Re-authorization failed. Please complete the login in your browser and try again.');
+        return errorResult(result.message || 'Re-authorization failed. Please complete the login in your browser and try again.');
       }
       return successResult(`Successfully re-authorized!\nOrganization: ${result.organizationName || 'Unknown'}\nUser: ${result.userEmail || 'Unknown'}`);
     },
+    async list_organizations(_args, { organizations }) {
+      if (!organizations) {
+        return errorResult('This server is connected to a single organization.');
+      }
+      const list = await organizations.list();
+      return structuredResult({ organizations: list }, summarizeOrganizations(list));
+    },
+    async switch_organization(args, { organizations }) {
+      if (!organizations) {
+        return errorResult('This server is connected to a single organization.');
+      }
+      const organization = await organizations.switch(args.organization as string);
+      return successResult(`Switched to ${summarizeOrganization(organization)}`);
+    },
   },
 };
@@ -2,23 +2,36 @@
  * Webhook tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  dryRunParam,
+  paginationParams,
+  successResult,
+  dryRunResult,
+  readOnlyAnnotations,
+  additiveAnnotations,
+  destructiveAnnotations,
+  type ToolModule,
+} from './shared.js';
 
 export const webhookTools: ToolModule = {
   definitions: [
     {
       name: 'list_webhooks',
       description: 'List webhooks',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams, q: { type: 'string', description: 'Search by webhook name, URL, or asset group name' } }, required: [] },
     },
     {
       name: 'get_webhook',
       description: 'Get webhook details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'create_webhook',
       description: 'Create a webhook to receive event notifications',
+      annotations: { ...additiveAnnotations, openWorldHint: true },
       inputSchema: {
         type: 'object',
         properties: {
@@ -41,11 +54,13 @@ export const webhookTools: ToolModule = {
     {
       name: 'delete_webhook',
       description: 'Delete a webhook',
-      inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
+      annotations: destructiveAnnotations,
+      inputSchema: { type: 'object', properties: { id: idParam, dry_run: dryRunParam }, required: ['id'] },
     },
     {
       name: 'get_webhook_logs',
       description: 'Get webhook delivery logs',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam, ...paginationParams }, required: ['id'] },
     },
   ],
@@ -70,7 +85,11 @@ export const webhookTools: ToolModule = {
         note?: string;
       }));
     },
-    async delete_webhook(args, { client }) {
+    async delete_webhook(args, { client, dryRun }) {
+      if (dryRun) {
+        const webhook = await client.getWebhook(args.id as number | string);
+        return dryRunResult(`would delete webhook "${webhook.name}" (#${webhook.id}), which posts to ${webhook.url}`);
+      }
       await client.deleteWebhook(args.id as number | string);
       return successResult({ success: true });
     },
@@ -2,23 +2,33 @@
  * Workflow tools
  */
 
-import { idParam, paginationParams, successResult, type ToolModule } from './shared.js';
+import {
+  idParam,
+  paginationParams,
+  successResult,
+  readOnlyAnnotations,
+  updateAnnotations,
+  type ToolModule,
+} from './shared.js';
 
 export const workflowTools: ToolModule = {
   definitions: [
     {
       name: 'list_workflows',
       description: 'List workflows',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { ...paginationParams }, required: [] },
     },
     {
       name: 'get_workflow',
       description: 'Get workflow details',
+      annotations: readOnlyAnnotations,
       inputSchema: { type: 'object', properties: { id: idParam }, required: ['id'] },
     },
     {
       name: 'approve_workflow_step',
       description: 'Approve selected assets in a workflow step, moving them to the next step',
+      annotations: updateAnnotations,
       inputSchema: {
         type: 'object',
         properties: {